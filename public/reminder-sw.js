@@ -0,0 +1,61 @@
+// Service worker for reminders, timers and alarms (see src/lib/reminder-notifications.ts).
+//
+// The page schedules reminders and rings them itself. This worker:
+// - shows their notifications, which works in background tabs and is the only way on Android
+// - brings the app back when a notification is clicked, and tells it the reminder was seen
+// - fires reminders that come due while it is awake, in case the browser has throttled the page's timers
+//
+// Browsers stop idle workers after a few minutes, so only reminders due within that window are waited for.
+
+const MAX_WAIT_MS = 4 * 60 * 1000;
+const timers = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+const notify = ({ id, title, body }) =>
+  self.registration.showNotification(title, {
+    body,
+    tag: id,
+    requireInteraction: true,
+    data: { id },
+  });
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'schedule') return;
+
+  // A new schedule replaces the old one; settling the old waits lets their waitUntil finish
+  for (const { timer, resolve } of timers.values()) {
+    clearTimeout(timer);
+    resolve();
+  }
+  timers.clear();
+
+  const soon = event.data.reminders.filter((reminder) => reminder.dueAt - Date.now() <= MAX_WAIT_MS);
+  const fired = soon.map(
+    (reminder) =>
+      new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          timers.delete(reminder.id);
+          notify(reminder).then(resolve, resolve);
+        }, Math.max(0, reminder.dueAt - Date.now()));
+        timers.set(reminder.id, { timer, resolve });
+      }),
+  );
+  // Keeps the worker alive until they have gone off
+  event.waitUntil(Promise.all(fired));
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+      for (const client of windows) {
+        client.postMessage({ type: 'dismiss', id: event.notification.data?.id });
+      }
+      return windows.length ? windows[0].focus() : self.clients.openWindow('/');
+    })(),
+  );
+});
@@ -0,0 +1,54 @@
+import { useState, type FormEvent, type KeyboardEvent } from 'react';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ChatComposerProps {
+  onSubmit: (text: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+// Typed alternative to the microphone; sends through the same conversation as voice input
+export const ChatComposer = ({ onSubmit, disabled, placeholder = "Type a message…" }: ChatComposerProps) => {
+  const [text, setText] = useState('');
+
+  const submit = () => {
+    const message = text.trim();
+    if (!message || disabled) return;
+
+    onSubmit(message);
+    setText('');
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    submit();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-end gap-2 w-full">
+      <Textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        aria-label="Message Nova"
+        rows={1}
+        className="min-h-[44px] max-h-40 resize-none"
+      />
+      <Button type="submit" size="icon" className="h-11 w-11 shrink-0" disabled={disabled || !text.trim()}>
+        <Send className="w-4 h-4" />
+        <span className="sr-only">Send message</span>
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,36 @@
+import { Card } from '@/components/ui/card';
+import { chatErrorGuidance } from '@/lib/chat-errors';
+import type { ChatErrorPayload } from '@shared/chat-errors';
+
+interface ChatErrorNoticeProps {
+  error: ChatErrorPayload;
+}
+
+export const ChatErrorNotice = ({ error }: ChatErrorNoticeProps) => {
+  const guidance = chatErrorGuidance[error.code];
+
+  return (
+    <Card className="p-6 border-destructive bg-destructive/5">
+      <h3 className="font-semibold text-destructive mb-4">{guidance.title}</h3>
+      <p className="text-muted-foreground mb-4">{guidance.description}</p>
+      {guidance.steps && (
+        <div className="text-sm space-y-2">
+          <p><strong>Steps:</strong></p>
+          <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
+            {guidance.steps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+      {guidance.link && (
+        <a href={guidance.link.href} target="_blank" rel="noreferrer" className="inline-block mt-4 text-sm text-primary underline">
+          {guidance.link.label}
+        </a>
+      )}
+      <p className="mt-4 text-xs text-muted-foreground">
+        Error code: <code className="bg-muted px-1 rounded">{error.code}</code>
+      </p>
+    </Card>
+  );
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { ConversationContext } from '@/hooks/use-conversation';
+import { createConversationStore } from '@/lib/conversation-store';
+import { ensureSession, fetchLatestConversation } from '@/lib/conversations';
+
+interface ConversationProviderProps {
+  children: ReactNode;
+}
+
+export const ConversationProvider = ({ children }: ConversationProviderProps) => {
+  const [store] = useState(createConversationStore);
+
+  // Pick up where the user left off; history is only a convenience, so failures just start fresh
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        await ensureSession();
+        const latest = await fetchLatestConversation();
+
+        // Don't clobber a turn the user started while we were loading
+        if (!cancelled && latest && store.getState().messages.length === 0) {
+          store.dispatch({ type: 'RESET', conversationId: latest.id, messages: latest.messages });
+        }
+      } catch (restoreError) {
+        console.error('Error restoring conversation:', restoreError);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  return <ConversationContext.Provider value={store}>{children}</ConversationContext.Provider>;
+};
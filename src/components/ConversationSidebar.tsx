@@ -0,0 +1,255 @@
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Languages, MessageSquare, MoreHorizontal, Pencil, Plus, Search, Settings, Trash2 } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useConversation } from '@/hooks/use-conversation';
+import { useToast } from '@/hooks/use-toast';
+import {
+  deleteConversation,
+  listConversations,
+  renameConversation,
+  searchConversations,
+  type ConversationSummary,
+} from '@/lib/conversations';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+export const ConversationSidebar = () => {
+  const { conversationId, isProcessing, openConversation, startNewConversation } = useConversation();
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const { data: conversations = [], isLoading } = useQuery({
+    queryKey: ['conversations', debouncedSearch],
+    queryFn: () => (debouncedSearch ? searchConversations(debouncedSearch) : listConversations()),
+  });
+
+  // New conversations and freshly active ones move to the top once a turn has been recorded
+  useEffect(() => {
+    if (!isProcessing) {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    }
+  }, [conversationId, isProcessing, queryClient]);
+
+  const showError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => renameConversation(id, title),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['conversations'] }),
+    onError: showError("Couldn't rename conversation"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteConversation,
+    onSuccess: (_, deletedId) => {
+      if (deletedId === conversationId) {
+        startNewConversation();
+      }
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+    onError: showError("Couldn't delete conversation"),
+  });
+
+  const handleOpen = (id: string) => {
+    if (id === conversationId) return;
+    openConversation(id).catch(showError("Couldn't open conversation"));
+  };
+
+  const commitRename = () => {
+    const title = renaming?.title.trim();
+    if (renaming && title) {
+      renameMutation.mutate({ id: renaming.id, title });
+    }
+    setRenaming(null);
+  };
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      commitRename();
+    } else if (event.key === 'Escape') {
+      setRenaming(null);
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="space-y-2">
+        <Button variant="outline" className="w-full justify-start" onClick={startNewConversation}>
+          <Plus className="w-4 h-4 mr-2" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <SidebarInput
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search conversations"
+            aria-label="Search conversations"
+            className="pl-8"
+          />
+        </div>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{debouncedSearch ? 'Search results' : 'Recent'}</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading &&
+                Array.from({ length: 4 }, (_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton showIcon />
+                  </SidebarMenuItem>
+                ))}
+
+              {!isLoading && conversations.length === 0 && (
+                <p className="px-2 py-4 text-sm text-muted-foreground">
+                  {debouncedSearch ? 'No conversations match your search.' : 'Your conversations will appear here.'}
+                </p>
+              )}
+
+              {conversations.map((conversation) => (
+                <SidebarMenuItem key={conversation.id}>
+                  {renaming?.id === conversation.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={renaming.title}
+                      onChange={(event) => setRenaming({ id: conversation.id, title: event.target.value })}
+                      onKeyDown={handleRenameKeyDown}
+                      onBlur={commitRename}
+                      aria-label="Conversation title"
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        isActive={conversation.id === conversationId}
+                        onClick={() => handleOpen(conversation.id)}
+                        className={conversation.snippet ? 'h-auto py-2' : undefined}
+                      >
+                        <MessageSquare />
+                        <div className="min-w-0">
+                          <span className="block truncate">{conversation.title || 'Untitled conversation'}</span>
+                          {conversation.snippet && (
+                            <span className="block truncate text-xs text-muted-foreground">{conversation.snippet}</span>
+                          )}
+                        </div>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                            <span className="sr-only">Conversation actions</span>
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem
+                            onSelect={() => setRenaming({ id: conversation.id, title: conversation.title ?? '' })}
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Rename
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            className="text-destructive focus:text-destructive"
+                            onSelect={() => setPendingDelete(conversation)}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild>
+              <Link to="/interpreter">
+                <Languages />
+                <span>Interpreter</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild>
+              <Link to="/settings">
+                <Settings />
+                <span>Voice settings</span>
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || 'Untitled conversation'}" and all of its messages will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Globe, MessageSquareText, Pencil, Timer, Trash2, Webhook } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  INPUT_PLACEHOLDER,
+  isSamePhrase,
+  isWebUrl,
+  loadCustomCommands,
+  saveCustomCommands,
+  type CustomCommand,
+  type CustomCommandAction,
+  type CustomCommandActionType,
+} from '@/lib/custom-commands';
+import { formatDuration } from '@/lib/reminders';
+
+const ACTION_TYPES: { value: CustomCommandActionType; label: string; icon: typeof Globe }[] = [
+  { value: 'open_url', label: 'Open a web page', icon: Globe },
+  { value: 'webhook', label: 'Call a webhook', icon: Webhook },
+  { value: 'prompt', label: 'Ask a prompt', icon: MessageSquareText },
+  { value: 'timer', label: 'Start a timer', icon: Timer },
+];
+
+// One form for every kind of action; only the fields the chosen kind needs are shown and checked
+const commandFormSchema = z
+  .object({
+    phrase: z.string().trim().min(2, 'Enter the phrase to say').max(80, 'Keep the phrase under 80 characters'),
+    type: z.enum(['open_url', 'webhook', 'prompt', 'timer']),
+    url: z.string().trim(),
+    template: z.string().trim(),
+    minutes: z.coerce.number(),
+    label: z.string().trim().max(80, 'Keep the label under 80 characters'),
+  })
+  .superRefine(({ type, url, template, minutes }, context) => {
+    if ((type === 'open_url' || type === 'webhook') && !isWebUrl(url)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['url'], message: 'Enter a full http:// or https:// address' });
+    }
+    if (type === 'prompt' && !template) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['template'], message: 'Write the prompt to ask' });
+    }
+    if (type === 'timer' && !(minutes > 0 && minutes <= 24 * 60)) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['minutes'], message: 'Choose up to 24 hours' });
+    }
+  });
+
+type CommandFormValues = z.infer<typeof commandFormSchema>;
+
+const EMPTY_FORM: CommandFormValues = { phrase: '', type: 'open_url', url: '', template: '', minutes: 25, label: '' };
+
+const toAction = ({ type, url, template, minutes, label }: CommandFormValues): CustomCommandAction => {
+  switch (type) {
+    case 'open_url':
+    case 'webhook':
+      return { type, url };
+    case 'prompt':
+      return { type, template };
+    case 'timer':
+      return { type, minutes, label };
+  }
+};
+
+const toFormValues = ({ phrase, action }: CustomCommand): CommandFormValues => ({
+  ...EMPTY_FORM,
+  ...action,
+  phrase,
+});
+
+const describeAction = (action: CustomCommandAction) => {
+  switch (action.type) {
+    case 'open_url':
+      return `Opens ${action.url}`;
+    case 'webhook':
+      return `Calls the webhook at ${new URL(action.url).hostname}`;
+    case 'prompt':
+      return `Asks “${action.template}”`;
+    case 'timer':
+      return `Starts a ${formatDuration(action.minutes * 60_000)} timer${action.label ? ` for ${action.label}` : ''}`;
+  }
+};
+
+// Lists the user's own voice commands and adds or edits one at a time. Commands are kept in local storage and
+// read on every message, so changes apply straight away.
+export const CustomCommandsEditor = () => {
+  const [commands, setCommands] = useState(loadCustomCommands);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const form = useForm<CommandFormValues>({ resolver: zodResolver(commandFormSchema), defaultValues: EMPTY_FORM });
+  const type = form.watch('type');
+
+  const updateCommands = (next: CustomCommand[]) => {
+    setCommands(next);
+    saveCustomCommands(next);
+  };
+
+  const stopEditing = () => {
+    setEditingId(null);
+    form.reset(EMPTY_FORM);
+  };
+
+  const onSubmit = (values: CommandFormValues) => {
+    if (commands.some((command) => command.id !== editingId && isSamePhrase(command.phrase, values.phrase))) {
+      form.setError('phrase', { message: 'Another command already uses this phrase' });
+      return;
+    }
+
+    const command: CustomCommand = { id: editingId ?? crypto.randomUUID(), phrase: values.phrase, action: toAction(values) };
+    updateCommands(
+      editingId ? commands.map((existing) => (existing.id === editingId ? command : existing)) : [...commands, command]
+    );
+    stopEditing();
+  };
+
+  const removeCommand = (id: string) => {
+    updateCommands(commands.filter((command) => command.id !== id));
+    if (editingId === id) {
+      stopEditing();
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="font-semibold text-lg">Custom commands</h2>
+        <p className="text-sm text-muted-foreground">
+          Say a phrase to run your own shortcut instead of asking Nova. Your commands are checked before anything else.
+        </p>
+      </div>
+
+      {commands.length > 0 && (
+        <ul className="space-y-2">
+          {commands.map((command) => {
+            const Icon = ACTION_TYPES.find((option) => option.value === command.action.type)!.icon;
+            return (
+              <li key={command.id} className="flex items-center gap-3 rounded-lg bg-muted p-2">
+                <Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">“{command.phrase}”</p>
+                  <p className="text-sm text-muted-foreground truncate">{describeAction(command.action)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => {
+                    setEditingId(command.id);
+                    form.reset(toFormValues(command));
+                  }}
+                  aria-label={`Edit “${command.phrase}”`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => removeCommand(command.id)}
+                  aria-label={`Delete “${command.phrase}”`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="phrase"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>When I say</FormLabel>
+                <FormControl>
+                  <Input placeholder="start focus mode" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Do this</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ACTION_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {(type === 'open_url' || type === 'webhook') && (
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === 'webhook' ? 'Webhook URL' : 'Page URL'}</FormLabel>
+                  <FormControl>
+                    <Input type="url" placeholder="https://" {...field} />
+                  </FormControl>
+                  {type === 'webhook' && (
+                    <FormDescription>
+                      Gets a POST with the phrase and anything said after it, as JSON. It must accept requests from
+                      this site.
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {type === 'prompt' && (
+            <FormField
+              control={form.control}
+              name="template"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prompt</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder={`Summarize ${INPUT_PLACEHOLDER} in three bullet points`} {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Sent to Nova in place of the phrase. {INPUT_PLACEHOLDER} is replaced by anything said after it.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {type === 'timer' && (
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minutes</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} step="any" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Label</FormLabel>
+                    <FormControl>
+                      <Input placeholder="focus" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={stopEditing}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit">{editingId ? 'Save command' : 'Add command'}</Button>
+          </div>
+        </form>
+      </Form>
+    </Card>
+  );
+};
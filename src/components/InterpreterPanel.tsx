@@ -0,0 +1,84 @@
+import { Mic, MicOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSpeechRecognition } from '@/hooks/use-speech-recognition';
+import { LANGUAGES, type LanguageCode } from '@shared/languages';
+import { ChatComposer } from './ChatComposer';
+
+interface InterpreterPanelProps {
+  title: string;
+  language: LanguageCode;
+  onLanguageChange: (language: LanguageCode) => void;
+  onUtterance: (text: string) => void;
+  // Called when this participant starts talking, so the other side's translation stops being read out
+  onStartSpeaking: () => void;
+}
+
+// One participant's half of the interpreter: their language, their microphone and a typed fallback.
+// Each panel runs its own recognizer, fixed to its participant's language.
+export const InterpreterPanel = ({ title, language, onLanguageChange, onUtterance, onStartSpeaking }: InterpreterPanelProps) => {
+  const { isSupported, isListening, transcript, start, stop } = useSpeechRecognition({
+    lang: LANGUAGES[language].speechTag,
+    onFinalResult: onUtterance,
+    onError: (error) => {
+      if (error !== 'no-speech' && error !== 'aborted') {
+        console.error('Speech recognition error:', error);
+      }
+    },
+  });
+
+  const toggleListening = () => {
+    if (isListening) {
+      stop();
+    } else {
+      onStartSpeaking();
+      start();
+    }
+  };
+
+  const selectId = `interpreter-${title.toLowerCase().replace(/\s+/g, '-')}`;
+
+  return (
+    <Card className="p-4 space-y-4 flex-1">
+      <div className="space-y-2">
+        <Label htmlFor={selectId}>{title}</Label>
+        <Select value={language} onValueChange={(value) => onLanguageChange(value as LanguageCode)}>
+          <SelectTrigger id={selectId}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.values(LANGUAGES).map((option) => (
+              <SelectItem key={option.code} value={option.code}>
+                {option.name} ({option.nativeName})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col items-center gap-2">
+        <Button
+          onClick={toggleListening}
+          disabled={!isSupported}
+          aria-label={isListening ? 'Stop listening' : `Speak ${LANGUAGES[language].name}`}
+          className={`voice-button w-16 h-16 rounded-full p-0 border-0 ${isListening ? 'active' : ''}`}
+        >
+          {isListening ? <MicOff className="w-6 h-6 text-white" /> : <Mic className="w-6 h-6 text-white" />}
+        </Button>
+        <p className="text-sm text-muted-foreground min-h-5 text-center">
+          {isListening ? transcript || 'Listening…' : LANGUAGES[language].nativeName}
+        </p>
+      </div>
+
+      <ChatComposer
+        onSubmit={(text) => {
+          onStartSpeaking();
+          onUtterance(text);
+        }}
+        placeholder={`Type in ${LANGUAGES[language].name}…`}
+      />
+    </Card>
+  );
+};
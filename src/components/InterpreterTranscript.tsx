@@ -0,0 +1,63 @@
+import { Loader2 } from 'lucide-react';
+import { chatErrorGuidance } from '@/lib/chat-errors';
+import type { InterpreterEntry, InterpreterSide } from '@/lib/interpreter';
+import { LANGUAGES, type LanguageCode } from '@shared/languages';
+
+interface InterpreterTranscriptProps {
+  entries: InterpreterEntry[];
+  languages: Record<InterpreterSide, LanguageCode>;
+}
+
+const SIDES: InterpreterSide[] = ['left', 'right'];
+const PARTICIPANTS: Record<InterpreterSide, string> = { left: 'Participant A', right: 'Participant B' };
+
+// Split-screen transcript: each column is one participant, so every utterance shows up as the original on
+// the speaker's side and the translation on the listener's side of the same row
+export const InterpreterTranscript = ({ entries, languages }: InterpreterTranscriptProps) => {
+  if (entries.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground">
+        Pick a language for each participant, then take turns speaking. Each turn is translated and read out for the other side.
+      </p>
+    );
+  }
+
+  const renderCell = (entry: InterpreterEntry, side: InterpreterSide) => {
+    if (entry.speaker === side) {
+      return <p className="text-foreground">{entry.original}</p>;
+    }
+    if (entry.error) {
+      return <p className="text-sm text-destructive">{chatErrorGuidance[entry.error.code].title}</p>;
+    }
+    if (entry.translation === null) {
+      return (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Translating…
+        </p>
+      );
+    }
+    return <p className="text-accent">{entry.translation}</p>;
+  };
+
+  return (
+    <div className="rounded-lg border border-border overflow-hidden">
+      <div className="grid grid-cols-2 bg-muted text-sm font-semibold">
+        {SIDES.map((side) => (
+          <div key={side} className="px-4 py-2">
+            {PARTICIPANTS[side]} · {LANGUAGES[languages[side]].name}
+          </div>
+        ))}
+      </div>
+      {entries.map((entry) => (
+        <div key={entry.id} className="grid grid-cols-2 border-t border-border">
+          {SIDES.map((side) => (
+            <div key={side} className={`px-4 py-3 ${entry.speaker === side ? 'bg-card' : ''}`}>
+              {renderCell(entry, side)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
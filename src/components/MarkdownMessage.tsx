@@ -0,0 +1,83 @@
+import { useRef, useState, type ComponentPropsWithoutRef, type MouseEvent } from 'react';
+import ReactMarkdown from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { Check, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { rehypeReadingMarks, type ReadingMarksOptions } from '@/lib/rehype-reading-marks';
+import { cn } from '@/lib/utils';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/dist/katex.min.css';
+
+interface MarkdownMessageProps {
+  content: string;
+  // Marks the spoken sentences, and the one and the word being read, for read-along highlighting
+  reading?: ReadingMarksOptions;
+  // Called with the speech script index of a clicked sentence
+  onSentenceClick?: (sentence: number) => void;
+  className?: string;
+}
+
+const COPIED_FEEDBACK_MS = 2000;
+
+// Code blocks get a copy button; the text is read from the rendered block, after highlighting has split it up
+const CodeBlock = ({ className, children, node: _node, ...props }: ComponentPropsWithoutRef<'pre'> & { node?: unknown }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch (error) {
+      console.error('Could not copy code:', error);
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <pre ref={preRef} className={cn('pr-12', className)} {...props}>
+        {children}
+      </pre>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 h-8 w-8 opacity-70 group-hover:opacity-100"
+        onClick={copy}
+        aria-label={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+      </Button>
+    </div>
+  );
+};
+
+// Renders an assistant reply: GitHub-flavoured markdown, highlighted code and KaTeX math.
+// What gets spoken is produced separately, by createSpeechScriptBuffer.
+export const MarkdownMessage = ({ content, reading, onSentenceClick, className }: MarkdownMessageProps) => {
+  const handleClick = (event: MouseEvent<HTMLDivElement>) => {
+    const sentence = (event.target as HTMLElement).closest<HTMLElement>('[data-sentence]')?.dataset.sentence;
+    if (sentence !== undefined && onSentenceClick) {
+      onSentenceClick(Number(sentence));
+    }
+  };
+
+  return (
+    <div className={cn('prose prose-invert prose-sm max-w-none text-foreground', className)} onClick={handleClick}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[
+          rehypeKatex,
+          [rehypeHighlight, { detect: true }],
+          ...(reading ? [() => rehypeReadingMarks(reading)] : []),
+        ]}
+        components={{ pre: CodeBlock }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
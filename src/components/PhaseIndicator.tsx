@@ -0,0 +1,31 @@
+import { Brain, Ear, Volume2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ConversationPhase } from '@/hooks/use-hands-free';
+
+const phases = [
+  { phase: 'listening', label: 'Listening', icon: Ear },
+  { phase: 'thinking', label: 'Thinking', icon: Brain },
+  { phase: 'speaking', label: 'Speaking', icon: Volume2 },
+] as const;
+
+interface PhaseIndicatorProps {
+  phase: ConversationPhase;
+}
+
+export const PhaseIndicator = ({ phase }: PhaseIndicatorProps) => (
+  <div className="flex items-center gap-2" role="status" aria-live="polite">
+    {phases.map(({ phase: step, label, icon: Icon }) => (
+      <span
+        key={step}
+        className={cn(
+          'flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium transition-colors',
+          phase === step ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground',
+        )}
+        aria-current={phase === step ? 'step' : undefined}
+      >
+        <Icon className={cn('w-3.5 h-3.5', phase === step && 'animate-pulse')} />
+        {label}
+      </span>
+    ))}
+  </div>
+);
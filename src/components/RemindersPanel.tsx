@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { AlarmClock, Bell, BellOff, Timer, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useReminders } from '@/hooks/use-reminders';
+import { requestNotificationPermission } from '@/lib/reminder-notifications';
+import { formatClockTime, reminderTitle, type Reminder, type ReminderKind } from '@/lib/reminders';
+import { cn } from '@/lib/utils';
+
+const KIND_ICONS: Record<ReminderKind, typeof Bell> = {
+  timer: Timer,
+  alarm: AlarmClock,
+  reminder: Bell,
+};
+
+// Reminders that went off this long after they were due were missed while the page was closed
+const MISSED_AFTER_MS = 60 * 1000;
+
+// 4:05 or 1:02:05
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const describeDue = ({ kind, dueAt, firedAt }: Reminder, now: number) => {
+  if (firedAt) {
+    return firedAt - dueAt > MISSED_AFTER_MS ? `Missed, was due at ${formatClockTime(dueAt)}` : 'Now';
+  }
+  return kind === 'timer' ? formatCountdown(dueAt - now) : formatClockTime(dueAt);
+};
+
+// Lists active timers, alarms and reminders. Ones that have gone off ring until they are dismissed here
+// or from their notification.
+export const RemindersPanel = () => {
+  const { reminders, dismissReminder } = useReminders();
+  const [now, setNow] = useState(Date.now);
+  // Read on every render: adding a reminder may have asked for permission since
+  const permission = typeof Notification === 'undefined' ? 'denied' : Notification.permission;
+
+  // Ticks the countdowns while any timer is running
+  const hasTimer = reminders.some((reminder) => reminder.kind === 'timer' && !reminder.firedAt);
+  useEffect(() => {
+    if (!hasTimer) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasTimer]);
+
+  if (!reminders.length) return null;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold">Reminders</h3>
+        {permission === 'default' && (
+          <Button variant="ghost" size="sm" onClick={() => requestNotificationPermission().then(() => setNow(Date.now()))}>
+            <Bell className="w-4 h-4 mr-1" />
+            Enable notifications
+          </Button>
+        )}
+        {permission === 'denied' && (
+          <span className="flex items-center gap-1 text-xs text-muted-foreground">
+            <BellOff className="w-3 h-3" />
+            Notifications are off; keep this tab open
+          </span>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {reminders.map((reminder) => {
+          const Icon = KIND_ICONS[reminder.kind];
+          const ringing = Boolean(reminder.firedAt);
+          return (
+            <li
+              key={reminder.id}
+              className={cn(
+                'flex items-center gap-3 rounded-lg p-2',
+                ringing ? 'bg-accent/20 animate-pulse' : 'bg-muted'
+              )}
+            >
+              <Icon className={cn('w-4 h-4 shrink-0', ringing ? 'text-accent' : 'text-muted-foreground')} />
+              <span className="flex-1 truncate">{reminderTitle(reminder)}</span>
+              <span className="text-sm tabular-nums text-muted-foreground">{describeDue(reminder, now)}</span>
+              {ringing ? (
+                <Button size="sm" onClick={() => dismissReminder(reminder.id)}>
+                  Dismiss
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => dismissReminder(reminder.id)}
+                  aria-label={`Cancel ${reminderTitle(reminder)}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+};
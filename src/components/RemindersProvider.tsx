@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { RemindersContext } from '@/hooks/use-reminders';
+import { useVoiceSettings } from '@/hooks/use-voice-settings';
+import { startAlarm } from '@/lib/alarm-sound';
+import {
+  onReminderNotificationClick,
+  registerReminderWorker,
+  requestNotificationPermission,
+  scheduleReminderNotifications,
+  showReminderNotification,
+} from '@/lib/reminder-notifications';
+import { loadReminders, saveReminders, type Reminder, type ReminderDraft } from '@/lib/reminders';
+
+// Background tabs run this at most once a minute; the service worker covers reminders due in between
+const CHECK_INTERVAL_MS = 1000;
+
+interface RemindersProviderProps {
+  children: ReactNode;
+}
+
+const bySoonest = (a: Reminder, b: Reminder) => a.dueAt - b.dueAt;
+
+export const RemindersProvider = ({ children }: RemindersProviderProps) => {
+  const { settings } = useVoiceSettings();
+  const [reminders, setReminders] = useState(() => loadReminders().sort(bySoonest));
+  const remindersRef = useRef(reminders);
+
+  const volumeRef = useRef(settings.volume);
+  useEffect(() => {
+    volumeRef.current = settings.volume;
+  }, [settings.volume]);
+
+  // Reminders survive reloads, so every change goes straight to storage
+  const updateReminders = useCallback((change: (current: Reminder[]) => Reminder[]) => {
+    const next = change(remindersRef.current).sort(bySoonest);
+    remindersRef.current = next;
+    setReminders(next);
+    saveReminders(next);
+  }, []);
+
+  const addReminder = useCallback((draft: ReminderDraft) => {
+    const reminder: Reminder = { ...draft, id: crypto.randomUUID(), createdAt: Date.now() };
+    updateReminders((current) => [...current, reminder]);
+    // Only asks the first time; without permission reminders still ring while the page is open
+    requestNotificationPermission().then(() => scheduleReminderNotifications(remindersRef.current)).catch(() => {});
+    return reminder;
+  }, [updateReminders]);
+
+  const dismissReminder = useCallback((id: string) => {
+    updateReminders((current) => current.filter((reminder) => reminder.id !== id));
+  }, [updateReminders]);
+
+  useEffect(() => {
+    registerReminderWorker();
+    return onReminderNotificationClick(dismissReminder);
+  }, [dismissReminder]);
+
+  // Sets off everything that has come due, including reminders that fell due while the page was closed
+  useEffect(() => {
+    const fireDue = () => {
+      const now = Date.now();
+      const due = remindersRef.current.filter((reminder) => !reminder.firedAt && reminder.dueAt <= now);
+      if (!due.length) return;
+
+      const dueIds = new Set(due.map((reminder) => reminder.id));
+      updateReminders((current) =>
+        current.map((reminder) => (dueIds.has(reminder.id) ? { ...reminder, firedAt: now } : reminder))
+      );
+      for (const reminder of due) {
+        showReminderNotification(reminder).catch((error) => console.error('Could not show reminder:', error));
+      }
+    };
+
+    fireDue();
+    const interval = setInterval(fireDue, CHECK_INTERVAL_MS);
+    // Throttled timers catch up the moment the tab is looked at again
+    document.addEventListener('visibilitychange', fireDue);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', fireDue);
+    };
+  }, [updateReminders]);
+
+  useEffect(() => {
+    scheduleReminderNotifications(reminders).catch((error) => console.error('Could not schedule reminders:', error));
+  }, [reminders]);
+
+  // Reminders that have rung, so dismissing one of several or reloading the page doesn't set the alarm off again.
+  // Those that had already gone off when the page opened rang on an earlier visit.
+  const [soundedIds] = useState(
+    () => new Set(reminders.filter((reminder) => reminder.firedAt).map((reminder) => reminder.id))
+  );
+  const stopAlarmRef = useRef<(() => void) | null>(null);
+
+  // Each reminder that goes off starts the alarm again; it stops when the last one is dismissed
+  const ringingIds = reminders.filter((reminder) => reminder.firedAt).map((reminder) => reminder.id).join(' ');
+  useEffect(() => {
+    const ringing = ringingIds ? ringingIds.split(' ') : [];
+    const fresh = ringing.filter((id) => !soundedIds.has(id));
+    fresh.forEach((id) => soundedIds.add(id));
+
+    if (fresh.length || !ringing.length) {
+      stopAlarmRef.current?.();
+      stopAlarmRef.current = fresh.length ? startAlarm(volumeRef.current) : null;
+    }
+  }, [ringingIds, soundedIds]);
+
+  useEffect(() => () => stopAlarmRef.current?.(), []);
+
+  const value = useMemo(
+    () => ({ reminders, addReminder, dismissReminder }),
+    [reminders, addReminder, dismissReminder]
+  );
+
+  return <RemindersContext.Provider value={value}>{children}</RemindersContext.Provider>;
+};
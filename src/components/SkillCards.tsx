@@ -0,0 +1,21 @@
+import { useSkills } from '@/hooks/use-skills';
+import { findSkillFor } from '@/lib/skills';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+interface SkillCardsProps {
+  invocations: ToolInvocation[];
+}
+
+// What skills contributed to a reply, each shown the skill's own way
+export const SkillCards = ({ invocations }: SkillCardsProps) => {
+  const { skills } = useSkills();
+
+  return (
+    <>
+      {invocations.map((invocation) => {
+        const Card = invocation.status === 'ok' ? findSkillFor(skills, invocation.name)?.Card : undefined;
+        return Card ? <Card key={invocation.id} invocation={invocation} /> : null;
+      })}
+    </>
+  );
+};
@@ -0,0 +1,31 @@
+import { useCallback, useMemo, useRef, useState, type ReactNode } from 'react';
+import { SkillsContext, type SkillsContextValue } from '@/hooks/use-skills';
+import { loadSkillStates, saveSkillStates } from '@/lib/skill-settings';
+import { installedSkills } from '@/lib/skills';
+
+interface SkillsProviderProps {
+  children: ReactNode;
+}
+
+export const SkillsProvider = ({ children }: SkillsProviderProps) => {
+  const [states, setStates] = useState(() => loadSkillStates(installedSkills.map((skill) => skill.manifest)));
+  const statesRef = useRef(states);
+
+  // Settings change a field at a time, so they are merged into the skill's current ones
+  const updateSkill = useCallback<SkillsContextValue['updateSkill']>((name, { settings, ...changes }) => {
+    const current = statesRef.current[name];
+    if (!current) return;
+
+    const next = {
+      ...statesRef.current,
+      [name]: { ...current, ...changes, settings: { ...current.settings, ...settings } },
+    };
+    statesRef.current = next;
+    setStates(next);
+    saveSkillStates(next);
+  }, []);
+
+  const value = useMemo(() => ({ skills: installedSkills, states, updateSkill }), [states, updateSkill]);
+
+  return <SkillsContext.Provider value={value}>{children}</SkillsContext.Provider>;
+};
@@ -0,0 +1,106 @@
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useSkills } from '@/hooks/use-skills';
+import type { SkillSetting, SkillSettingValue } from '@shared/skills';
+
+interface SkillSettingFieldProps {
+  id: string;
+  setting: SkillSetting;
+  value: SkillSettingValue;
+  onChange: (value: SkillSettingValue) => void;
+}
+
+const SkillSettingField = ({ id, setting, value, onChange }: SkillSettingFieldProps) => {
+  const description = setting.description && <p className="text-sm text-muted-foreground">{setting.description}</p>;
+
+  if (setting.type === 'boolean') {
+    return (
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor={id}>{setting.label}</Label>
+          {description}
+        </div>
+        <Switch id={id} checked={value === true} onCheckedChange={onChange} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{setting.label}</Label>
+      {setting.type === 'select' ? (
+        <Select value={String(value)} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {setting.options!.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          type={setting.type === 'number' ? 'number' : 'text'}
+          value={String(value)}
+          onChange={(event) => {
+            if (setting.type === 'text') {
+              onChange(event.target.value);
+            } else if (!Number.isNaN(event.target.valueAsNumber)) {
+              onChange(event.target.valueAsNumber);
+            }
+          }}
+        />
+      )}
+      {description}
+    </div>
+  );
+};
+
+// Turns installed skills on and off, and shows the settings of those that are on
+export const SkillsSettings = () => {
+  const { skills, states, updateSkill } = useSkills();
+  if (!skills.length) return null;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <h2 className="font-semibold text-lg">Skills</h2>
+
+      {skills.map(({ manifest: { name, title, description, settings } }) => {
+        const state = states[name];
+        return (
+          <div key={name} className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`skill-${name}`}>{title}</Label>
+                <p className="text-sm text-muted-foreground">{description}</p>
+              </div>
+              <Switch
+                id={`skill-${name}`}
+                checked={state.enabled}
+                onCheckedChange={(enabled) => updateSkill(name, { enabled })}
+              />
+            </div>
+            {state.enabled && settings.length > 0 && (
+              <div className="space-y-4 border-l-2 border-muted pl-4">
+                {settings.map((setting) => (
+                  <SkillSettingField
+                    key={setting.key}
+                    id={`skill-${name}-${setting.key}`}
+                    setting={setting}
+                    value={state.settings[setting.key]}
+                    onChange={(value) => updateSkill(name, { settings: { [setting.key]: value } })}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </Card>
+  );
+};
@@ -0,0 +1,32 @@
+import { Wrench } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+interface ToolInvocationListProps {
+  invocations: ToolInvocation[];
+}
+
+const describe = ({ arguments: args, status, result, error, durationMs }: ToolInvocation) =>
+  [
+    `Arguments: ${JSON.stringify(args)}`,
+    status === 'ok' ? `Result: ${JSON.stringify(result)}` : `Failed: ${error}`,
+    `Took ${durationMs}ms`,
+  ].join('\n');
+
+// The tools the assistant called for a reply; hover one to see what it was asked and what it returned
+export const ToolInvocationList = ({ invocations }: ToolInvocationListProps) => (
+  <div className="flex flex-wrap items-center gap-2 mb-3" aria-label="Tools used">
+    {invocations.map((invocation) => (
+      <Badge
+        key={invocation.id}
+        variant={invocation.status === 'ok' ? 'outline' : 'destructive'}
+        className="font-mono font-normal"
+        title={describe(invocation)}
+      >
+        <Wrench className="w-3 h-3 mr-1" />
+        {invocation.name}
+        {invocation.status === 'timeout' && ' (timed out)'}
+      </Badge>
+    ))}
+  </div>
+);
@@ -1,139 +1,235 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Mic, MicOff, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { getConversationPhase, useHandsFree } from '@/hooks/use-hands-free';
+import { useReadingPosition } from '@/hooks/use-reading-position';
+import { useRecordedSpeechRecognition } from '@/hooks/use-recorded-speech-recognition';
+import { useSpeechRecognition } from '@/hooks/use-speech-recognition';
+import { useSpeechOutput } from '@/hooks/use-speech-output';
+import { useVoiceSettings } from '@/hooks/use-voice-settings';
+import { isLikelyEcho } from '@/lib/barge-in';
+import { toSpeechScript } from '@/lib/speech-script';
+import { SILENCE_TIMEOUT_OPTIONS } from '@/lib/voice-settings';
+import { LANGUAGES, languageFromTag } from '@shared/languages';
 import { WaveformVisualizer } from './WaveformVisualizer';
-import { supabase } from '@/integrations/supabase/client';
+import { useConversation } from '@/hooks/use-conversation';
+import { ChatErrorNotice } from './ChatErrorNotice';
+import { ChatComposer } from './ChatComposer';
+import { MarkdownMessage } from './MarkdownMessage';
+import { PhaseIndicator } from './PhaseIndicator';
+import { RemindersPanel } from './RemindersPanel';
+import { SkillCards } from './SkillCards';
+import { ToolInvocationList } from './ToolInvocationList';
 
 interface VoiceAssistantProps {
   className?: string;
 }
 
+// Recognizer errors that won't go away by retrying, so hands-free mode must stop
+const FATAL_RECOGNITION_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+
 export const VoiceAssistant = ({ className }: VoiceAssistantProps) => {
-  const [isListening, setIsListening] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [transcript, setTranscript] = useState('');
-  const [response, setResponse] = useState('');
-  const [isSupported, setIsSupported] = useState(false);
-  const [conversationHistory, setConversationHistory] = useState<Array<{role: string, content: string}>>([]);
-  const [needsApiKey, setNeedsApiKey] = useState(false);
-  
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
-  const synthRef = useRef<SpeechSynthesis | null>(null);
+  const [handsFree, setHandsFree] = useState(false);
+  const { settings, updateSettings } = useVoiceSettings();
+  const { silenceTimeoutSeconds } = settings;
   const { toast } = useToast();
 
+  const { isSpeaking, speak, cancel: cancelSpeech } = useSpeechOutput(settings);
+  const { position: readingPosition, speak: speakReply } = useReadingPosition(speak);
+  const { messages, isProcessing, error: chatError, send, interrupt } = useConversation({
+    speak: settings.autoSpeak ? speakReply : undefined,
+    language: settings.language,
+    shareLocation: settings.shareLocation,
+    // Spoken commands handled without asking the model
+    intentActions: {
+      volume: settings.volume,
+      setVolume: (volume) => updateSettings({ volume }),
+      stopSpeaking: cancelSpeech,
+      repeatLastReply: () => replayFrom(0),
+    },
+  });
+  const latestAssistantMessage = [...messages].reverse().find((message) => message.role === 'assistant');
+  const latestUserMessage = [...messages].reverse().find((message) => message.role === 'user');
+  const response = latestAssistantMessage?.content ?? '';
+  const responseScript = useMemo(() => toSpeechScript(response), [response]);
+  // What the speakers are actually saying: replies are markdown, but only their speech script is read out
+  const spokenReply = useMemo(() => responseScript.map((sentence) => sentence.text).join(' '), [responseScript]);
+
+  // The Web Speech recognizer can't detect languages itself, so in auto mode it follows the language
+  // the conversation was last answered in
+  const conversationLanguage = settings.language === 'auto' ? latestAssistantMessage?.language : settings.language;
+  const recognitionLang =
+    conversationLanguage && languageFromTag(settings.recognitionLang) !== conversationLanguage
+      ? LANGUAGES[conversationLanguage].speechTag
+      : settings.recognitionLang;
+
+  // Switching to another conversation (or starting a new one) silences the previous reply
+  const conversationStart = messages[0]?.id;
   useEffect(() => {
-    // Check for browser support
-    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-    const speechSynthesis = window.speechSynthesis;
-    
-    if (SpeechRecognition && speechSynthesis) {
-      setIsSupported(true);
-      recognitionRef.current = new SpeechRecognition();
-      synthRef.current = speechSynthesis;
-      
-      // Configure speech recognition
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = 'en-US';
-      
-      recognitionRef.current.onresult = (event) => {
-        const current = event.resultIndex;
-        const transcript = event.results[current][0].transcript;
-        setTranscript(transcript);
-        
-        if (event.results[current].isFinal) {
-          setIsListening(false);
-          processCommand(transcript);
-        }
-      };
-      
-      recognitionRef.current.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        setIsListening(false);
-        toast({
-          title: "Voice Error",
-          description: "There was an issue with voice recognition. Please try again.",
-          variant: "destructive"
-        });
-      };
-      
-      recognitionRef.current.onend = () => {
-        setIsListening(false);
-      };
-    } else {
-      toast({
-        title: "Browser Not Supported",
-        description: "Your browser doesn't support voice recognition. Please use Chrome, Safari, or Edge.",
-        variant: "destructive"
-      });
+    cancelSpeech();
+  }, [conversationStart, cancelSpeech]);
+
+  // A new question replaces whatever is still being said; `send` silences it once it knows the message isn't a
+  // command like "louder" that should leave the reply playing
+  const processCommand = useCallback((command: string) => {
+    send(command);
+  }, [send]);
+
+  // Whether the utterance being recognized started while the assistant was talking
+  const heardOverReplyRef = useRef(false);
+
+  const handleSpeech = (heard: string) => {
+    markActivity();
+
+    if (phase === 'speaking') {
+      heardOverReplyRef.current = true;
+      if (!isLikelyEcho(heard, spokenReply)) {
+        bargeIn();
+      }
+    }
+  };
+
+  const handleFinalResult = (heard: string) => {
+    const heardOverReply = heardOverReplyRef.current;
+    heardOverReplyRef.current = false;
+
+    // The mic picked up the assistant's own voice rather than the user
+    if (heardOverReply && isLikelyEcho(heard, spokenReply)) return;
+
+    processCommand(heard);
+  };
+
+  const handleRecognitionError = (error: string) => {
+    // Silence and our own stop() calls are routine, particularly in hands-free mode
+    if (error === 'no-speech' || error === 'aborted') return;
+
+    console.error('Speech recognition error:', error);
+    if (FATAL_RECOGNITION_ERRORS.includes(error)) {
+      setHandsFree(false);
     }
+    toast({
+      title: "Voice Error",
+      description: "There was an issue with voice recognition. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const browserRecognition = useSpeechRecognition({
+    lang: recognitionLang,
+    onFinalResult: handleFinalResult,
+    onSpeech: handleSpeech,
+    onError: handleRecognitionError,
+  });
+  const serverRecognition = useRecordedSpeechRecognition({
+    language: conversationLanguage,
+    onFinalResult: handleFinalResult,
+    onError: handleRecognitionError,
+  });
+  // Server transcription when asked for, or when the browser has no recognizer of its own
+  const usesServerTranscription =
+    serverRecognition.isSupported && (settings.transcription === 'server' || !browserRecognition.isSupported);
+  const {
+    isSupported,
+    isListening,
+    transcript,
+    start: startListening,
+    stop: stopListening,
+  } = usesServerTranscription ? serverRecognition : browserRecognition;
+
+  const phase = getConversationPhase({
+    isListening,
+    isProcessing: isProcessing || (usesServerTranscription && serverRecognition.isTranscribing),
+    isSpeaking,
+  });
+
+  const endHandsFreeSession = useCallback(() => {
+    setHandsFree(false);
+    toast({
+      title: "Conversation Ended",
+      description: "Hands-free mode turned off after a stretch of silence."
+    });
   }, [toast]);
 
-  const processCommand = async (command: string) => {
-    setIsProcessing(true);
-    
-    try {
-      // Call Supabase Edge Function for AI processing
-      const { data, error } = await supabase.functions.invoke('chat', {
-        body: { 
-          message: command,
-          conversationHistory: conversationHistory 
-        }
-      });
+  const { markActivity } = useHandsFree({
+    enabled: handsFree,
+    phase,
+    isListening,
+    silenceTimeoutMs: silenceTimeoutSeconds * 1000,
+    startListening,
+    stopListening,
+    onSessionEnd: endHandsFreeSession,
+  });
 
-      if (error) {
-        throw error;
-      }
+  // Barge-in: cut the assistant off and hand the floor back to the user
+  const bargeIn = useCallback(() => {
+    interrupt(cancelSpeech());
+    if (isSupported && !isListening) {
+      startListening();
+    }
+  }, [cancelSpeech, interrupt, isSupported, isListening, startListening]);
 
-      if (!data.success && data.error?.includes('API key')) {
-        setNeedsApiKey(true);
-        throw new Error('OpenAI API key not configured');
-      }
+  // Waiting on a transcript also shows as thinking, but there is no reply to interrupt yet
+  const assistantHasFloor = phase === 'speaking' || (phase === 'thinking' && isProcessing);
 
-      const responseText = data.response;
-      setResponse(responseText);
-
-      // Update conversation history
-      setConversationHistory(prev => [
-        ...prev,
-        { role: 'user', content: command },
-        { role: 'assistant', content: responseText }
-      ]);
-      
-      // Speak the response
-      if (synthRef.current) {
-        const utterance = new SpeechSynthesisUtterance(responseText);
-        utterance.rate = 0.9;
-        utterance.pitch = 1;
-        utterance.volume = 0.8;
-        synthRef.current.speak(utterance);
-      }
-      
-    } catch (error) {
-      console.error('Error processing command:', error);
-      let errorResponse = "I'm sorry, I encountered an error processing your request.";
-      
-      if (error.message?.includes('API key')) {
-        errorResponse = "I need an OpenAI API key to provide intelligent responses. Please configure your API key to continue.";
-        setNeedsApiKey(true);
-      }
-      
-      setResponse(errorResponse);
-      
-      if (synthRef.current) {
-        const utterance = new SpeechSynthesisUtterance(errorResponse);
-        synthRef.current.speak(utterance);
+  useEffect(() => {
+    if (!assistantHasFloor) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        bargeIn();
       }
-    } finally {
-      setIsProcessing(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [assistantHasFloor, bargeIn]);
+
+  const responseInterrupted = latestAssistantMessage?.status === 'interrupted';
+  const readingSentence =
+    readingPosition && readingPosition.messageId === latestAssistantMessage?.id
+      ? responseScript.findIndex((sentence) => sentence.source?.start === readingPosition.sentence.start)
+      : -1;
+
+  // Reads the reply again from a clicked sentence (or, for "repeat that", from the start), whether or not replies
+  // are read out automatically. False when there is no reply yet.
+  const replayFrom = (index: number) => {
+    if (!latestAssistantMessage) return false;
+    if (isProcessing) {
+      interrupt();
     }
+    cancelSpeech();
+
+    const { id: messageId, language } = latestAssistantMessage;
+    responseScript.slice(index).forEach(({ text, source }) =>
+      speakReply(text, language, source ? { messageId, source, markdown: response.slice(source.start, source.end) } : undefined)
+    );
+    return true;
   };
+  // Show the live recognizer text while speaking, otherwise the question being answered
+  const displayedTranscript = transcript || latestUserMessage?.content || '';
 
+  useEffect(() => {
+    const canRecord = typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+    if (!window.SpeechRecognition && !window.webkitSpeechRecognition && !canRecord) {
+      toast({
+        title: "Voice Input Unavailable",
+        description: "Your browser doesn't support voice recognition. You can still type your questions below."
+      });
+    }
+  }, [toast]);
 
   const toggleListening = () => {
-    if (!isSupported || !recognitionRef.current) {
+    if (assistantHasFloor) {
+      bargeIn();
+      return;
+    }
+
+    if (!isSupported) {
       toast({
         title: "Not Supported",
         description: "Voice recognition is not available in your browser.",
@@ -143,29 +239,14 @@ export const VoiceAssistant = ({ className }: VoiceAssistantProps) => {
     }
 
     if (isListening) {
-      recognitionRef.current.stop();
-      setIsListening(false);
+      stopListening();
+      // Stopping the mic by hand also ends a hands-free session
+      setHandsFree(false);
     } else {
-      setTranscript('');
-      setResponse('');
-      recognitionRef.current.start();
-      setIsListening(true);
+      startListening();
     }
   };
 
-  if (!isSupported) {
-    return (
-      <div className={`flex items-center justify-center min-h-screen ${className}`}>
-        <Card className="p-8 text-center max-w-md">
-          <h2 className="text-2xl font-bold mb-4">Browser Not Supported</h2>
-          <p className="text-muted-foreground">
-            Your browser doesn't support voice recognition. Please use Chrome, Safari, or Edge for the best experience.
-          </p>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className={`flex flex-col items-center justify-center min-h-screen space-y-8 p-6 ${className}`}>
       {/* Header */}
@@ -179,28 +260,58 @@ export const VoiceAssistant = ({ className }: VoiceAssistantProps) => {
       </div>
 
       {/* Main Voice Interface */}
-      <div className="flex flex-col items-center space-y-8">
+      <div className="flex flex-col items-center space-y-8 w-full">
         {/* Waveform Visualizer */}
-        <WaveformVisualizer isActive={isListening} isProcessing={isProcessing} />
+        <WaveformVisualizer isActive={isListening} isProcessing={isProcessing} isSpeaking={isSpeaking} />
         
         {/* Voice Button */}
         <Button
           onClick={toggleListening}
-          disabled={isProcessing}
+          disabled={!isSupported && !assistantHasFloor}
+          aria-label={assistantHasFloor ? 'Interrupt and speak' : isListening ? 'Stop listening' : 'Start listening'}
           className={`voice-button w-20 h-20 rounded-full p-0 border-0 ${
             isListening ? 'active' : ''
           }`}
           size="lg"
         >
-          {isProcessing ? (
+          {phase === 'thinking' ? (
             <Loader2 className="w-8 h-8 animate-spin text-white" />
-          ) : isListening ? (
+          ) : isListening && !isSpeaking ? (
             <MicOff className="w-8 h-8 text-white" />
           ) : (
             <Mic className="w-8 h-8 text-white" />
           )}
         </Button>
 
+        {/* Hands-free Conversation Mode */}
+        {isSupported && (
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="hands-free" checked={handsFree} onCheckedChange={setHandsFree} />
+              <Label htmlFor="hands-free">Hands-free conversation</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="silence-timeout" className="text-muted-foreground">End after</Label>
+              <Select
+                value={String(silenceTimeoutSeconds)}
+                onValueChange={(value) => updateSettings({ silenceTimeoutSeconds: Number(value) })}
+              >
+                <SelectTrigger id="silence-timeout" className="w-24 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SILENCE_TIMEOUT_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>{seconds}s</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm text-muted-foreground">of silence</span>
+            </div>
+          </div>
+        )}
+
+        {handsFree && <PhaseIndicator phase={phase} />}
+
         {/* Status Text */}
         <div className="text-center space-y-2">
           {isListening && (
@@ -208,57 +319,87 @@ export const VoiceAssistant = ({ className }: VoiceAssistantProps) => {
               Listening... Speak now
             </p>
           )}
+          {usesServerTranscription && serverRecognition.isTranscribing && (
+            <p className="text-accent font-medium">
+              Transcribing...
+            </p>
+          )}
           {isProcessing && (
             <p className="text-accent font-medium">
               Processing your request...
             </p>
           )}
+          {assistantHasFloor && (
+            <p className="text-xs text-muted-foreground">
+              Press Esc or the microphone{handsFree && isSupported ? ', or just start talking,' : ''} to interrupt
+            </p>
+          )}
           {!isListening && !isProcessing && (
             <p className="text-muted-foreground">
-              Click the microphone to start
+              {isSupported
+                ? 'Click the microphone to start, or type below'
+                : "Voice input isn't available in this browser. Type your question below."}
             </p>
           )}
         </div>
+
+        {/* Text Input */}
+        <div className="w-full max-w-2xl">
+          <ChatComposer
+            onSubmit={processCommand}
+            disabled={isProcessing}
+            placeholder={isSupported ? "Or type a message…" : "Type a message…"}
+          />
+        </div>
+
+        <div className="w-full max-w-2xl">
+          <RemindersPanel />
+        </div>
       </div>
 
       {/* Transcript and Response */}
-      {(transcript || response) && (
+      {(displayedTranscript || response) && (
         <div className="w-full max-w-2xl space-y-4">
-          {transcript && (
+          {displayedTranscript && (
             <Card className="p-4">
               <h3 className="font-semibold text-primary mb-2">You said:</h3>
-              <p className="text-foreground">{transcript}</p>
+              <p className="text-foreground">{displayedTranscript}</p>
             </Card>
           )}
           
           {response && (
             <Card className="p-4">
-              <h3 className="font-semibold text-accent mb-2">Assistant:</h3>
-              <p className="text-foreground">{response}</p>
+              <h3 className="font-semibold text-accent mb-2">
+                Assistant:
+                {settings.language === 'auto' && latestAssistantMessage?.language && (
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    {LANGUAGES[latestAssistantMessage.language].nativeName}
+                  </span>
+                )}
+              </h3>
+              {latestAssistantMessage?.tools && <ToolInvocationList invocations={latestAssistantMessage.tools} />}
+              <MarkdownMessage
+                content={response}
+                reading={{
+                  sentences: responseScript.map((sentence) => sentence.source),
+                  activeSentence: readingSentence === -1 ? null : readingSentence,
+                  activeWord: readingSentence === -1 ? null : readingPosition?.word ?? null,
+                }}
+                onSentenceClick={replayFrom}
+              />
+              {latestAssistantMessage?.tools && <SkillCards invocations={latestAssistantMessage.tools} />}
+              {responseInterrupted && (
+                <p className="mt-2 text-xs text-muted-foreground italic">(interrupted)</p>
+              )}
             </Card>
           )}
         </div>
       )}
 
-      {/* API Key Setup Notice */}
-      {needsApiKey && (
+      {/* Error Recovery Guidance */}
+      {chatError && (
         <div className="w-full max-w-2xl">
-          <Card className="p-6 border-destructive bg-destructive/5">
-            <h3 className="font-semibold text-destructive mb-4">🔑 OpenAI API Key Required</h3>
-            <p className="text-muted-foreground mb-4">
-              To enable advanced AI conversations like Nova AI, you need to configure your OpenAI API key in Supabase Edge Function Secrets.
-            </p>
-            <div className="text-sm space-y-2">
-              <p><strong>Steps:</strong></p>
-              <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
-                <li>Go to your Supabase project dashboard</li>
-                <li>Navigate to Edge Functions → Secrets</li>
-                <li>Add secret: <code className="bg-muted px-1 rounded">OPENAI_API_KEY</code></li>
-                <li>Get your key from <a href="https://platform.openai.com/api-keys" target="_blank" className="text-primary underline">OpenAI API Keys</a></li>
-                <li>Refresh this page after adding the key</li>
-              </ol>
-            </div>
-          </Card>
+          <ChatErrorNotice error={chatError} />
         </div>
       )}
 
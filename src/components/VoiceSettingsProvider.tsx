@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { VoiceSettingsContext } from '@/hooks/use-voice-settings';
+import {
+  fetchProfileVoiceSettings,
+  loadLocalVoiceSettings,
+  saveLocalVoiceSettings,
+  saveProfileVoiceSettings,
+  type VoiceSettings,
+} from '@/lib/voice-settings';
+
+const PROFILE_SAVE_DELAY_MS = 800;
+
+interface VoiceSettingsProviderProps {
+  children: ReactNode;
+}
+
+export const VoiceSettingsProvider = ({ children }: VoiceSettingsProviderProps) => {
+  const [settings, setSettings] = useState(loadLocalVoiceSettings);
+  const settingsRef = useRef(settings);
+  // Once the user changes something here, a slower profile load must not overwrite it
+  const changedRef = useRef(false);
+  const profileSaveTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  // Local storage answers instantly; the profile copy wins once loaded, so settings follow the user across devices
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const profileSettings = await fetchProfileVoiceSettings();
+        if (!cancelled && profileSettings && !changedRef.current) {
+          settingsRef.current = profileSettings;
+          setSettings(profileSettings);
+          saveLocalVoiceSettings(profileSettings);
+        }
+      } catch (restoreError) {
+        console.error('Error loading voice settings:', restoreError);
+      }
+    };
+
+    restore();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = useCallback((changes: Partial<VoiceSettings>) => {
+    const next = { ...settingsRef.current, ...changes };
+    changedRef.current = true;
+    settingsRef.current = next;
+    setSettings(next);
+
+    saveLocalVoiceSettings(next);
+    // Sliders change on every step, so only the value the user settles on goes to the profile
+    clearTimeout(profileSaveTimerRef.current);
+    profileSaveTimerRef.current = setTimeout(() => {
+      saveProfileVoiceSettings(next).catch((saveError) => {
+        console.error('Error saving voice settings to profile:', saveError);
+      });
+    }, PROFILE_SAVE_DELAY_MS);
+  }, []);
+
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  return <VoiceSettingsContext.Provider value={value}>{children}</VoiceSettingsContext.Provider>;
+};
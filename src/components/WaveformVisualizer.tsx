@@ -1,45 +1,57 @@
 import { useEffect, useState } from 'react';
+import { useMicrophoneLevels } from '@/hooks/use-microphone-levels';
 
 interface WaveformVisualizerProps {
   isActive: boolean;
   isProcessing: boolean;
+  // The assistant is talking. Synthesized speech can't be routed through Web Audio, so this is drawn
+  // as a steady wave in the accent colour rather than as measured levels.
+  isSpeaking?: boolean;
 }
 
-export const WaveformVisualizer = ({ isActive, isProcessing }: WaveformVisualizerProps) => {
-  const [bars, setBars] = useState<number[]>([]);
+const BAR_COUNT = 12;
+const MIN_HEIGHT = 20;
+
+export const WaveformVisualizer = ({ isActive, isProcessing, isSpeaking = false }: WaveformVisualizerProps) => {
+  const { levels, isAvailable } = useMicrophoneLevels({ enabled: isActive && !isSpeaking, bands: BAR_COUNT });
+  const [speechPhase, setSpeechPhase] = useState(0);
 
   useEffect(() => {
-    // Generate random heights for waveform bars
-    const generateBars = () => {
-      const newBars = Array.from({ length: 12 }, () => 
-        isActive ? Math.random() * 100 + 20 : 20
-      );
-      setBars(newBars);
+    if (!isSpeaking) return;
+
+    let frame = 0;
+    const tick = (time: number) => {
+      setSpeechPhase(time / 180);
+      frame = requestAnimationFrame(tick);
     };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isSpeaking]);
 
-    if (isActive) {
-      const interval = setInterval(generateBars, 150);
-      return () => clearInterval(interval);
-    } else {
-      setBars(Array(12).fill(20));
-    }
-  }, [isActive]);
+  const bars = isSpeaking
+    ? Array.from({ length: BAR_COUNT }, (_, index) => MIN_HEIGHT + 40 * (1 + Math.sin(speechPhase + index * 0.6)) / 2)
+    : levels.map((level) => MIN_HEIGHT + level * 80);
 
   return (
-    <div className="flex items-center justify-center space-x-1 h-24">
-      {bars.map((height, index) => (
-        <div
-          key={index}
-          className={`waveform-bar w-2 rounded-full transition-all duration-150 ${
-            isProcessing ? 'opacity-50' : 'opacity-100'
-          }`}
-          style={{
-            height: `${height}%`,
-            animationDelay: `${index * 0.1}s`,
-            animationDuration: isActive ? '0.8s' : '1s'
-          }}
-        />
-      ))}
+    <div className="flex flex-col items-center">
+      <div
+        className="flex items-center justify-center space-x-1 h-24"
+        role="img"
+        aria-label={isSpeaking ? 'Assistant speaking' : isActive ? 'Microphone level' : 'Microphone idle'}
+      >
+        {bars.map((height, index) => (
+          <div
+            key={index}
+            className={`w-2 rounded-full transition-[height] duration-75 ${
+              isSpeaking ? 'waveform-bar-speaking' : 'waveform-bar'
+            } ${isProcessing ? 'opacity-50' : 'opacity-100'}`}
+            style={{ height: `${height}%` }}
+          />
+        ))}
+      </div>
+      {isActive && !isSpeaking && !isAvailable && (
+        <p className="text-xs text-muted-foreground">Microphone level unavailable</p>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
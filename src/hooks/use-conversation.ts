@@ -0,0 +1,217 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import { RemindersContext } from '@/hooks/use-reminders';
+import { SkillsContext } from '@/hooks/use-skills';
+import { supabase } from '@/integrations/supabase/client';
+import { askChat, startTurn } from '@/lib/chat-turn';
+import { getClientContext } from '@/lib/client-context';
+import type { ConversationStore } from '@/lib/conversation-store';
+import { fetchConversation } from '@/lib/conversations';
+import { loadCustomCommands } from '@/lib/custom-commands';
+import { builtInIntents, createIntentRouter, customCommandIntent, type IntentActions } from '@/lib/intents';
+import type { SpokenOrigin } from '@/lib/reading-position';
+import { enabledSkillIntents, enabledSkillSettings } from '@/lib/skills';
+import { detectLanguage, type LanguageCode } from '@shared/languages';
+
+// Provided by <ConversationProvider>, so the voice UI and the history sidebar share one conversation
+export const ConversationContext = createContext<ConversationStore | null>(null);
+
+export const useConversationStore = () => {
+  const store = useContext(ConversationContext);
+  if (!store) {
+    throw new Error('useConversation must be used within a ConversationProvider.');
+  }
+  return store;
+};
+
+interface UseConversationOptions {
+  // Receives each completed sentence of the reply's speech script (and the fallback line on errors) for speech
+  // output. Script sentences come with the part of the reply they were read from.
+  speak?: (text: string, language?: LanguageCode, origin?: SpokenOrigin) => void;
+  // Language to ask for replies in; 'auto' follows the language of each question
+  language?: LanguageCode | 'auto';
+  // Include the user's approximate location in the context sent with each question
+  shareLocation?: boolean;
+  // What spoken commands like "louder" and "repeat that" act on. Reminders, interrupting and clearing the
+  // conversation are handled here. `stopSpeaking` also silences the last reply when a new question is asked.
+  intentActions?: Pick<IntentActions, 'volume' | 'setVolume' | 'stopSpeaking' | 'repeatLastReply'>;
+}
+
+// Single entry point for talking to the `chat` function. Every caller — recognizer, text input, future
+// shortcuts — goes through `send`, which always reads the latest history from the store, so follow-up
+// questions carry their context no matter when the calling callback was created.
+export const useConversation = ({
+  speak,
+  language,
+  shareLocation = false,
+  intentActions,
+}: UseConversationOptions = {}) => {
+  const store = useConversationStore();
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const reminders = useContext(RemindersContext);
+
+  const remindersRef = useRef(reminders);
+  useEffect(() => {
+    remindersRef.current = reminders;
+  }, [reminders]);
+
+  const skills = useContext(SkillsContext);
+  const skillsRef = useRef(skills);
+  useEffect(() => {
+    skillsRef.current = skills;
+  }, [skills]);
+
+  const intentActionsRef = useRef(intentActions);
+  useEffect(() => {
+    intentActionsRef.current = intentActions;
+  }, [intentActions]);
+
+  const speakRef = useRef(speak);
+  useEffect(() => {
+    speakRef.current = speak;
+  }, [speak]);
+
+  const languageRef = useRef(language);
+  useEffect(() => {
+    languageRef.current = language;
+  }, [language]);
+
+  const shareLocationRef = useRef(shareLocation);
+  useEffect(() => {
+    shareLocationRef.current = shareLocation;
+  }, [shareLocation]);
+
+  // The turn currently waiting on the `chat` function, so it can be interrupted
+  const activeTurnRef = useRef<{ assistantMessageId: string; controller: AbortController } | null>(null);
+
+  // Barge-in: stop the reply in flight (keeping what has arrived so far), or, when `speechCutOff` says its
+  // speech was cut short, mark the reply that was still being read out, as interrupted
+  const interrupt = useCallback((speechCutOff = false) => {
+    const activeTurn = activeTurnRef.current;
+    activeTurnRef.current = null;
+    activeTurn?.controller.abort();
+
+    const assistantMessageId =
+      activeTurn?.assistantMessageId ??
+      (speechCutOff
+        ? [...store.getState().messages].reverse().find((entry) => entry.role === 'assistant')?.id
+        : undefined);
+    if (assistantMessageId) {
+      store.dispatch({ type: 'ASSISTANT_INTERRUPTED', id: assistantMessageId });
+    }
+  }, [store]);
+
+  const send = useCallback(async (text: string) => {
+    const message = text.trim();
+    if (!message) return;
+
+    const { messages } = store.getState();
+    // Resolved here rather than by the server, so sentences can be spoken with a matching voice as they stream in.
+    // Short questions like "OK" don't give much away, so auto mode then stays with the conversation's language.
+    const replyLanguage =
+      languageRef.current === 'auto'
+        ? detectLanguage(message) ?? [...messages].reverse().find((entry) => entry.language)?.language
+        : languageRef.current;
+
+    // The user's own commands are handled on the spot, in whatever language they were set up in. So are built-in
+    // commands, reminders, calculations and skills' own commands, but those only understand English: they are
+    // skipped when the user has picked another language. In auto mode they are always tried, since a short
+    // command gives detection little to go on and a wrong guess would send "stop" or a timer to the network.
+    const { skills: installedSkills, states: skillStates } = skillsRef.current ?? { skills: [], states: {} };
+    const chosenLanguage = languageRef.current ?? 'auto';
+    const intents = [
+      customCommandIntent(loadCustomCommands()),
+      ...(chosenLanguage === 'auto' || chosenLanguage === 'en'
+        ? [...builtInIntents, ...enabledSkillIntents(installedSkills, skillStates)]
+        : []),
+    ];
+    const routed = await createIntentRouter(intents).route(message, {
+      now: new Date(),
+      actions: {
+        ...intentActionsRef.current,
+        reminders: remindersRef.current ?? undefined,
+        interrupt,
+        clearHistory: () => store.dispatch({ type: 'RESET' }),
+      },
+    });
+    // Commands answer in English, whatever language the message was taken for
+    const turnLanguage =
+      routed && routed.reply.prompt === undefined && chosenLanguage === 'auto' ? 'en' : replyLanguage;
+
+    // Commands that only act ("stop", "louder") leave the conversation, and any reply in flight, as they are
+    if (routed && routed.reply.content === undefined && routed.reply.prompt === undefined) {
+      if (routed.reply.spoken) {
+        speakRef.current?.(routed.reply.spoken, turnLanguage);
+      }
+      return;
+    }
+
+    // A new question replaces whatever is still being said, and only one turn is in flight at a time
+    intentActionsRef.current?.stopSpeaking?.();
+    if (activeTurnRef.current) {
+      interrupt();
+    }
+
+    // Prompt templates are asked in place of the phrase that triggered them
+    const question = routed?.reply.prompt ?? message;
+    const assistantMessageId = startTurn(store, question, turnLanguage);
+    const controller = new AbortController();
+    activeTurnRef.current = { assistantMessageId, controller };
+
+    // Replies to a conversation the user has since switched away from are dropped
+    const isCurrentTurn = () => store.getState().messages.some((entry) => entry.id === assistantMessageId);
+    const speakText = (sentence: string, origin?: SpokenOrigin) => {
+      if (isCurrentTurn() && !controller.signal.aborted) {
+        speakRef.current?.(sentence, turnLanguage, origin);
+      }
+    };
+
+    if (routed) {
+      const { reply, invocation } = routed;
+      store.dispatch({ type: 'ASSISTANT_TOOL', id: assistantMessageId, invocation });
+      if (reply.content !== undefined) {
+        store.dispatch({ type: 'ASSISTANT_COMPLETE', id: assistantMessageId, content: reply.content });
+        speakText(reply.spoken ?? reply.content);
+        activeTurnRef.current = null;
+        return;
+      }
+    }
+
+    try {
+      // Asked after routing, which may have waited on a webhook while another reply finished
+      await askChat(store, {
+        assistantMessageId,
+        question,
+        request: {
+          language: replyLanguage,
+          context: getClientContext(shareLocationRef.current),
+          skills: enabledSkillSettings(installedSkills, skillStates),
+        },
+        signal: controller.signal,
+        invoke: (body) => supabase.functions.invoke('chat', { body }),
+        speak: speakText,
+      });
+    } finally {
+      if (activeTurnRef.current?.controller === controller) {
+        activeTurnRef.current = null;
+      }
+    }
+  }, [store, interrupt]);
+
+
+  const openConversation = useCallback(async (conversationId: string) => {
+    const conversation = await fetchConversation(conversationId);
+    store.dispatch({ type: 'RESET', conversationId: conversation.id, messages: conversation.messages });
+  }, [store]);
+
+  const startNewConversation = useCallback(() => {
+    store.dispatch({ type: 'RESET' });
+  }, [store]);
+
+  return {
+    ...state,
+    send,
+    interrupt,
+    openConversation,
+    startNewConversation,
+  };
+};
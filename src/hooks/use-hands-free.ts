@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type ConversationPhase = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+export const getConversationPhase = ({
+  isListening,
+  isProcessing,
+  isSpeaking,
+}: {
+  isListening: boolean;
+  isProcessing: boolean;
+  isSpeaking: boolean;
+}): ConversationPhase => {
+  // Streamed replies start speaking while the request is still open, and the mic may stay open
+  // during speech to catch barge-in, so speaking wins over both
+  if (isSpeaking) return 'speaking';
+  if (isListening) return 'listening';
+  if (isProcessing) return 'thinking';
+  return 'idle';
+};
+
+// Pause before the mic (re)opens, so back-to-back recognizer restarts never spin
+const REARM_DELAY_MS = 400;
+
+interface UseHandsFreeOptions {
+  enabled: boolean;
+  phase: ConversationPhase;
+  isListening: boolean;
+  silenceTimeoutMs: number;
+  startListening: () => void;
+  stopListening: () => void;
+  onSessionEnd: () => void;
+}
+
+// Keeps a voice conversation going without clicks: keeps the mic open whenever the assistant is idle or
+// speaking (so the user can talk over it) and ends the session once nobody has spoken for `silenceTimeoutMs`.
+export const useHandsFree = ({
+  enabled,
+  phase,
+  isListening,
+  silenceTimeoutMs,
+  startListening,
+  stopListening,
+  onSessionEnd,
+}: UseHandsFreeOptions) => {
+  const [lastActivityAt, setLastActivityAt] = useState(() => Date.now());
+  const previousPhaseRef = useRef(phase);
+
+  const markActivity = useCallback(() => setLastActivityAt(Date.now()), []);
+
+  // The silence clock restarts when the session starts and whenever the assistant finishes a turn
+  useEffect(() => {
+    const previousPhase = previousPhaseRef.current;
+    previousPhaseRef.current = phase;
+
+    if ((phase === 'idle' || phase === 'listening') && (previousPhase === 'thinking' || previousPhase === 'speaking')) {
+      markActivity();
+    }
+  }, [phase, markActivity]);
+
+  useEffect(() => {
+    if (enabled) {
+      markActivity();
+    }
+  }, [enabled, markActivity]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    if ((phase === 'idle' || phase === 'speaking') && !isListening) {
+      const timer = setTimeout(startListening, REARM_DELAY_MS);
+      return () => clearTimeout(timer);
+    }
+
+    if (phase === 'listening') {
+      const remaining = silenceTimeoutMs - (Date.now() - lastActivityAt);
+      const timer = setTimeout(() => {
+        stopListening();
+        onSessionEnd();
+      }, Math.max(0, remaining));
+      return () => clearTimeout(timer);
+    }
+  }, [enabled, phase, isListening, lastActivityAt, silenceTimeoutMs, startListening, stopListening, onSessionEnd]);
+
+  return { markActivity };
+};
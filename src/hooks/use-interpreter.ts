@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { otherSide, translateUtterance, type InterpreterEntry, type InterpreterSide } from '@/lib/interpreter';
+import { toChatError } from '@shared/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+
+interface UseInterpreterOptions {
+  languages: Record<InterpreterSide, LanguageCode>;
+  // Reads each translation out to the other participant
+  speak?: (text: string, language: LanguageCode) => void;
+}
+
+// Interpreter-mode transcript: every utterance is sent to the `translate` function and the translation is
+// spoken in the other participant's language. Utterances are translated independently, so a slow one
+// never holds up the next.
+export const useInterpreter = ({ languages, speak }: UseInterpreterOptions) => {
+  const [entries, setEntries] = useState<InterpreterEntry[]>([]);
+
+  const speakRef = useRef(speak);
+  useEffect(() => {
+    speakRef.current = speak;
+  }, [speak]);
+
+  const updateEntry = (id: string, changes: Partial<InterpreterEntry>) =>
+    setEntries((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+
+  const interpret = useCallback(async (speaker: InterpreterSide, text: string) => {
+    const original = text.trim();
+    if (!original) return;
+
+    const entry: InterpreterEntry = {
+      id: crypto.randomUUID(),
+      speaker,
+      from: languages[speaker],
+      to: languages[otherSide(speaker)],
+      original,
+      translation: null,
+      error: null,
+    };
+    setEntries((current) => [...current, entry]);
+
+    try {
+      const translation = await translateUtterance({ text: original, from: entry.from, to: entry.to });
+      updateEntry(entry.id, { translation });
+      speakRef.current?.(translation, entry.to);
+    } catch (caught) {
+      console.error('Error translating utterance:', caught);
+      updateEntry(entry.id, { error: toChatError(caught).toPayload() });
+    }
+  }, [languages]);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  return { entries, interpret, clear };
+};
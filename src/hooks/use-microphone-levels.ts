@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+
+interface UseMicrophoneLevelsOptions {
+  // Only hold the microphone open while this is true
+  enabled: boolean;
+  bands: number;
+}
+
+// Below this the analyser is just picking up room noise, so the bars stay flat
+const NOISE_FLOOR = 0.08;
+
+// Averages the lower (speech-carrying) part of the spectrum into `bands` levels between 0 and 1
+const toBandLevels = (frequencies: Uint8Array, bands: number) => {
+  const usable = Math.floor(frequencies.length * 0.6);
+  const perBand = Math.max(1, Math.floor(usable / bands));
+
+  return Array.from({ length: bands }, (_, band) => {
+    let sum = 0;
+    for (let i = band * perBand; i < (band + 1) * perBand; i++) {
+      sum += frequencies[i] ?? 0;
+    }
+    const level = sum / perBand / 255;
+    return level < NOISE_FLOOR ? 0 : level;
+  });
+};
+
+// Streams live microphone levels through a Web Audio AnalyserNode. This opens its own `getUserMedia`
+// stream next to the recognizer's, since the Web Speech API doesn't expose the audio it is hearing.
+export const useMicrophoneLevels = ({ enabled, bands }: UseMicrophoneLevelsOptions) => {
+  const [levels, setLevels] = useState<number[]>(() => Array(bands).fill(0));
+  const [isAvailable, setIsAvailable] = useState(true);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLevels(Array(bands).fill(0));
+      return;
+    }
+    if (!navigator.mediaDevices?.getUserMedia || typeof AudioContext === 'undefined') {
+      setIsAvailable(false);
+      return;
+    }
+
+    let cancelled = false;
+    let frame = 0;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+
+    const start = async () => {
+      try {
+        const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        if (cancelled) {
+          micStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = micStream;
+        context = new AudioContext();
+
+        const analyser = context.createAnalyser();
+        analyser.fftSize = 256;
+        analyser.smoothingTimeConstant = 0.7;
+        context.createMediaStreamSource(micStream).connect(analyser);
+
+        const frequencies = new Uint8Array(analyser.frequencyBinCount);
+        const tick = () => {
+          analyser.getByteFrequencyData(frequencies);
+          setLevels(toBandLevels(frequencies, bands));
+          frame = requestAnimationFrame(tick);
+        };
+        setIsAvailable(true);
+        tick();
+      } catch (error) {
+        // Permission denied or no input device; the recognizer reports its own errors
+        console.error('Microphone level meter unavailable:', error);
+        if (!cancelled) {
+          setIsAvailable(false);
+        }
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+      context?.close();
+    };
+  }, [enabled, bands]);
+
+  return { levels, isAvailable };
+};
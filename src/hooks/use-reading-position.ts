@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react';
+import type { SpeechProgressHandlers } from '@/hooks/use-speech-synthesis';
+import { locateSpokenWord, type ReadingPosition, type SpokenOrigin } from '@/lib/reading-position';
+import type { LanguageCode } from '@shared/languages';
+
+type Speak = (text: string, language?: LanguageCode, handlers?: SpeechProgressHandlers) => void;
+
+// Wraps a speak function so that sentences with a known origin report where in their message the voice is.
+// Spoken words are matched back to the markdown they were read from, so the highlight follows the voice
+// even though the speech script differs from what is on screen.
+export const useReadingPosition = (speak: Speak) => {
+  const [position, setPosition] = useState<ReadingPosition | null>(null);
+
+  const speakTracked = useCallback((text: string, language?: LanguageCode, origin?: SpokenOrigin) => {
+    if (!origin) {
+      speak(text, language);
+      return;
+    }
+
+    const { messageId, source: sentence, markdown } = origin;
+    // Offset in `markdown` after the last word found, so repeated words are matched in order
+    let searchFrom = 0;
+
+    speak(text, language, {
+      onStart: () => setPosition({ messageId, sentence, word: null }),
+      onWord: (word) => {
+        const located = locateSpokenWord(markdown, text.slice(word.start, word.end), searchFrom);
+        if (!located) return;
+        searchFrom = located.end;
+        setPosition({
+          messageId,
+          sentence,
+          word: { start: sentence.start + located.start, end: sentence.start + located.end },
+        });
+      },
+      onEnd: () => setPosition((current) => (current?.sentence === sentence ? null : current)),
+    });
+  }, [speak]);
+
+  return { position, speak: speakTracked };
+};
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { transcribeRecording } from '@/lib/transcription';
+import type { LanguageCode } from '@shared/languages';
+
+interface UseRecordedSpeechRecognitionOptions {
+  // Spoken language, if known; otherwise the server detects it
+  language?: LanguageCode;
+  onFinalResult: (transcript: string) => void;
+  // Reported with the Web Speech error names ('no-speech', 'not-allowed', ...) so callers can share handling
+  onError?: (error: string) => void;
+}
+
+// RMS level (0..1) above which the input counts as speech rather than room noise
+const SPEECH_LEVEL = 0.04;
+// Quiet after speech that ends the utterance, like the Web Speech recognizer does on its own
+const END_OF_SPEECH_MS = 1500;
+const NO_SPEECH_TIMEOUT_MS = 8000;
+const MAX_RECORDING_MS = 30_000;
+
+interface RecordingSession {
+  recorder: MediaRecorder;
+  // Set on unmount, when the recording should be thrown away rather than transcribed
+  discard: boolean;
+}
+
+const recognitionErrorFor = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'NotAllowedError' || error.name === 'SecurityError')
+    ? 'not-allowed'
+    : 'audio-capture';
+
+// Drop-in alternative to useSpeechRecognition for browsers without the Web Speech API: records one utterance
+// with MediaRecorder, ends it after a pause, and transcribes it with the `transcribe` edge function.
+// There are no interim results, so `transcript` stays empty; `isTranscribing` covers the upload.
+export const useRecordedSpeechRecognition = ({ language, onFinalResult, onError }: UseRecordedSpeechRecognitionOptions) => {
+  const [isSupported] = useState(
+    () => typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined' && !!navigator.mediaDevices?.getUserMedia
+  );
+  const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+
+  const sessionRef = useRef<RecordingSession | null>(null);
+  // True while waiting for microphone permission, so a second start() doesn't open another stream
+  const startingRef = useRef(false);
+  const handlersRef = useRef({ language, onFinalResult, onError });
+  useEffect(() => {
+    handlersRef.current = { language, onFinalResult, onError };
+  }, [language, onFinalResult, onError]);
+
+  const start = useCallback(async () => {
+    if (!isSupported || sessionRef.current || startingRef.current) return;
+
+    let stream: MediaStream;
+    startingRef.current = true;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (error) {
+      handlersRef.current.onError?.(recognitionErrorFor(error));
+      return;
+    } finally {
+      startingRef.current = false;
+    }
+
+    const recorder = new MediaRecorder(stream);
+    const session: RecordingSession = { recorder, discard: false };
+    sessionRef.current = session;
+
+    // Watch the input level to notice when the user stops talking
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Uint8Array(analyser.fftSize);
+
+    const startedAt = performance.now();
+    let lastSpeechAt: number | null = null;
+    let frame = 0;
+
+    const watchLevel = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        const centered = (sample - 128) / 128;
+        sumOfSquares += centered * centered;
+      }
+      const now = performance.now();
+      if (Math.sqrt(sumOfSquares / samples.length) > SPEECH_LEVEL) {
+        lastSpeechAt = now;
+      }
+
+      const finishedSpeaking = lastSpeechAt !== null && now - lastSpeechAt > END_OF_SPEECH_MS;
+      const neverSpoke = lastSpeechAt === null && now - startedAt > NO_SPEECH_TIMEOUT_MS;
+      if (finishedSpeaking || neverSpoke || now - startedAt > MAX_RECORDING_MS) {
+        recorder.stop();
+        return;
+      }
+      frame = requestAnimationFrame(watchLevel);
+    };
+
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+
+    recorder.onstop = async () => {
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach((track) => track.stop());
+      context.close();
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+      }
+      setIsListening(false);
+
+      if (session.discard) return;
+      if (lastSpeechAt === null) {
+        handlersRef.current.onError?.('no-speech');
+        return;
+      }
+
+      setIsTranscribing(true);
+      try {
+        const audio = new Blob(chunks, { type: recorder.mimeType });
+        const text = await transcribeRecording(audio, handlersRef.current.language);
+        if (text) {
+          handlersRef.current.onFinalResult(text);
+        } else {
+          handlersRef.current.onError?.('no-speech');
+        }
+      } catch (error) {
+        console.error('Error transcribing recording:', error);
+        handlersRef.current.onError?.('network');
+      } finally {
+        setIsTranscribing(false);
+      }
+    };
+
+    recorder.start();
+    setIsListening(true);
+    frame = requestAnimationFrame(watchLevel);
+  }, [isSupported]);
+
+  // Ends the utterance early; what was said so far is still transcribed
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (session && session.recorder.state !== 'inactive') {
+      session.recorder.stop();
+    }
+  }, []);
+
+  // Hang up the microphone without transcribing when the component goes away
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    if (session && session.recorder.state !== 'inactive') {
+      session.discard = true;
+      session.recorder.stop();
+    }
+  }, []);
+
+  return { isSupported, isListening, isTranscribing, transcript: '', start, stop };
+};
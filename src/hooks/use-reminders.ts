@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { Reminder, ReminderDraft } from '@/lib/reminders';
+
+export interface RemindersContextValue {
+  // Pending and ringing reminders, soonest first
+  reminders: Reminder[];
+  addReminder: (draft: ReminderDraft) => Reminder;
+  // Cancels a pending reminder, or silences and clears one that has gone off
+  dismissReminder: (id: string) => void;
+}
+
+// Provided by <RemindersProvider>, which wraps every page so reminders go off wherever the user is
+export const RemindersContext = createContext<RemindersContextValue | null>(null);
+
+export const useReminders = () => {
+  const value = useContext(RemindersContext);
+  if (!value) {
+    throw new Error('useReminders must be used within a RemindersProvider.');
+  }
+  return value;
+};
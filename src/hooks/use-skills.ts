@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { SkillState, SkillStates } from '@/lib/skill-settings';
+import type { ClientSkill } from '@/lib/skills';
+import type { SkillSettingValues } from '@shared/skills';
+
+export interface SkillsContextValue {
+  // Installed skills, as listed in `supabase/functions/_skills/client.ts`
+  skills: ClientSkill[];
+  // Whether each is turned on, and the user's settings for it
+  states: SkillStates;
+  updateSkill: (name: string, changes: Partial<Omit<SkillState, 'settings'>> & { settings?: SkillSettingValues }) => void;
+}
+
+// Provided by <SkillsProvider>, so the assistant and the /settings page share one set of skill settings
+export const SkillsContext = createContext<SkillsContextValue | null>(null);
+
+export const useSkills = () => {
+  const value = useContext(SkillsContext);
+  if (!value) {
+    throw new Error('useSkills must be used within a SkillsProvider.');
+  }
+  return value;
+};
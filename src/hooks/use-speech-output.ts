@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSpeechSynthesis, type SpeechProgressHandlers } from '@/hooks/use-speech-synthesis';
+import { wordRanges } from '@/lib/reading-position';
+import { fetchSpeechAudio } from '@/lib/server-speech';
+import type { LanguageCode } from '@shared/languages';
+
+interface UseSpeechOutputOptions {
+  // 'server' plays audio from the `speak` function, 'browser' uses `speechSynthesis`
+  speechEngine?: 'browser' | 'server';
+  voiceURI?: string | null;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+}
+
+interface QueuedSpeech {
+  text: string;
+  language?: LanguageCode;
+  handlers?: SpeechProgressHandlers;
+  // Requested as soon as the sentence is queued, so the next clip is usually ready when the current one ends
+  audio: Promise<Blob | null>;
+}
+
+// Speaks text with the configured engine, with the same interface as useSpeechSynthesis. Server audio is
+// played one clip at a time, in order; if the `speak` function fails, the rest of the reply falls back to
+// the browser's voice rather than going silent. Server audio comes without word timings, so progress through
+// a clip is estimated from how far it has played.
+export const useSpeechOutput = ({ speechEngine = 'browser', ...synthesisOptions }: UseSpeechOutputOptions = {}) => {
+  const browser = useSpeechSynthesis(synthesisOptions);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const optionsRef = useRef({ speechEngine, rate: synthesisOptions.rate ?? 0.9, volume: synthesisOptions.volume ?? 0.8 });
+  useEffect(() => {
+    optionsRef.current = { speechEngine, rate: synthesisOptions.rate ?? 0.9, volume: synthesisOptions.volume ?? 0.8 };
+  }, [speechEngine, synthesisOptions.rate, synthesisOptions.volume]);
+
+  const queueRef = useRef<QueuedSpeech[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // The clip in `audioRef`, so cancelling can tell its caller it ended
+  const playingRef = useRef<QueuedSpeech | null>(null);
+  // Whether the playNext loop is running (possibly waiting on a clip that is still loading)
+  const loopRef = useRef(false);
+  // Bumped on cancel, so clips that finish loading afterwards are dropped
+  const generationRef = useRef(0);
+  const browserSpeak = browser.speak;
+
+  const stopAudio = useCallback(() => {
+    const audio = audioRef.current;
+    const playing = playingRef.current;
+    audioRef.current = null;
+    playingRef.current = null;
+    if (audio) {
+      audio.pause();
+      URL.revokeObjectURL(audio.src);
+    }
+    playing?.handlers?.onEnd?.();
+  }, []);
+
+  // Hands `current` and everything queued behind it to the browser's voice, in order
+  const fallBackToBrowser = useCallback((current: QueuedSpeech) => {
+    const remaining = [current, ...queueRef.current];
+    queueRef.current = [];
+    loopRef.current = false;
+    setIsPlaying(false);
+    remaining.forEach((item) => browserSpeak(item.text, item.language, item.handlers));
+  }, [browserSpeak]);
+
+  const playNext = useCallback(async () => {
+    const generation = generationRef.current;
+    const next = queueRef.current.shift();
+    if (!next) {
+      loopRef.current = false;
+      setIsPlaying(false);
+      return;
+    }
+
+    const clip = await next.audio;
+    if (generation !== generationRef.current) return;
+
+    if (!clip) {
+      fallBackToBrowser(next);
+      return;
+    }
+
+    const audio = new Audio(URL.createObjectURL(clip));
+    audio.playbackRate = optionsRef.current.rate;
+    audio.volume = optionsRef.current.volume;
+    audioRef.current = audio;
+    playingRef.current = next;
+
+    const words = wordRanges(next.text);
+    let wordIndex = -1;
+    audio.onplay = () => next.handlers?.onStart?.();
+    audio.ontimeupdate = () => {
+      if (!next.handlers?.onWord || !Number.isFinite(audio.duration) || audio.duration === 0) return;
+      const position = (audio.currentTime / audio.duration) * next.text.length;
+      let index = wordIndex;
+      while (index + 1 < words.length && words[index + 1].start <= position) {
+        index += 1;
+      }
+      if (index !== wordIndex && index >= 0) {
+        wordIndex = index;
+        next.handlers.onWord(words[index]);
+      }
+    };
+
+    const finish = () => {
+      if (audioRef.current !== audio) return;
+      stopAudio();
+      playNext();
+    };
+    audio.onended = finish;
+    audio.onerror = finish;
+    audio.play().catch((playError) => {
+      // Autoplay blocked or an unplayable clip; carry on with the browser's voice instead
+      console.error('Could not play speech audio:', playError);
+      if (audioRef.current !== audio) return;
+      // The browser's voice takes over this sentence, and reports its progress instead
+      playingRef.current = null;
+      stopAudio();
+      fallBackToBrowser(next);
+    });
+  }, [fallBackToBrowser, stopAudio]);
+
+  const speak = useCallback((text: string, language?: LanguageCode, handlers?: SpeechProgressHandlers) => {
+    if (optionsRef.current.speechEngine !== 'server') {
+      browserSpeak(text, language, handlers);
+      return;
+    }
+
+    const audio = fetchSpeechAudio(text, language).catch((fetchError) => {
+      console.error('Error fetching speech audio:', fetchError);
+      return null;
+    });
+    queueRef.current.push({ text, language, handlers, audio });
+
+    setIsPlaying(true);
+    if (!loopRef.current) {
+      loopRef.current = true;
+      playNext();
+    }
+  }, [browserSpeak, playNext]);
+
+  const browserCancel = browser.cancel;
+  // True when there was something to cut off, with either engine
+  const cancel = useCallback(() => {
+    const wasPlaying = loopRef.current || queueRef.current.length > 0;
+    generationRef.current += 1;
+    queueRef.current = [];
+    loopRef.current = false;
+    stopAudio();
+    setIsPlaying(false);
+    const browserWasSpeaking = browserCancel();
+    return wasPlaying || browserWasSpeaking;
+  }, [browserCancel, stopAudio]);
+
+  // Don't keep talking after the assistant is gone
+  useEffect(() => () => {
+    cancel();
+  }, [cancel]);
+
+  return {
+    isSupported: browser.isSupported || speechEngine === 'server',
+    isSpeaking: isPlaying || browser.isSpeaking,
+    speak,
+    cancel,
+  };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+interface UseSpeechRecognitionOptions {
+  lang?: string;
+  // Called with the final transcript of each utterance
+  onFinalResult: (transcript: string) => void;
+  // Called with the transcript so far for every (interim or final) result, i.e. whenever anything is heard
+  onSpeech?: (transcript: string) => void;
+  onError?: (error: string) => void;
+}
+
+// Wraps the Web Speech recognizer. Handlers are read through a ref, so they can change between renders
+// without re-creating the recognizer (and without going stale like a mount-time closure would).
+export const useSpeechRecognition = ({ lang = 'en-US', onFinalResult, onSpeech, onError }: UseSpeechRecognitionOptions) => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isListening, setIsListening] = useState(false);
+  const [transcript, setTranscript] = useState('');
+
+  const recognitionRef = useRef<SpeechRecognition | null>(null);
+  const handlersRef = useRef({ onFinalResult, onSpeech, onError });
+  useEffect(() => {
+    handlersRef.current = { onFinalResult, onSpeech, onError };
+  }, [onFinalResult, onSpeech, onError]);
+
+  useEffect(() => {
+    const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    if (!SpeechRecognition) return;
+
+    const recognition = new SpeechRecognition();
+    recognition.continuous = false;
+    recognition.interimResults = true;
+
+    recognition.onresult = (event) => {
+      const current = event.resultIndex;
+      const result = event.results[current][0].transcript;
+      setTranscript(result);
+      handlersRef.current.onSpeech?.(result);
+
+      if (event.results[current].isFinal) {
+        setIsListening(false);
+        setTranscript('');
+        handlersRef.current.onFinalResult(result);
+      }
+    };
+
+    recognition.onerror = (event) => {
+      setIsListening(false);
+      handlersRef.current.onError?.(event.error);
+    };
+
+    recognition.onend = () => {
+      setIsListening(false);
+    };
+
+    recognitionRef.current = recognition;
+    setIsSupported(true);
+
+    return () => {
+      recognition.abort();
+      recognitionRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (recognitionRef.current) {
+      recognitionRef.current.lang = lang;
+    }
+  }, [lang, isSupported]);
+
+  const start = useCallback(() => {
+    if (!recognitionRef.current) return;
+
+    setTranscript('');
+    try {
+      recognitionRef.current.start();
+      setIsListening(true);
+    } catch (error) {
+      // start() throws if the recognizer is already running
+      console.error('Could not start speech recognition:', error);
+    }
+  }, []);
+
+  const stop = useCallback(() => {
+    recognitionRef.current?.stop();
+    setIsListening(false);
+  }, []);
+
+  return { isSupported, isListening, transcript, start, stop };
+};
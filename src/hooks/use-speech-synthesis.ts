@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { wordAt } from '@/lib/reading-position';
+import type { TextRange } from '@/lib/sentence-buffer';
+import { LANGUAGES, languageFromTag, type LanguageCode } from '@shared/languages';
+
+interface UseSpeechSynthesisOptions {
+  // `SpeechSynthesisVoice.voiceURI`; the browser default is used when unset or no longer installed
+  voiceURI?: string | null;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+}
+
+// The user's chosen voice if it speaks `language` (or no language is asked for), otherwise the best installed
+// voice for the language, preferring the exact regional tag and then the browser's default for that language
+const pickVoice = (voices: SpeechSynthesisVoice[], voiceURI: string | null, language?: LanguageCode) => {
+  const chosen = voiceURI ? voices.find((voice) => voice.voiceURI === voiceURI) : undefined;
+  if (!language) return chosen;
+
+  const speaks = (voice: SpeechSynthesisVoice) => languageFromTag(voice.lang) === language;
+  if (chosen && speaks(chosen)) return chosen;
+
+  const candidates = voices.filter(speaks);
+  return (
+    candidates.find((voice) => voice.lang === LANGUAGES[language].speechTag) ??
+    candidates.find((voice) => voice.default) ??
+    candidates[0]
+  );
+};
+
+// Lets the caller follow an utterance as it is read, e.g. to highlight the word being spoken
+export interface SpeechProgressHandlers {
+  onStart?: () => void;
+  // The word being read, as a range of the spoken text
+  onWord?: (word: TextRange) => void;
+  // Called once the utterance has finished, failed or been cancelled
+  onEnd?: () => void;
+}
+
+const isSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// The installed voices. Most browsers load them asynchronously, so the list fills in after `voiceschanged`.
+export const useSpeechVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSynthesisSupported() ? window.speechSynthesis.getVoices() : []
+  );
+
+  useEffect(() => {
+    if (!isSynthesisSupported()) return;
+
+    const updateVoices = () => setVoices(window.speechSynthesis.getVoices());
+    updateVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', updateVoices);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', updateVoices);
+  }, []);
+
+  return voices;
+};
+
+// Wraps `window.speechSynthesis`, tracking whether anything is still queued or being spoken. Options are read
+// when each utterance is queued, so changing them doesn't re-create `speak`.
+export const useSpeechSynthesis = ({ voiceURI = null, rate = 0.9, pitch = 1, volume = 0.8 }: UseSpeechSynthesisOptions = {}) => {
+  const [isSupported] = useState(isSynthesisSupported);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const optionsRef = useRef({ voiceURI, rate, pitch, volume });
+  useEffect(() => {
+    optionsRef.current = { voiceURI, rate, pitch, volume };
+  }, [voiceURI, rate, pitch, volume]);
+  const pendingRef = useRef(0);
+  // Bumped on cancel, so late `onend` events from cancelled utterances don't touch the new queue
+  const generationRef = useRef(0);
+
+  // `language` picks a voice for that language when the chosen one doesn't speak it
+  const speak = useCallback((text: string, language?: LanguageCode, handlers?: SpeechProgressHandlers) => {
+    if (!isSupported) return;
+
+    const options = optionsRef.current;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = options.rate;
+    utterance.pitch = options.pitch;
+    utterance.volume = options.volume;
+    const voice = pickVoice(window.speechSynthesis.getVoices(), options.voiceURI, language);
+    if (voice) {
+      utterance.voice = voice;
+      utterance.lang = voice.lang;
+    } else if (language) {
+      utterance.lang = LANGUAGES[language].speechTag;
+    }
+
+    utterance.onstart = () => handlers?.onStart?.();
+    utterance.onboundary = (event) => {
+      if (event.name !== 'word') return;
+      // Safari leaves charLength out
+      const word = event.charLength
+        ? { start: event.charIndex, end: event.charIndex + event.charLength }
+        : wordAt(text, event.charIndex);
+      if (word) {
+        handlers?.onWord?.(word);
+      }
+    };
+
+    const generation = generationRef.current;
+    const settle = () => {
+      handlers?.onEnd?.();
+      if (generation !== generationRef.current) return;
+      pendingRef.current = Math.max(0, pendingRef.current - 1);
+      if (pendingRef.current === 0) {
+        setIsSpeaking(false);
+      }
+    };
+    utterance.onend = settle;
+    utterance.onerror = settle;
+
+    pendingRef.current += 1;
+    setIsSpeaking(true);
+    window.speechSynthesis.speak(utterance);
+  }, [isSupported]);
+
+  // True when there was something to cut off
+  const cancel = useCallback(() => {
+    if (!isSupported) return false;
+
+    const wasSpeaking = pendingRef.current > 0;
+    generationRef.current += 1;
+    pendingRef.current = 0;
+    setIsSpeaking(false);
+    window.speechSynthesis.cancel();
+    return wasSpeaking;
+  }, [isSupported]);
+
+  // Don't keep talking after the assistant is gone
+  useEffect(() => () => {
+    cancel();
+  }, [cancel]);
+
+  return { isSupported, isSpeaking, speak, cancel };
+};
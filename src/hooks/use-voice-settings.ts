@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { VoiceSettings } from '@/lib/voice-settings';
+
+export interface VoiceSettingsContextValue {
+  settings: VoiceSettings;
+  updateSettings: (changes: Partial<VoiceSettings>) => void;
+}
+
+// Provided by <VoiceSettingsProvider>, so the assistant and the /settings page share one set of preferences
+export const VoiceSettingsContext = createContext<VoiceSettingsContextValue | null>(null);
+
+export const useVoiceSettings = () => {
+  const value = useContext(VoiceSettingsContext);
+  if (!value) {
+    throw new Error('useVoiceSettings must be used within a VoiceSettingsProvider.');
+  }
+  return value;
+};
@@ -0,0 +1,50 @@
+// How long an alarm rings before it gives up; the reminder stays listed until it is dismissed
+const ALARM_DURATION_S = 60;
+// Two short beeps, then a pause
+const BEEP_PATTERN_S = [0, 0.25];
+const BEEP_LENGTH_S = 0.15;
+const PATTERN_PERIOD_S = 1;
+const BEEP_FREQUENCY_HZ = 880;
+
+// Rings a beeping alarm made with Web Audio, so there is no sound file to fetch. The beeps are all scheduled
+// on the audio clock up front, so they keep time in a background tab, where timers are throttled.
+// Returns a function that stops it.
+export const startAlarm = (volume: number): (() => void) => {
+  if (typeof AudioContext === 'undefined') return () => {};
+
+  const context = new AudioContext();
+  // Autoplay rules may start the context suspended; it resumes once the page has had a click
+  context.resume().catch(() => {});
+
+  const output = context.createGain();
+  output.gain.value = Math.max(0.05, volume) * 0.3;
+  output.connect(context.destination);
+
+  const start = context.currentTime + 0.05;
+  for (let period = 0; period < ALARM_DURATION_S / PATTERN_PERIOD_S; period += 1) {
+    for (const offset of BEEP_PATTERN_S) {
+      const at = start + period * PATTERN_PERIOD_S + offset;
+      const oscillator = context.createOscillator();
+      const envelope = context.createGain();
+      oscillator.type = 'square';
+      oscillator.frequency.value = BEEP_FREQUENCY_HZ;
+      // Short ramps keep the beeps from clicking
+      envelope.gain.setValueAtTime(0, at);
+      envelope.gain.linearRampToValueAtTime(1, at + 0.01);
+      envelope.gain.setValueAtTime(1, at + BEEP_LENGTH_S - 0.01);
+      envelope.gain.linearRampToValueAtTime(0, at + BEEP_LENGTH_S);
+      oscillator.connect(envelope).connect(output);
+      oscillator.start(at);
+      oscillator.stop(at + BEEP_LENGTH_S);
+    }
+  }
+
+  let stopped = false;
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    context.close().catch(() => {});
+  };
+  setTimeout(stop, (ALARM_DURATION_S + 1) * 1000);
+  return stop;
+};
@@ -0,0 +1,43 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { isLikelyEcho } from './barge-in.ts';
+import { toSpeechScript } from './speech-script.ts';
+
+const reply = 'The Eiffel Tower is about three hundred and thirty metres tall, and it was finished in 1889.';
+
+Deno.test('a one-word command over a reply is not echo', () => {
+  assertEquals(isLikelyEcho('stop', reply), false);
+  assertEquals(isLikelyEcho('Wait!', reply), false);
+  assertEquals(isLikelyEcho('stop it', reply), false);
+});
+
+Deno.test('words the reply is saying are echo', () => {
+  assertEquals(isLikelyEcho('tower', reply), true);
+  assertEquals(isLikelyEcho('Eiffel tower', reply), true);
+  assertEquals(isLikelyEcho('the Eiffel tower is about three', reply), true);
+  // Misheard, but mostly the reply's words
+  assertEquals(isLikelyEcho('the awful tower is about three hundred', reply), true);
+});
+
+Deno.test("short phrases only count as echo in the reply's order", () => {
+  assertEquals(isLikelyEcho('tall tower', reply), false);
+});
+
+Deno.test('a new question over a reply is not echo', () => {
+  assertEquals(isLikelyEcho('how tall is the Statue of Liberty', reply), false);
+});
+
+Deno.test('nothing heard yet is treated as echo', () => {
+  assertEquals(isLikelyEcho('', reply), true);
+});
+
+Deno.test('symbols in a reply are echo in the words they are read out as', () => {
+  const markdown = 'Prices rose **12%** this year, about 3 × what we expected.';
+  const spoken = toSpeechScript(markdown).map((sentence) => sentence.text).join(' ');
+
+  assertEquals(isLikelyEcho('12 percent', spoken), true);
+  assertEquals(isLikelyEcho('3 times', spoken), true);
+  assertEquals(isLikelyEcho('rose 12 percent this year', spoken), true);
+  // The markdown never says these words, so checking against it would take the echo for the user barging in
+  assertEquals(isLikelyEcho('12 percent', markdown), false);
+  assertEquals(isLikelyEcho('stop', spoken), false);
+});
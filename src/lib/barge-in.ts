@@ -0,0 +1,21 @@
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+// Whether `run` appears in `sequence` word for word, in order
+const containsRun = (sequence: string[], run: string[]) =>
+  sequence.some((_, start) => run.every((word, offset) => sequence[start + offset] === word));
+
+// The recognizer stays open while the assistant talks, so it also hears the assistant through the speakers.
+// Treat what it hears as the user barging in only once it says something the reply doesn't.
+export const isLikelyEcho = (heard: string, spokenText: string) => {
+  const heardWords = words(heard);
+  if (!heardWords.length) return true;
+
+  const spokenWords = words(spokenText);
+  // A word or two, like "stop" or "wait", is only echo when the reply says exactly that
+  if (heardWords.length < 3) return containsRun(spokenWords, heardWords);
+
+  // Longer stretches are often misheard, so most of the words matching is enough
+  const spokenWordSet = new Set(spokenWords);
+  const overlap = heardWords.filter((word) => spokenWordSet.has(word)).length;
+  return overlap / heardWords.length >= 0.6;
+};
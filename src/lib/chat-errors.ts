@@ -0,0 +1,91 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { ChatError, isChatErrorCode, toChatError, type ChatErrorCode } from '@shared/chat-errors';
+
+export interface ChatErrorGuidance {
+  title: string;
+  description: string;
+  // Short line the assistant says out loud instead of the reply
+  spoken: string;
+  steps?: string[];
+  link?: { label: string; href: string };
+}
+
+export const chatErrorGuidance: Record<ChatErrorCode, ChatErrorGuidance> = {
+  BAD_REQUEST: {
+    title: "Request not understood",
+    description: "Nova couldn't read that request. Try saying it again in a different way.",
+    spoken: "Sorry, I didn't catch that. Could you try again?",
+  },
+  CONFIG_MISSING_KEY: {
+    title: "🔑 API Key Required",
+    description: "To enable advanced AI conversations like Nova AI, you need to configure your model provider's API key in Supabase Edge Function Secrets.",
+    spoken: "I need an API key to provide intelligent responses. Please configure your API key to continue.",
+    steps: [
+      "Go to your Supabase project dashboard",
+      "Navigate to Edge Functions → Secrets",
+      "Add secret: OPENAI_API_KEY (or ANTHROPIC_API_KEY when LLM_PROVIDER is anthropic)",
+      "Refresh this page after adding the key",
+    ],
+    link: { label: "Get an OpenAI API key", href: "https://platform.openai.com/api-keys" },
+  },
+  CONFIG_INVALID: {
+    title: "Model provider misconfigured",
+    description: "The chat function's provider settings are incomplete or unknown.",
+    spoken: "I'm not set up correctly yet. Please check the assistant's configuration.",
+    steps: [
+      "Check LLM_PROVIDER is one of openai, anthropic, openai-compatible or mock",
+      "For openai-compatible, set both LLM_BASE_URL and LLM_MODEL",
+    ],
+  },
+  UPSTREAM_RATE_LIMITED: {
+    title: "Too many requests",
+    description: "The AI provider is rate limiting requests right now. Wait a few seconds before asking again.",
+    spoken: "I'm getting a lot of requests right now. Please try again in a moment.",
+  },
+  UPSTREAM_TIMEOUT: {
+    title: "The AI took too long",
+    description: "The AI provider didn't answer in time. Try again, or ask for a shorter answer.",
+    spoken: "That took too long to answer. Please try again.",
+  },
+  UPSTREAM_ERROR: {
+    title: "AI service unavailable",
+    description: "Nova couldn't reach the AI provider. Check your connection and try again shortly.",
+    spoken: "I'm having trouble reaching my AI service right now. Please try again shortly.",
+  },
+  EMPTY_RESPONSE: {
+    title: "No answer received",
+    description: "The AI provider returned an empty reply. Try rephrasing your question.",
+    spoken: "I didn't get an answer for that one. Could you rephrase it?",
+  },
+  CONTENT_BLOCKED: {
+    title: "Request declined",
+    description: "The AI provider's safety filter declined this request. Try asking in a different way.",
+    spoken: "I'm not able to help with that request.",
+  },
+  INTERNAL: {
+    title: "Something went wrong",
+    description: "Nova hit an unexpected error. Please try again.",
+    spoken: "I'm sorry, I encountered an error processing your request.",
+  },
+};
+
+// Turns whatever `supabase.functions.invoke` or the chat stream reported into a typed ChatError
+export const readChatError = async (error: unknown): Promise<ChatError> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (isChatErrorCode(body?.error?.code)) {
+        return new ChatError(body.error.code, body.error.message);
+      }
+    } catch {
+      // Not our envelope (e.g. a gateway error page); fall through
+    }
+    return new ChatError('UPSTREAM_ERROR', error.message);
+  }
+
+  if (error instanceof FunctionsFetchError || error instanceof FunctionsRelayError) {
+    return new ChatError('UPSTREAM_ERROR', error.message);
+  }
+
+  return toChatError(error);
+};
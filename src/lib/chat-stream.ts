@@ -0,0 +1,48 @@
+import type { ChatErrorPayload } from '@shared/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool'; invocation: ToolInvocation }
+  | { type: 'done'; response: string; conversationId?: string; language?: LanguageCode; tools?: ToolInvocation[] }
+  | { type: 'error'; error: ChatErrorPayload };
+
+// Reads the server-sent events emitted by the `chat` edge function when `stream: true`.
+// Aborting `signal` hangs up on the function, which ends the iteration early.
+export async function* readChatStream(response: Response, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const reader = response.body.getReader();
+  const hangUp = () => {
+    reader.cancel();
+  };
+  signal?.addEventListener('abort', hangUp);
+  if (signal?.aborted) hangUp();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const event of events) {
+        const data = event
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('\n');
+
+        if (data) {
+          yield JSON.parse(data) as ChatStreamEvent;
+        }
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', hangUp);
+    await reader.cancel();
+  }
+}
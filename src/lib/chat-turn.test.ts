@@ -0,0 +1,80 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { askChat, startTurn, type ChatInvokeResult } from './chat-turn.ts';
+import { createConversationStore } from './conversation-store.ts';
+
+const streamed = (events: unknown[]) =>
+  new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(''));
+
+// A stand-in for the `chat` function that records each request and answers with the next scripted result
+const createChat = (results: ChatInvokeResult['data'][]) => {
+  const requests: Record<string, unknown>[] = [];
+  const invoke = (body: Record<string, unknown>) => {
+    requests.push(body);
+    return Promise.resolve({ data: results[requests.length - 1], error: null });
+  };
+  return { requests, invoke };
+};
+
+Deno.test('a send callback made before the earlier turns still sends their history', async () => {
+  const store = createConversationStore();
+  const chat = createChat([
+    streamed([
+      { type: 'delta', content: 'William ' },
+      { type: 'delta', content: 'Shakespeare.' },
+      { type: 'done', response: 'William Shakespeare.', conversationId: 'conversation-1' },
+    ]),
+    { response: 'In 1564.', conversationId: 'conversation-1' },
+    { response: 'In Stratford-upon-Avon.', conversationId: 'conversation-1' },
+  ]);
+
+  // Captured once, like a recognizer callback wired up on the first render, and never recreated
+  const send = (question: string) =>
+    askChat(store, {
+      assistantMessageId: startTurn(store, question),
+      question,
+      request: { language: 'en' },
+      signal: new AbortController().signal,
+      invoke: chat.invoke,
+      speak: () => {},
+    });
+
+  await send('Who wrote Hamlet?');
+  await send('When was he born?');
+  await send('Where?');
+
+  assertEquals(chat.requests[0].conversationHistory, []);
+  assertEquals(chat.requests[2].message, 'Where?');
+  assertEquals(chat.requests[2].conversationId, 'conversation-1');
+  assertEquals(chat.requests[2].language, 'en');
+  assertEquals(chat.requests[2].conversationHistory, [
+    { role: 'user', content: 'Who wrote Hamlet?' },
+    { role: 'assistant', content: 'William Shakespeare.' },
+    { role: 'user', content: 'When was he born?' },
+    { role: 'assistant', content: 'In 1564.' },
+  ]);
+});
+
+Deno.test('a failed turn is answered with the fallback line and left out of the next request', async () => {
+  const store = createConversationStore();
+  const chat = createChat([
+    streamed([{ type: 'error', error: { code: 'UPSTREAM_TIMEOUT', message: 'The model took too long' } }]),
+    { response: 'Hello!' },
+  ]);
+  const spoken: string[] = [];
+  const send = (question: string) =>
+    askChat(store, {
+      assistantMessageId: startTurn(store, question),
+      question,
+      request: {},
+      signal: new AbortController().signal,
+      invoke: chat.invoke,
+      speak: (sentence) => spoken.push(sentence),
+    });
+
+  await send('What is the weather?');
+  await send('Hi');
+
+  assertEquals(store.getState().messages[1].status, 'error');
+  assertEquals(spoken.length, 2);
+  assertEquals(chat.requests[1].conversationHistory, []);
+});
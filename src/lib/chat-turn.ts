@@ -0,0 +1,133 @@
+import { chatErrorGuidance, readChatError } from '@/lib/chat-errors';
+import { readChatStream } from '@/lib/chat-stream';
+import { getChatHistory, type ConversationStore } from '@/lib/conversation-store';
+import type { SpokenOrigin } from '@/lib/reading-position';
+import { createSpeechScriptBuffer } from '@/lib/speech-script';
+import { ChatError } from '@shared/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+// What the `chat` function answers with: an event stream, or the whole reply when not streaming
+export interface ChatInvokeResult {
+  data: Response | { response: string; conversationId?: string; tools?: ToolInvocation[] } | null;
+  error: unknown;
+}
+
+// Calls the `chat` function with a request body; in the app, `supabase.functions.invoke('chat', { body })`
+export type InvokeChat = (body: Record<string, unknown>) => Promise<ChatInvokeResult>;
+
+export interface ChatTurnOptions {
+  // The pending reply `startTurn` added
+  assistantMessageId: string;
+  question: string;
+  // Sent along with the question and the history: reply language, client context, skills
+  request: Record<string, unknown>;
+  signal: AbortSignal;
+  invoke: InvokeChat;
+  // Reads out a sentence of the reply's speech script, or the fallback line on errors
+  speak: (sentence: string, origin?: SpokenOrigin) => void;
+}
+
+// Adds the question and an empty, pending reply to the conversation, and returns the reply's id
+export const startTurn = (store: ConversationStore, question: string, language?: LanguageCode) => {
+  const userMessageId = crypto.randomUUID();
+  const assistantMessageId = crypto.randomUUID();
+  store.dispatch({ type: 'USER_MESSAGE', id: userMessageId, content: question });
+  store.dispatch({ type: 'ASSISTANT_START', id: assistantMessageId, replyTo: userMessageId, language });
+  return assistantMessageId;
+};
+
+// Asks the `chat` function the question of a started turn and fills in the reply as it streams in. History is
+// read from the store here, when the question is asked, so follow-ups carry their context even when sent from a
+// callback created before the earlier turns. Failures end the turn with a spoken fallback line; an aborted
+// `signal` ends it silently.
+export const askChat = async (
+  store: ConversationStore,
+  { assistantMessageId, question, request, signal, invoke, speak }: ChatTurnOptions,
+) => {
+  const { conversationId } = store.getState();
+  // The turn just started is still pending, so it isn't part of its own history
+  const conversationHistory = getChatHistory(store.getState());
+  // Replies to a conversation the user has since switched away from are dropped
+  const isCurrentTurn = () => store.getState().messages.some((entry) => entry.id === assistantMessageId);
+
+  try {
+    const { data, error: invokeError } = await invoke({
+      message: question,
+      conversationHistory,
+      conversationId,
+      ...request,
+      stream: true,
+    });
+
+    if (signal.aborted) {
+      // Interrupted while waiting for the first token: hang up without reading anything
+      if (data instanceof Response) {
+        await data.body?.cancel();
+      }
+      return;
+    }
+
+    if (invokeError || !data) {
+      throw invokeError ?? new ChatError('EMPTY_RESPONSE', 'The chat function sent no reply');
+    }
+
+    let responseText = '';
+    let recordedConversationId: string | undefined;
+    // Replies are markdown; only a cleaned-up script of them is read out
+    const sentences = createSpeechScriptBuffer((sentence, source) =>
+      speak(
+        sentence,
+        source ? { messageId: assistantMessageId, source, markdown: responseText.slice(source.start, source.end) } : undefined
+      )
+    );
+
+    if (data instanceof Response) {
+      // Render tokens as they arrive and speak each sentence once it is complete
+      for await (const event of readChatStream(data, signal)) {
+        if (event.type === 'delta') {
+          responseText += event.content;
+          store.dispatch({ type: 'ASSISTANT_DELTA', id: assistantMessageId, content: event.content });
+          sentences.push(event.content);
+        } else if (event.type === 'tool') {
+          store.dispatch({ type: 'ASSISTANT_TOOL', id: assistantMessageId, invocation: event.invocation });
+        } else if (event.type === 'done') {
+          recordedConversationId = event.conversationId;
+        } else if (event.type === 'error') {
+          throw new ChatError(event.error.code, event.error.message);
+        }
+      }
+
+      if (signal.aborted) return;
+      sentences.flush();
+    } else {
+      responseText = data.response;
+      recordedConversationId = data.conversationId;
+      for (const invocation of data.tools ?? []) {
+        store.dispatch({ type: 'ASSISTANT_TOOL', id: assistantMessageId, invocation });
+      }
+      sentences.push(responseText);
+      sentences.flush();
+    }
+
+    if (recordedConversationId && isCurrentTurn()) {
+      store.dispatch({ type: 'CONVERSATION_ASSIGNED', conversationId: recordedConversationId });
+    }
+    store.dispatch({ type: 'ASSISTANT_COMPLETE', id: assistantMessageId, content: responseText });
+  } catch (caught) {
+    if (signal.aborted) return;
+
+    console.error('Error processing command:', caught);
+    // Failures before the stream opens arrive as a non-2xx JSON envelope
+    const chatFailure = await readChatError(caught);
+    const errorResponse = chatErrorGuidance[chatFailure.code].spoken;
+
+    store.dispatch({
+      type: 'ASSISTANT_FAILED',
+      id: assistantMessageId,
+      content: errorResponse,
+      error: chatFailure.toPayload(),
+    });
+    speak(errorResponse);
+  }
+};
@@ -0,0 +1,51 @@
+import type { ClientContext } from '@shared/client-context';
+
+type Location = NonNullable<ClientContext['location']>;
+
+// A position is only looked up again once the last one is this old
+const LOCATION_MAX_AGE_MS = 30 * 60 * 1000;
+const LOCATION_TIMEOUT_MS = 10_000;
+
+let lastLocation: { location: Location; fetchedAt: number } | null = null;
+let pendingLocation: Promise<Location | null> | null = null;
+
+// One decimal place is about 10 km: enough for the weather or the nearest city, not enough to find a house
+const roundCoordinate = (value: number) => Math.round(value * 10) / 10;
+
+// Asks the browser for the device position (prompting for permission the first time) and remembers a rounded
+// copy for later requests. Resolves to null when geolocation is unavailable or the user declines.
+export const requestLocation = (): Promise<Location | null> => {
+  if (!('geolocation' in navigator)) return Promise.resolve(null);
+  if (pendingLocation) return pendingLocation;
+
+  pendingLocation = new Promise<Location | null>((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const location = { latitude: roundCoordinate(coords.latitude), longitude: roundCoordinate(coords.longitude) };
+        lastLocation = { location, fetchedAt: Date.now() };
+        resolve(location);
+      },
+      () => resolve(null),
+      { enableHighAccuracy: false, maximumAge: LOCATION_MAX_AGE_MS, timeout: LOCATION_TIMEOUT_MS },
+    );
+  }).finally(() => {
+    pendingLocation = null;
+  });
+  return pendingLocation;
+};
+
+// The `context` sent with each chat request. The location is never waited for: a stale or missing one is
+// refreshed in the background, and the request goes out with whatever is known now.
+export const getClientContext = (shareLocation = false): ClientContext => {
+  const context: ClientContext = {
+    localTime: new Date().toISOString(),
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    locale: navigator.language,
+  };
+  if (!shareLocation) return context;
+
+  if (!lastLocation || Date.now() - lastLocation.fetchedAt > LOCATION_MAX_AGE_MS) {
+    void requestLocation();
+  }
+  return lastLocation ? { ...context, location: lastLocation.location } : context;
+};
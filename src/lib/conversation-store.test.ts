@@ -0,0 +1,120 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import {
+  conversationReducer,
+  getChatHistory,
+  initialConversationState,
+  type ConversationAction,
+  type ConversationState,
+} from './conversation-store.ts';
+
+const apply = (actions: ConversationAction[], state: ConversationState = initialConversationState) =>
+  actions.reduce(conversationReducer, state);
+
+// The actions `send` dispatches for one question and its answer
+const turn = (n: number, question: string, answer: string): ConversationAction[] => [
+  { type: 'USER_MESSAGE', id: `user-${n}`, content: question },
+  { type: 'ASSISTANT_START', id: `assistant-${n}`, replyTo: `user-${n}` },
+  { type: 'ASSISTANT_DELTA', id: `assistant-${n}`, content: answer },
+  { type: 'ASSISTANT_COMPLETE', id: `assistant-${n}`, content: answer },
+];
+
+Deno.test('a follow-up question carries the earlier question and answer', () => {
+  const afterFirst = apply(turn(1, 'Who wrote Hamlet?', 'William Shakespeare.'));
+  const historyForSecond = getChatHistory(afterFirst);
+
+  assertEquals(historyForSecond, [
+    { role: 'user', content: 'Who wrote Hamlet?' },
+    { role: 'assistant', content: 'William Shakespeare.' },
+  ]);
+
+  const afterSecond = apply(turn(2, 'When was he born?', 'In 1564.'), afterFirst);
+  assertEquals(getChatHistory(afterSecond).length, 4);
+  assertEquals(getChatHistory(afterSecond).at(-2), { role: 'user', content: 'When was he born?' });
+});
+
+Deno.test('a turn in flight is left out of the history', () => {
+  const state = apply([
+    ...turn(1, 'Hi', 'Hello!'),
+    { type: 'USER_MESSAGE', id: 'user-2', content: 'Tell me a story' },
+    { type: 'ASSISTANT_START', id: 'assistant-2', replyTo: 'user-2' },
+    { type: 'ASSISTANT_DELTA', id: 'assistant-2', content: 'Once upon' },
+  ]);
+
+  assertEquals(state.isProcessing, true);
+  assertEquals(getChatHistory(state), [
+    { role: 'user', content: 'Hi' },
+    { role: 'assistant', content: 'Hello!' },
+  ]);
+});
+
+Deno.test('an interrupted reply keeps what was heard as context', () => {
+  const state = apply([
+    { type: 'USER_MESSAGE', id: 'user-1', content: 'Tell me a story' },
+    { type: 'ASSISTANT_START', id: 'assistant-1', replyTo: 'user-1' },
+    { type: 'ASSISTANT_DELTA', id: 'assistant-1', content: 'Once upon a time' },
+    { type: 'ASSISTANT_INTERRUPTED', id: 'assistant-1' },
+  ]);
+
+  assertEquals(state.isProcessing, false);
+  assertEquals(state.messages.map((message) => message.status), ['complete', 'interrupted']);
+  assertEquals(getChatHistory(state), [
+    { role: 'user', content: 'Tell me a story' },
+    { role: 'assistant', content: 'Once upon a time' },
+  ]);
+});
+
+Deno.test('a reply interrupted before any text arrived leaves only the question', () => {
+  const state = apply([
+    { type: 'USER_MESSAGE', id: 'user-1', content: 'Tell me a story' },
+    { type: 'ASSISTANT_START', id: 'assistant-1', replyTo: 'user-1' },
+    { type: 'ASSISTANT_INTERRUPTED', id: 'assistant-1' },
+  ]);
+
+  assertEquals(getChatHistory(state), [{ role: 'user', content: 'Tell me a story' }]);
+});
+
+Deno.test('a failed turn never reaches the model as context', () => {
+  const error = { code: 'UPSTREAM_ERROR', message: 'The model is unavailable' } as const;
+  const state = apply([
+    ...turn(1, 'Hi', 'Hello!'),
+    { type: 'USER_MESSAGE', id: 'user-2', content: 'What is the weather?' },
+    { type: 'ASSISTANT_START', id: 'assistant-2', replyTo: 'user-2' },
+    { type: 'ASSISTANT_FAILED', id: 'assistant-2', content: 'Sorry, something went wrong.', error },
+  ]);
+
+  assertEquals(state.error, error);
+  assertEquals(state.messages.map((message) => message.status), ['complete', 'complete', 'error', 'error']);
+  assertEquals(getChatHistory(state), [
+    { role: 'user', content: 'Hi' },
+    { role: 'assistant', content: 'Hello!' },
+  ]);
+});
+
+Deno.test('a finished reply cannot be interrupted twice, nor a failed one at all', () => {
+  const interrupted = apply([
+    { type: 'USER_MESSAGE', id: 'user-1', content: 'Hi' },
+    { type: 'ASSISTANT_START', id: 'assistant-1', replyTo: 'user-1' },
+    { type: 'ASSISTANT_DELTA', id: 'assistant-1', content: 'Hel' },
+    { type: 'ASSISTANT_INTERRUPTED', id: 'assistant-1' },
+  ]);
+  assertEquals(conversationReducer(interrupted, { type: 'ASSISTANT_INTERRUPTED', id: 'assistant-1' }), interrupted);
+
+  const failed = apply([
+    { type: 'USER_MESSAGE', id: 'user-1', content: 'Hi' },
+    { type: 'ASSISTANT_START', id: 'assistant-1', replyTo: 'user-1' },
+    {
+      type: 'ASSISTANT_FAILED',
+      id: 'assistant-1',
+      content: 'Sorry.',
+      error: { code: 'UPSTREAM_ERROR', message: 'Unavailable' },
+    },
+  ]);
+  assertEquals(conversationReducer(failed, { type: 'ASSISTANT_INTERRUPTED', id: 'assistant-1' }), failed);
+});
+
+Deno.test('starting over clears the history', () => {
+  const state = apply([...turn(1, 'Hi', 'Hello!'), { type: 'RESET' }]);
+
+  assertEquals(getChatHistory(state), []);
+  assertEquals(state.conversationId, null);
+});
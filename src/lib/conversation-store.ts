@@ -0,0 +1,165 @@
+import type { ChatErrorPayload } from '@shared/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+export type ConversationRole = 'user' | 'assistant';
+
+// `interrupted`: an assistant reply the user talked over or stopped before it finished
+export type ConversationMessageStatus = 'pending' | 'complete' | 'interrupted' | 'error';
+
+export interface ConversationMessage {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  status: ConversationMessageStatus;
+  // For assistant messages, the user message being answered
+  replyTo?: string;
+  // For assistant messages, the language the reply was requested in, when known
+  language?: LanguageCode;
+  // For assistant messages, the tools the model called while answering
+  tools?: ToolInvocation[];
+}
+
+export interface ConversationState {
+  // Server-side id once the `chat` function has recorded a turn; null for a fresh conversation
+  conversationId: string | null;
+  messages: ConversationMessage[];
+  isProcessing: boolean;
+  error: ChatErrorPayload | null;
+}
+
+export type ConversationAction =
+  | { type: 'USER_MESSAGE'; id: string; content: string }
+  | { type: 'ASSISTANT_START'; id: string; replyTo: string; language?: LanguageCode }
+  | { type: 'ASSISTANT_DELTA'; id: string; content: string }
+  | { type: 'ASSISTANT_TOOL'; id: string; invocation: ToolInvocation }
+  | { type: 'ASSISTANT_COMPLETE'; id: string; content: string }
+  | { type: 'ASSISTANT_FAILED'; id: string; content: string; error: ChatErrorPayload }
+  | { type: 'ASSISTANT_INTERRUPTED'; id: string }
+  | { type: 'CONVERSATION_ASSIGNED'; conversationId: string }
+  | { type: 'RESET'; conversationId?: string | null; messages?: ConversationMessage[] };
+
+export interface ChatHistoryMessage {
+  role: ConversationRole;
+  content: string;
+}
+
+export const initialConversationState: ConversationState = {
+  conversationId: null,
+  messages: [],
+  isProcessing: false,
+  error: null,
+};
+
+const updateMessage = (
+  state: ConversationState,
+  id: string,
+  update: (message: ConversationMessage) => Partial<ConversationMessage>,
+): ConversationState => ({
+  ...state,
+  messages: state.messages.map((message) => (message.id === id ? { ...message, ...update(message) } : message)),
+});
+
+export const conversationReducer = (state: ConversationState, action: ConversationAction): ConversationState => {
+  switch (action.type) {
+    case 'USER_MESSAGE':
+      return {
+        ...state,
+        error: null,
+        messages: [...state.messages, { id: action.id, role: 'user', content: action.content, status: 'pending' }],
+      };
+
+    case 'ASSISTANT_START':
+      return {
+        ...state,
+        isProcessing: true,
+        messages: [
+          ...state.messages,
+          {
+            id: action.id,
+            role: 'assistant',
+            content: '',
+            status: 'pending',
+            replyTo: action.replyTo,
+            ...(action.language && { language: action.language }),
+          },
+        ],
+      };
+
+    case 'ASSISTANT_DELTA':
+      return updateMessage(state, action.id, (message) => ({ content: message.content + action.content }));
+
+    case 'ASSISTANT_TOOL':
+      return updateMessage(state, action.id, (message) => ({ tools: [...(message.tools ?? []), action.invocation] }));
+
+    case 'ASSISTANT_COMPLETE':
+    case 'ASSISTANT_FAILED': {
+      const status = action.type === 'ASSISTANT_COMPLETE' ? 'complete' : 'error';
+      const replyTo = state.messages.find((message) => message.id === action.id)?.replyTo;
+      const answered = updateMessage(state, action.id, () => ({ content: action.content, status }));
+
+      const settled = {
+        ...answered,
+        isProcessing: false,
+        error: action.type === 'ASSISTANT_FAILED' ? action.error : null,
+      };
+
+      // The question shares its answer's fate, so failed turns never reach the model as context
+      return replyTo ? updateMessage(settled, replyTo, () => ({ status })) : settled;
+    }
+
+    case 'ASSISTANT_INTERRUPTED': {
+      const interrupted = state.messages.find((message) => message.id === action.id);
+      if (!interrupted || (interrupted.status !== 'pending' && interrupted.status !== 'complete')) return state;
+
+      // Keep whatever had streamed in; the question itself was answered as far as the user cared to hear
+      const settled = updateMessage({ ...state, isProcessing: false }, action.id, () => ({ status: 'interrupted' }));
+      return interrupted.replyTo ? updateMessage(settled, interrupted.replyTo, () => ({ status: 'complete' })) : settled;
+    }
+
+    case 'CONVERSATION_ASSIGNED':
+      return { ...state, conversationId: action.conversationId };
+
+    case 'RESET':
+      return {
+        ...initialConversationState,
+        conversationId: action.conversationId ?? null,
+        messages: action.messages ?? [],
+      };
+
+    default:
+      return state;
+  }
+};
+
+// Completed (or partly heard) turns only, in the shape the `chat` function expects
+export const getChatHistory = (state: ConversationState): ChatHistoryMessage[] =>
+  state.messages
+    .filter((message) => message.status === 'complete' || (message.status === 'interrupted' && message.content))
+    .map(({ role, content }) => ({ role, content }));
+
+export interface ConversationStore {
+  getState: () => ConversationState;
+  dispatch: (action: ConversationAction) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// A tiny external store: reads are always current, even from callbacks wired up on the first render
+export const createConversationStore = (initialState = initialConversationState): ConversationStore => {
+  let state = initialState;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    dispatch(action) {
+      state = conversationReducer(state, action);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
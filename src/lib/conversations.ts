@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ConversationMessage } from '@/lib/conversation-store';
+
+export interface StoredConversation {
+  id: string;
+  messages: ConversationMessage[];
+}
+
+// Conversations are owned by a Supabase auth user; visitors who haven't signed in get an anonymous one
+export const ensureSession = async () => {
+  const { data } = await supabase.auth.getSession();
+  if (data.session) return data.session;
+
+  const { data: signInData, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  return signInData.session;
+};
+
+export const fetchConversation = async (conversationId: string): Promise<StoredConversation> => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, role, content, interrupted')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return {
+    id: conversationId,
+    messages: data.map((row) => ({
+      id: row.id,
+      role: row.role,
+      content: row.content,
+      status: row.interrupted ? 'interrupted' : 'complete',
+    })),
+  };
+};
+
+// The conversation the user last talked in, or null for first-time visitors
+export const fetchLatestConversation = async (): Promise<StoredConversation | null> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? fetchConversation(data.id) : null;
+};
+
+export interface ConversationSummary {
+  id: string;
+  title: string | null;
+  updatedAt: string;
+  // Best-matching message excerpt, only present for search results
+  snippet?: string | null;
+}
+
+export const listConversations = async (): Promise<ConversationSummary[]> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, title, updated_at')
+    .order('updated_at', { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return data.map((row) => ({ id: row.id, title: row.title, updatedAt: row.updated_at }));
+};
+
+// Full-text search over titles and message content, see the `search_conversations` SQL function
+export const searchConversations = async (query: string): Promise<ConversationSummary[]> => {
+  const { data, error } = await supabase.rpc('search_conversations', { search_query: query });
+
+  if (error) throw error;
+  return data.map((row) => ({ id: row.id, title: row.title, updatedAt: row.updated_at, snippet: row.snippet }));
+};
+
+export const renameConversation = async (conversationId: string, title: string) => {
+  const { error } = await supabase.from('conversations').update({ title }).eq('id', conversationId);
+  if (error) throw error;
+};
+
+export const deleteConversation = async (conversationId: string) => {
+  const { error } = await supabase.from('conversations').delete().eq('id', conversationId);
+  if (error) throw error;
+};
@@ -0,0 +1,40 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { isSamePhrase, matchCustomCommand, type CustomCommand } from './custom-commands.ts';
+
+const focus: CustomCommand = {
+  id: 'focus',
+  phrase: 'Start focus',
+  action: { type: 'timer', minutes: 25, label: 'focus' },
+};
+const summarize: CustomCommand = {
+  id: 'summarize',
+  phrase: 'summarize',
+  action: { type: 'prompt', template: 'Summarize {input} in three bullet points' },
+};
+
+Deno.test('matches the phrase with the words around a command left out', () => {
+  const utterances = ['start focus', 'Start focus.', 'Hey Nova, start focus', 'can you start focus', 'start focus, please'];
+  for (const utterance of utterances) {
+    assertEquals(matchCustomCommand([focus], utterance)?.command.id, 'focus', utterance);
+  }
+});
+
+Deno.test('every phrase rejected as a duplicate also triggers the command', () => {
+  const phrases = ['can you start focus', 'Please start focus!', 'Nova, start focus please', 'could you START   focus'];
+  for (const phrase of phrases) {
+    assertEquals(isSamePhrase(phrase, focus.phrase), true, phrase);
+    assertEquals(matchCustomCommand([focus], phrase)?.command.id, 'focus', phrase);
+  }
+});
+
+Deno.test('passes on what was said after the phrase to commands that take it', () => {
+  assertEquals(matchCustomCommand([summarize], 'Could you summarize the Apollo program, please?'), {
+    command: summarize,
+    input: 'the Apollo program',
+  });
+});
+
+Deno.test('commands without input only match the phrase on its own', () => {
+  assertEquals(matchCustomCommand([focus], 'start focus mode'), null);
+  assertEquals(matchCustomCommand([focus], 'restart focus'), null);
+});
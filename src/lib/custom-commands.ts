@@ -0,0 +1,103 @@
+import { stripCommandWords, toCommand } from '@/lib/intents/registry';
+
+// What a custom command does. Prompt templates may contain `{input}`, which is replaced by whatever was said
+// after the phrase ("summarize {input}").
+export type CustomCommandAction =
+  | { type: 'open_url'; url: string }
+  | { type: 'webhook'; url: string }
+  | { type: 'prompt'; template: string }
+  | { type: 'timer'; minutes: number; label: string };
+
+export type CustomCommandActionType = CustomCommandAction['type'];
+
+// A user's own shortcut: saying `phrase` runs `action` instead of asking the model
+export interface CustomCommand {
+  id: string;
+  phrase: string;
+  action: CustomCommandAction;
+}
+
+export const INPUT_PLACEHOLDER = '{input}';
+
+const STORAGE_KEY = 'nova.customCommands';
+
+// Only web pages and webhooks; `javascript:` and other schemes are refused
+export const isWebUrl = (text: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(text).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isAction = (value: unknown): value is CustomCommandAction => {
+  const action = value as Record<string, unknown> | null;
+  if (!action) return false;
+  switch (action.type) {
+    case 'open_url':
+    case 'webhook':
+      return typeof action.url === 'string' && isWebUrl(action.url);
+    case 'prompt':
+      return typeof action.template === 'string';
+    case 'timer':
+      return typeof action.minutes === 'number' && typeof action.label === 'string';
+    default:
+      return false;
+  }
+};
+
+const isCustomCommand = (value: unknown): value is CustomCommand => {
+  const command = value as Partial<CustomCommand> | null;
+  return !!command && typeof command.id === 'string' && typeof command.phrase === 'string' && isAction(command.action);
+};
+
+export const loadCustomCommands = (): CustomCommand[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isCustomCommand) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomCommands = (commands: CustomCommand[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(commands));
+  } catch (storageError) {
+    console.error('Error saving custom commands:', storageError);
+  }
+};
+
+// Webhooks get the rest of the utterance; prompts only when their template has somewhere to put it
+export const takesInput = (action: CustomCommandAction) =>
+  action.type === 'webhook' || (action.type === 'prompt' && action.template.includes(INPUT_PLACEHOLDER));
+
+// Two phrases that would be heard as the same command
+export const isSamePhrase = (a: string, b: string) => toCommand(a) === toCommand(b);
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface CustomCommandMatch {
+  command: CustomCommand;
+  // What was said after the phrase, as said
+  input: string;
+}
+
+// The command whose phrase was said, ignoring case, punctuation and the words `isSamePhrase` ignores, like a
+// leading "Hey Nova, can you". Commands that take input also match when more words follow the phrase.
+export const matchCustomCommand = (commands: CustomCommand[], utterance: string): CustomCommandMatch | null => {
+  const said = stripCommandWords(utterance);
+  for (const command of commands) {
+    const words = toCommand(command.phrase).split(' ').filter(Boolean);
+    if (!words.length) continue;
+
+    const pattern = new RegExp(`^${words.map(escapeRegExp).join('\\s+')}(?:[\\s,:]+(.+))?$`, 'i');
+    const match = pattern.exec(said);
+    if (!match) continue;
+
+    const input = match[1]?.trim() ?? '';
+    if (input && !takesInput(command.action)) continue;
+    return { command, input };
+  }
+  return null;
+};
@@ -0,0 +1,20 @@
+import { solveMathQuestion, type Calculation } from '@shared/calculator';
+import type { Intent } from './types';
+
+// Arithmetic, percentages and unit and currency conversions ("what's 17.5 percent of 2,340", "5 km in miles"),
+// with the same exact engine the `calculate` tool uses
+const calculate: Intent<Calculation> = {
+  name: 'calculate',
+  description: 'Calculations and conversions: "what\'s 17.5 percent of 2,340", "5 km in miles"',
+  match: (utterance) => solveMathQuestion(utterance),
+  handle: (calculation) => {
+    const note = calculation.note ? `\n\n_${calculation.note}._` : '';
+    return {
+      content: `\`${calculation.expression}\` = **${calculation.display}**${note}`,
+      spoken: `That's ${calculation.spoken}.`,
+      result: calculation,
+    };
+  },
+};
+
+export const calculatorIntents: Intent[] = [calculate];
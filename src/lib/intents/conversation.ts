@@ -0,0 +1,17 @@
+import { toCommand } from './registry';
+import type { Intent } from './types';
+
+const CLEAR_HISTORY =
+  /^(?:clear(?: the| our| my| this)? (?:history|conversation|chat|chat history|conversation history)|start (?:a )?new (?:conversation|chat)|new (?:conversation|chat)|start over|forget (?:everything|this conversation))$/;
+
+const clearHistory: Intent<true> = {
+  name: 'clear_history',
+  description: '"Clear the conversation", "start over": starts a new conversation. The old one stays in the history.',
+  match: (utterance, { actions }) => (actions.clearHistory && CLEAR_HISTORY.test(toCommand(utterance)) ? true : null),
+  handle: (_, { actions }) => {
+    actions.clearHistory!();
+    return {};
+  },
+};
+
+export const conversationIntents: Intent[] = [clearHistory];
@@ -0,0 +1,68 @@
+import { INPUT_PLACEHOLDER, matchCustomCommand, type CustomCommand, type CustomCommandMatch } from '@/lib/custom-commands';
+import { confirmReminder } from '@/lib/reminders';
+import type { Intent, IntentReply } from './types';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const openUrl = (url: string): IntentReply => {
+  // Without a click to go on, browsers may block the tab
+  const tab = window.open(url, '_blank');
+  if (!tab) {
+    return { content: `Your browser blocked the new tab for ${url}. Allow pop-ups for this site to open links by voice.` };
+  }
+  tab.opener = null;
+  return { spoken: `Opening ${new URL(url).hostname}.`, result: { url } };
+};
+
+const callWebhook = async (url: string, body: Record<string, string>): Promise<IntentReply> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      return { content: `The webhook answered ${response.status}.`, result: { status: response.status } };
+    }
+    return { spoken: 'Done.', result: { status: response.status } };
+  } catch (error) {
+    // Network failures, time-outs, and webhooks that don't allow requests from this site all end up here
+    console.error('Error calling webhook:', error);
+    return { content: `I couldn't reach the webhook at ${new URL(url).hostname}.` };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// The user's own shortcuts, set up in Settings. Tried before every other intent, so a phrase the user chose
+// always does what they set it up to do.
+export const customCommandIntent = (commands: CustomCommand[]): Intent<CustomCommandMatch> => ({
+  name: 'custom_command',
+  description: 'Shortcuts the user set up in Settings',
+  match: (utterance) => matchCustomCommand(commands, utterance),
+  handle: ({ command: { phrase, action }, input }, { now, actions }) => {
+    switch (action.type) {
+      case 'open_url':
+        return openUrl(action.url);
+      case 'webhook':
+        return callWebhook(action.url, { phrase, input, sentAt: now.toISOString() });
+      case 'prompt':
+        // Said without input, the placeholder's spaces close up
+        return {
+          prompt: action.template.split(INPUT_PLACEHOLDER).join(input).replace(/ {2,}/g, ' ').trim(),
+          result: { phrase },
+        };
+      case 'timer': {
+        if (!actions.reminders) {
+          return { content: "Timers aren't available here." };
+        }
+        const draft = { kind: 'timer' as const, label: action.label, dueAt: now.getTime() + action.minutes * 60_000 };
+        const reminder = actions.reminders.addReminder(draft);
+        return { content: confirmReminder(draft, reminder.createdAt), result: reminder };
+      }
+    }
+  },
+});
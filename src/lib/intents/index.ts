@@ -0,0 +1,23 @@
+import { calculatorIntents } from './calculator';
+import { conversationIntents } from './conversation';
+import { playbackIntents } from './playback';
+import { reminderIntents } from './reminders';
+import { timeIntents } from './time';
+import type { Intent } from './types';
+import { volumeIntents } from './volume';
+
+export { customCommandIntent } from './custom-commands';
+export { createIntentRouter, toCommand, type IntentRouter, type RoutedIntent } from './registry';
+export type { Intent, IntentActions, IntentContext, IntentReply } from './types';
+
+// Commands handled in the browser before anything goes to the `chat` function, so they answer at once and
+// work offline. Tried in this order, before the intents of any skills the user has turned on; each one lives in
+// its own module in this directory.
+export const builtInIntents: Intent[] = [
+  ...playbackIntents,
+  ...volumeIntents,
+  ...conversationIntents,
+  ...reminderIntents,
+  ...timeIntents,
+  ...calculatorIntents,
+];
@@ -0,0 +1,32 @@
+import { toCommand } from './registry';
+import type { Intent } from './types';
+
+const STOP =
+  /^(?:stop(?: (?:it|that|talking|speaking|reading|ringing|the alarm|the timer|the reminder))?|be quiet|quiet|shut up|silence|enough|that's enough|cancel|never ?mind|dismiss(?: it| the alarm| the timer| the reminder)?|(?:turn|switch) off the (?:alarm|timer))$/;
+const REPEAT =
+  /^(?:repeat(?: that| it| yourself| the answer| your answer| the last answer)?|say (?:that|it) again|(?:sorry )?what did you (?:just )?say|come again|pardon|(?:sorry )?i didn't (?:catch|hear) that)$/;
+
+const stop: Intent<true> = {
+  name: 'stop',
+  description: '"Stop", "be quiet": stops the reply being read out and silences ringing timers, alarms and reminders',
+  match: (utterance) => (STOP.test(toCommand(utterance)) ? true : null),
+  handle: (_, { actions }) => {
+    // A reply that has finished being read out stays as it was
+    const speechCutOff = actions.stopSpeaking?.() ?? false;
+    actions.interrupt?.(speechCutOff);
+
+    const ringing = actions.reminders?.reminders.filter((reminder) => reminder.firedAt) ?? [];
+    ringing.forEach((reminder) => actions.reminders!.dismissReminder(reminder.id));
+    return { result: { silenced: ringing.length } };
+  },
+};
+
+const repeat: Intent<true> = {
+  name: 'repeat',
+  description: '"Repeat that", "say that again": reads the latest reply out again',
+  match: (utterance, { actions }) => (actions.repeatLastReply && REPEAT.test(toCommand(utterance)) ? true : null),
+  handle: (_, { actions }) =>
+    actions.repeatLastReply!() ? {} : { spoken: "I haven't said anything yet." },
+};
+
+export const playbackIntents: Intent[] = [stop, repeat];
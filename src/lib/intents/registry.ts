@@ -0,0 +1,65 @@
+import type { ToolInvocation } from '@shared/tool-invocations';
+import type { Intent, IntentContext, IntentReply } from './types';
+
+export interface RoutedIntent {
+  reply: IntentReply;
+  invocation: ToolInvocation;
+}
+
+export interface IntentRouter {
+  intents: Intent[];
+  // Hands the utterance to the first intent that recognises it. Null means none did, and it's one for the model.
+  route(utterance: string, context: IntentContext): Promise<RoutedIntent | null>;
+}
+
+const COMMAND_PREFIX = /^(?:(?:hey |ok |okay )?nova,?\s+)?(?:please\s+)?(?:can you\s+|could you\s+)?/i;
+
+// The utterance without the words around a command that don't change it, as said: "Hey Nova, can you look up
+// Ada Lovelace please?" becomes "look up Ada Lovelace"
+export const stripCommandWords = (utterance: string) =>
+  utterance
+    .trim()
+    .replace(/[?!.,]+$/, '')
+    .replace(COMMAND_PREFIX, '')
+    .replace(/,?\s+please$/i, '');
+
+// The bare command, for intents that match whole phrases: "Hey Nova, stop talking please." becomes
+// "stop talking"
+export const toCommand = (utterance: string) => stripCommandWords(utterance).toLowerCase().replace(/\s+/g, ' ');
+
+// Collects the intents tried on each utterance, in order, so more specific ones go first. Names must be
+// unique, since replies report which intent produced them.
+export const createIntentRouter = (intents: Intent[]): IntentRouter => {
+  const names = new Set<string>();
+  for (const intent of intents) {
+    if (names.has(intent.name)) {
+      throw new Error(`Duplicate intent name: ${intent.name}`);
+    }
+    names.add(intent.name);
+  }
+
+  return {
+    intents,
+    async route(utterance, context) {
+      const startedAt = performance.now();
+      for (const intent of intents) {
+        const match = intent.match(utterance, context);
+        if (match === null) continue;
+
+        const reply = await intent.handle(match, context);
+        return {
+          reply,
+          invocation: {
+            id: crypto.randomUUID(),
+            name: intent.name,
+            arguments: { utterance },
+            status: 'ok',
+            result: reply.result,
+            durationMs: Math.round(performance.now() - startedAt),
+          },
+        };
+      }
+      return null;
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import {
+  confirmReminder,
+  parseReminderCommand,
+  type ReminderDraft,
+  type ReminderKind,
+} from '@/lib/reminders';
+import { toCommand } from './registry';
+import type { Intent } from './types';
+
+const CANCEL_REMINDERS =
+  /^(?:cancel|clear|remove|delete|turn off)(?: the| my| all| all my| all the)? (timer|alarm|reminder)s?$/;
+
+const setReminder: Intent<ReminderDraft> = {
+  name: 'set_reminder',
+  description: 'Timers, alarms and reminders: "set a timer for 5 minutes", "remind me at 3pm to call Sam"',
+  match: (utterance, { now, actions }) => (actions.reminders ? parseReminderCommand(utterance, now) : null),
+  handle: (draft, { actions }) => {
+    const reminder = actions.reminders!.addReminder(draft);
+    return { content: confirmReminder(draft, reminder.createdAt), result: reminder };
+  },
+};
+
+const cancelReminders: Intent<ReminderKind> = {
+  name: 'cancel_reminders',
+  description: '"Cancel the timer", "turn off my alarms": clears every reminder of that kind',
+  match: (utterance, { actions }) =>
+    actions.reminders ? ((CANCEL_REMINDERS.exec(toCommand(utterance))?.[1] as ReminderKind | undefined) ?? null) : null,
+  handle: (kind, { actions }) => {
+    const { reminders, dismissReminder } = actions.reminders!;
+    const cancelled = reminders.filter((reminder) => reminder.kind === kind);
+    cancelled.forEach((reminder) => dismissReminder(reminder.id));
+
+    const content =
+      cancelled.length === 0
+        ? `You don't have any ${kind}s set.`
+        : cancelled.length === 1
+          ? `OK, I've cancelled your ${kind}.`
+          : `OK, I've cancelled your ${cancelled.length} ${kind}s.`;
+    return { content, result: { cancelled: cancelled.length } };
+  },
+};
+
+// Cancelling goes first: "cancel the timer" isn't a timer to set
+export const reminderIntents: Intent[] = [cancelReminders, setReminder];
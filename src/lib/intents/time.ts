@@ -0,0 +1,27 @@
+import { formatClockTime } from '@/lib/reminders';
+import { toCommand } from './registry';
+import type { Intent } from './types';
+
+const TIME_QUESTION =
+  /^(?:what(?:'s| is) the (?:current )?time|what time is it|(?:tell me |do you have )?the time)(?: now| right now)?$/;
+const DATE_QUESTION =
+  /^(?:what(?:'s| is) (?:the date|the date today|today's date|today)|what day is (?:it|today)(?: today)?|what's the day today)$/;
+
+const currentTime: Intent<true> = {
+  name: 'current_time',
+  description: '"What time is it?", read from the device clock',
+  match: (utterance) => (TIME_QUESTION.test(toCommand(utterance)) ? true : null),
+  handle: (_, { now }) => ({ content: `It's ${formatClockTime(now.getTime())}.`, result: now.toISOString() }),
+};
+
+const currentDate: Intent<true> = {
+  name: 'current_date',
+  description: '"What\'s the date?" and "what day is it?", read from the device clock',
+  match: (utterance) => (DATE_QUESTION.test(toCommand(utterance)) ? true : null),
+  handle: (_, { now }) => {
+    const date = now.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    return { content: `Today is ${date}.`, result: now.toISOString() };
+  },
+};
+
+export const timeIntents: Intent[] = [currentTime, currentDate];
@@ -0,0 +1,47 @@
+import type { RemindersContextValue } from '@/hooks/use-reminders';
+
+// What intents may do besides answer. Each one is absent where the app can't do it, and intents that
+// need it then don't match, so the utterance goes to the model instead.
+export interface IntentActions {
+  reminders?: RemindersContextValue;
+  // Speech volume from 0 to 1
+  volume?: number;
+  setVolume?: (volume: number) => void;
+  // Silences whatever is being read out; true when something was
+  stopSpeaking?: () => boolean;
+  // Stops the reply in flight, if any. With `speechCutOff`, a reply that had already arrived but was still being
+  // read out is marked interrupted too.
+  interrupt?: (speechCutOff?: boolean) => void;
+  // Reads the latest reply out again; false when there is none
+  repeatLastReply?: () => boolean;
+  // Starts a new, empty conversation
+  clearHistory?: () => void;
+}
+
+export interface IntentContext {
+  // The device's clock; intents never need a network
+  now: Date;
+  actions: IntentActions;
+}
+
+export interface IntentReply {
+  // Markdown shown as Nova's reply. Commands that only act ("stop", "volume up") leave it out, and add nothing
+  // to the conversation.
+  content?: string;
+  // What to say aloud; defaults to `content`
+  spoken?: string;
+  // Reported with the reply like a tool's result, so it's clear where the answer came from
+  result?: unknown;
+  // Asks the model this instead of what was said, as prompt templates do. Set without `content`.
+  prompt?: string;
+}
+
+// A command handled in the browser. `match` recognises the utterance and returns whatever `handle` needs, or
+// null to leave it to the next intent; `handle` only runs on a match, so it can trust what it receives. Handlers
+// that wait on something, like a webhook, may reply with a promise.
+export interface Intent<Match = unknown> {
+  name: string;
+  description: string;
+  match(utterance: string, context: IntentContext): Match | null;
+  handle(match: Match, context: IntentContext): IntentReply | Promise<IntentReply>;
+}
@@ -0,0 +1,36 @@
+import { toCommand } from './registry';
+import type { Intent } from './types';
+
+// How far "louder" and "quieter" move the volume
+const VOLUME_STEP = 0.2;
+
+const SET_VOLUME = /^(?:(?:set|turn|change|put) )?(?:the )?volume (?:to |at )?(\d{1,3})(?: ?%| percent)?$/;
+const VOLUME_UP =
+  /^(?:volume up|louder|a (?:bit|little) louder|speak up|(?:turn|crank) (?:it|the volume|the sound) up|(?:turn up|increase|raise) the (?:volume|sound))$/;
+const VOLUME_DOWN =
+  /^(?:volume down|quieter|softer|a (?:bit|little) (?:quieter|softer)|(?:turn) (?:it|the volume|the sound) down|(?:turn down|decrease|lower) the (?:volume|sound))$/;
+const VOLUME_MAX = /^(?:(?:set |turn )?(?:the )?volume (?:to )?(?:max|maximum|full)|(?:max|maximum|full) volume)$/;
+
+// The volume the command asks for, from 0 to 1
+const targetVolume = (command: string, current: number): number | null => {
+  const set = SET_VOLUME.exec(command);
+  if (set) return Number(set[1]) <= 100 ? Number(set[1]) / 100 : null;
+  if (VOLUME_MAX.test(command)) return 1;
+  if (VOLUME_UP.test(command)) return Math.min(1, current + VOLUME_STEP);
+  if (VOLUME_DOWN.test(command)) return Math.max(0, current - VOLUME_STEP);
+  return null;
+};
+
+const setVolume: Intent<number> = {
+  name: 'set_volume',
+  description: '"Louder", "volume down", "set the volume to 50%": changes the speech volume',
+  match: (utterance, { actions }) =>
+    actions.setVolume && actions.volume !== undefined ? targetVolume(toCommand(utterance), actions.volume) : null,
+  handle: (volume, { actions }) => {
+    const rounded = Math.round(volume * 100) / 100;
+    actions.setVolume!(rounded);
+    return { spoken: `Volume ${Math.round(rounded * 100)} percent.`, result: { volume: rounded } };
+  },
+};
+
+export const volumeIntents: Intent[] = [setVolume];
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { readChatError } from '@/lib/chat-errors';
+import type { ChatErrorPayload } from '@shared/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+
+// The two participants, by the half of the screen they sit on
+export type InterpreterSide = 'left' | 'right';
+
+export const otherSide = (side: InterpreterSide): InterpreterSide => (side === 'left' ? 'right' : 'left');
+
+export interface InterpreterEntry {
+  id: string;
+  speaker: InterpreterSide;
+  from: LanguageCode;
+  to: LanguageCode;
+  original: string;
+  // Null until the `translate` function answers
+  translation: string | null;
+  error: ChatErrorPayload | null;
+}
+
+interface TranslateRequest {
+  text: string;
+  from: LanguageCode;
+  to: LanguageCode;
+}
+
+// Calls the `translate` edge function; failures are rethrown as typed ChatErrors
+export const translateUtterance = async ({ text, from, to }: TranslateRequest): Promise<string> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('translate', { body: { text, from, to } });
+    if (error) throw error;
+    return data.translation;
+  } catch (caught) {
+    throw await readChatError(caught);
+  }
+};
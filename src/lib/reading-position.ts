@@ -0,0 +1,48 @@
+import type { TextRange } from '@/lib/sentence-buffer';
+
+// Where the assistant's voice is in a message: the sentence being read and, once the voice reports it,
+// the word. Both are ranges in the message's markdown.
+export interface ReadingPosition {
+  messageId: string;
+  sentence: TextRange;
+  word: TextRange | null;
+}
+
+// The part of a message that a spoken sentence was made from
+export interface SpokenOrigin {
+  messageId: string;
+  source: TextRange;
+  markdown: string;
+}
+
+const WORD = /\S+/g;
+const WORD_CHARACTERS = /[\p{L}\p{N}]+/gu;
+// How far ahead of the last matched word a spoken word is looked for. Words the script made up, like
+// "squared" for "^2", then don't drag the highlight to an unrelated later match.
+const WORD_LOOKAHEAD = 6;
+
+export const wordRanges = (text: string): TextRange[] =>
+  Array.from(text.matchAll(WORD), (match) => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+
+// The word starting at (or after) `index`, for voices that report boundaries without a length
+export const wordAt = (text: string, index: number): TextRange | null => {
+  const match = /\S+/.exec(text.slice(index));
+  return match ? { start: index + match.index, end: index + match.index + match[0].length } : null;
+};
+
+// Finds the word of `markdown` that a spoken word was read from, searching forward from `from`. The script
+// drops markdown and rewrites symbols, so words are compared by their letters and digits alone.
+export const locateSpokenWord = (markdown: string, spokenWord: string, from: number): TextRange | null => {
+  const wanted = spokenWord.match(WORD_CHARACTERS)?.[0]?.toLowerCase();
+  if (!wanted) return null;
+
+  WORD_CHARACTERS.lastIndex = from;
+  for (let checked = 0; checked < WORD_LOOKAHEAD; checked += 1) {
+    const match = WORD_CHARACTERS.exec(markdown);
+    if (!match) break;
+    if (match[0].toLowerCase() === wanted) {
+      return { start: match.index, end: match.index + match[0].length };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,67 @@
+import type { Element, ElementContent, Root, RootContent, Text } from 'hast';
+import type { TextRange } from '@/lib/sentence-buffer';
+
+export interface ReadingMarksOptions {
+  // Source range of each sentence of the speech script, by index; null for sentences with nothing on screen
+  sentences: Array<TextRange | null>;
+  activeSentence: number | null;
+  activeWord: TextRange | null;
+}
+
+const contains = (range: TextRange | null, offset: number) => !!range && range.start <= offset && offset < range.end;
+
+// Splits a text node where sentences and the active word start and end, wrapping each sentence's text in a
+// <span data-sentence> and the active word in a <mark>
+const markText = (node: Text, { sentences, activeSentence, activeWord }: ReadingMarksOptions): ElementContent[] => {
+  const start = node.position?.start.offset;
+  if (start === undefined) return [node];
+
+  // Escapes and entities make the source a little longer than the text; offsets are then approximate
+  const toText = (offset: number) => Math.min(Math.max(offset - start, 0), node.value.length);
+  const cuts = new Set([0, node.value.length]);
+  [...sentences, activeWord].forEach((range) => {
+    if (range) {
+      cuts.add(toText(range.start));
+      cuts.add(toText(range.end));
+    }
+  });
+  const points = [...cuts].sort((a, b) => a - b);
+
+  return points.slice(1).map((end, index): ElementContent => {
+    const from = points[index];
+    let content: ElementContent = { type: 'text', value: node.value.slice(from, end) };
+    if (contains(activeWord, start + from)) {
+      content = { type: 'element', tagName: 'mark', properties: { className: ['reading-word'] }, children: [content] };
+    }
+
+    const sentence = sentences.findIndex((range) => contains(range, start + from));
+    if (sentence === -1) return content;
+    return {
+      type: 'element',
+      tagName: 'span',
+      properties: {
+        dataSentence: sentence,
+        className: sentence === activeSentence ? ['reading-sentence', 'reading-sentence-active'] : ['reading-sentence'],
+      },
+      children: [content],
+    };
+  });
+};
+
+const markNode = (node: RootContent, options: ReadingMarksOptions): RootContent[] => {
+  if (node.type === 'text') return markText(node, options);
+  if (node.type === 'element') {
+    markChildren(node, options);
+  }
+  return [node];
+};
+
+const markChildren = (parent: Root | Element, options: ReadingMarksOptions) => {
+  parent.children = parent.children.flatMap((child) => markNode(child, options)) as ElementContent[];
+};
+
+// Rehype plugin marking the spoken sentences of a reply for read-along highlighting. It relies on the source
+// positions remark keeps on text nodes, so text generated later (highlighted code, KaTeX) is left as it is.
+export const rehypeReadingMarks = (options: ReadingMarksOptions) => (tree: Root) => {
+  markChildren(tree, options);
+};
@@ -0,0 +1,81 @@
+import { formatClockTime, reminderTitle, type Reminder } from '@/lib/reminders';
+
+const WORKER_URL = '/reminder-sw.js';
+
+// What the service worker needs to show a reminder's notification without knowing about reminders
+interface ReminderNotice {
+  id: string;
+  title: string;
+  body: string;
+  dueAt: number;
+}
+
+const toNotice = (reminder: Reminder): ReminderNotice => ({
+  id: reminder.id,
+  title: reminderTitle(reminder),
+  body: reminder.kind === 'timer' ? "Time's up." : `Due at ${formatClockTime(reminder.dueAt)}`,
+  dueAt: reminder.dueAt,
+});
+
+export const canNotify = () => typeof Notification !== 'undefined' && Notification.permission === 'granted';
+
+let registration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+// Registers public/reminder-sw.js once. Resolves to null where service workers aren't available, in which
+// case notifications are shown by the page.
+export const registerReminderWorker = () => {
+  if (!registration) {
+    registration =
+      'serviceWorker' in navigator
+        ? navigator.serviceWorker.register(WORKER_URL).catch((error) => {
+            console.error('Reminder service worker unavailable:', error);
+            return null;
+          })
+        : Promise.resolve(null);
+  }
+  return registration;
+};
+
+// Asks once; later calls report the answer the user gave
+export const requestNotificationPermission = async (): Promise<NotificationPermission> => {
+  if (typeof Notification === 'undefined') return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+};
+
+// Notifies the user of a reminder that has gone off. Notifications with the same tag replace each other, so the
+// worker having already shown this one does no harm.
+export const showReminderNotification = async (reminder: Reminder) => {
+  if (!canNotify()) return;
+  const { id, title, body } = toNotice(reminder);
+  const worker = await registerReminderWorker();
+  if (worker) {
+    await worker.showNotification(title, { body, tag: id, requireInteraction: true, data: { id } });
+  } else {
+    new Notification(title, { body, tag: id });
+  }
+};
+
+// Gives the worker the reminders still to come, so it can fire them if the page's timers are throttled
+export const scheduleReminderNotifications = async (reminders: Reminder[]) => {
+  if (!canNotify() || !(await registerReminderWorker())) return;
+  const { active } = await navigator.serviceWorker.ready;
+  active?.postMessage({ type: 'schedule', reminders: reminders.filter((reminder) => !reminder.firedAt).map(toNotice) });
+};
+
+// Calls `onClick` with the reminder id whenever one of its notifications is clicked. Returns an unsubscribe.
+export const onReminderNotificationClick = (onClick: (id: string) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'dismiss' && typeof event.data.id === 'string') {
+      onClick(event.data.id);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
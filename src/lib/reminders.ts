@@ -0,0 +1,223 @@
+import { stripCommandWords } from '@/lib/intents/registry';
+
+// `timer`: a countdown ("set a timer for 5 minutes"); `alarm`: a time of day ("wake me up at 7");
+// `reminder`: either, with something to be reminded of ("remind me in 20 minutes to call Sam")
+export type ReminderKind = 'timer' | 'alarm' | 'reminder';
+
+export interface Reminder {
+  id: string;
+  kind: ReminderKind;
+  // What to be reminded of; empty for plain timers and alarms
+  label: string;
+  createdAt: number;
+  dueAt: number;
+  // When it went off. It keeps ringing, and stays listed, until it is dismissed.
+  firedAt?: number;
+}
+
+export type ReminderDraft = Pick<Reminder, 'kind' | 'label' | 'dueAt'>;
+
+const STORAGE_KEY = 'nova.reminders';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+
+const isReminder = (value: unknown): value is Reminder => {
+  const reminder = value as Partial<Reminder> | null;
+  return (
+    !!reminder &&
+    typeof reminder.id === 'string' &&
+    (reminder.kind === 'timer' || reminder.kind === 'alarm' || reminder.kind === 'reminder') &&
+    typeof reminder.label === 'string' &&
+    typeof reminder.createdAt === 'number' &&
+    typeof reminder.dueAt === 'number' &&
+    (reminder.firedAt === undefined || typeof reminder.firedAt === 'number')
+  );
+};
+
+export const loadReminders = (): Reminder[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isReminder) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveReminders = (reminders: Reminder[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(reminders));
+  } catch (storageError) {
+    // Private browsing or a full quota; reminders still go off while this tab stays open
+    console.error('Error saving reminders:', storageError);
+  }
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty five': 45, fifty: 50,
+  sixty: 60, ninety: 90, half: 0.5, 'half a': 0.5, 'half an': 0.5,
+};
+
+const DURATION_UNITS: [RegExp, number][] = [
+  [/^(?:seconds?|secs?)$/, SECOND_MS],
+  [/^(?:minutes?|mins?)$/, MINUTE_MS],
+  [/^(?:hours?|hrs?)$/, HOUR_MS],
+];
+
+const DURATION_PART =
+  /^(\d+(?:\.\d+)?|forty five|half an?|[a-z]+)\s+(seconds?|secs?|minutes?|mins?|hours?|hrs?)(?:\s+and\s+a\s+half)?/;
+
+// "20 minutes", "an hour and a half", "1 hour 15 minutes", "half an hour" in milliseconds, or null
+export const parseDuration = (text: string): number | null => {
+  let rest = text.trim().toLowerCase();
+  let total = 0;
+
+  while (rest) {
+    const match = DURATION_PART.exec(rest);
+    const amount = match && (/^\d/.test(match[1]) ? Number(match[1]) : NUMBER_WORDS[match[1]]);
+    if (!match || amount === undefined) return null;
+
+    const unitMs = DURATION_UNITS.find(([pattern]) => pattern.test(match[2]))![1];
+    total += (amount + (/and a half$/.test(match[0]) ? 0.5 : 0)) * unitMs;
+    rest = rest.slice(match[0].length).replace(/^\s*(?:,|and)?\s*/, '');
+  }
+
+  return total > 0 ? total : null;
+};
+
+const CLOCK =
+  /^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.|o'clock)?(?:\s+(in the morning|in the afternoon|in the evening|at night|tonight))?$/;
+
+// The next time the clock shows `text` ("3pm", "7:30", "noon"), counted from `now`. Without am or pm, whichever
+// of the two comes first. `tomorrow` skips today.
+export const parseClockTime = (text: string, now: Date, tomorrow = false): number | null => {
+  const spoken = text.trim().toLowerCase();
+  const named = { noon: '12:00 pm', midday: '12:00 pm', midnight: '12:00 am' }[spoken];
+  const match = CLOCK.exec(named ?? spoken);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (hour > 23 || minute > 59) return null;
+
+  const meridiem = match[3]?.replace(/\./g, '');
+  const evening = meridiem === 'pm' || /afternoon|evening|night/.test(match[4] ?? '');
+  const morning = meridiem === 'am' || match[4] === 'in the morning';
+  const candidates =
+    hour > 12 || hour === 0
+      ? [hour]
+      : evening
+        ? [(hour % 12) + 12]
+        : morning
+          ? [hour % 12]
+          : [hour % 12, (hour % 12) + 12];
+
+  const start = new Date(now);
+  if (tomorrow) {
+    start.setDate(start.getDate() + 1);
+    start.setHours(0, 0, 0, 0);
+  }
+  for (let dayOffset = 0; dayOffset < 2; dayOffset += 1) {
+    for (const candidate of candidates) {
+      const due = new Date(start);
+      due.setDate(start.getDate() + dayOffset);
+      due.setHours(candidate, minute, 0, 0);
+      if (due >= start && due > now) return due.getTime();
+    }
+  }
+  return null;
+};
+
+const cleanLabel = (text: string) => text.replace(/[.,]$/, '').trim();
+
+// Recognises spoken timer, alarm and reminder requests. Returns null for anything else. Matching ignores case,
+// but labels keep it, so "call Sam" isn't read back as "call sam".
+export const parseReminderCommand = (text: string, now: Date): ReminderDraft | null => {
+  const command = stripCommandWords(text);
+  const at = now.getTime();
+  let match: RegExpExecArray | null;
+
+  // set a timer for 5 minutes / start a 10 minute timer / timer 90 seconds
+  if ((match = /^(?:set |start )?(?:a |an )?timer (?:for )?(.+?)(?: (?:called|for|named) (.+))?$/i.exec(command))) {
+    const duration = parseDuration(match[1]);
+    if (duration) return { kind: 'timer', label: match[2] ?? '', dueAt: at + duration };
+  }
+  if ((match = /^(?:set |start )?(?:a |an )?(.+?)[ -]timer(?: for (.+))?$/i.exec(command))) {
+    const duration = parseDuration(match[1].replace(/-/g, ' ').replace(/\b(minute|hour|second)\b/i, '$1s'));
+    if (duration) return { kind: 'timer', label: match[2] ?? '', dueAt: at + duration };
+  }
+
+  // set an alarm for 7:30 / wake me up at 6 am / wake me up tomorrow at 6
+  if ((match = /^(?:set (?:an |the )?alarm|wake me(?: up)?)(?: (tomorrow))? (?:for|at) (.+?)(?: (tomorrow))?$/i.exec(command))) {
+    const dueAt = parseClockTime(match[2], now, Boolean(match[1] || match[3]));
+    if (dueAt) return { kind: 'alarm', label: '', dueAt };
+  }
+
+  if (!/^remind me\b/i.test(command)) return null;
+  const request = command.replace(/^remind me\s+/i, '');
+
+  // remind me in 20 minutes to call Sam
+  if ((match = /^(?:in|after) (.+?) (?:to|about|that) (.+)$/i.exec(request))) {
+    const duration = parseDuration(match[1]);
+    if (duration) return { kind: 'reminder', label: cleanLabel(match[2]), dueAt: at + duration };
+  }
+  // remind me (tomorrow) at 3pm to call Sam
+  if ((match = /^(?:(tomorrow) )?(?:at|by) (.+?)(?: (tomorrow))? (?:to|about|that) (.+)$/i.exec(request))) {
+    const dueAt = parseClockTime(match[2], now, Boolean(match[1] || match[3]));
+    if (dueAt) return { kind: 'reminder', label: cleanLabel(match[4]), dueAt };
+  }
+  // remind me to call Sam in 20 minutes / at 3pm (tomorrow)
+  if ((match = /^(?:to|about|that) (.+) (?:in|after) (.+)$/i.exec(request))) {
+    const duration = parseDuration(match[2]);
+    if (duration) return { kind: 'reminder', label: cleanLabel(match[1]), dueAt: at + duration };
+  }
+  if ((match = /^(?:to|about|that) (.+?)(?: (tomorrow))? (?:at|by) (.+?)(?: (tomorrow))?$/i.exec(request))) {
+    const dueAt = parseClockTime(match[3], now, Boolean(match[2] || match[4]));
+    if (dueAt) return { kind: 'reminder', label: cleanLabel(match[1]), dueAt };
+  }
+
+  return null;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Read back in the second person: "call my mum" becomes "call your mum"
+const secondPerson = (text: string) =>
+  text.replace(/\bmy\b/gi, 'your').replace(/\bme\b/gi, 'you').replace(/\bI\b/g, 'you');
+
+export const formatClockTime = (time: number) =>
+  new Date(time).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+// "20 minutes", "1 minute and 30 seconds", "2 hours and 5 minutes"; seconds are left out once it's over an hour
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / SECOND_MS));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const parts = [
+    hours && plural(hours, 'hour'),
+    minutes && plural(minutes, 'minute'),
+    !hours && (seconds || totalSeconds === 0) && plural(seconds, 'second'),
+  ].filter(Boolean);
+  return parts.join(' and ');
+};
+
+// A title for the reminder's notification and its row in the panel
+export const reminderTitle = ({ kind, label }: Pick<Reminder, 'kind' | 'label'>) =>
+  label ? capitalize(secondPerson(label)) : kind === 'alarm' ? 'Alarm' : 'Timer';
+
+// What Nova says once the reminder is set
+export const confirmReminder = ({ kind, label, dueAt }: ReminderDraft, now: number) => {
+  const when = dueAt - now < HOUR_MS ? `in ${formatDuration(dueAt - now)}` : `at ${formatClockTime(dueAt)}`;
+  if (kind === 'timer') {
+    return `Timer set for ${formatDuration(dueAt - now)}${label ? `, for ${secondPerson(label)}` : ''}.`;
+  }
+  if (kind === 'alarm') {
+    return `Alarm set for ${formatClockTime(dueAt)}.`;
+  }
+  return `OK, I'll remind you ${when}: ${secondPerson(label)}.`;
+};
@@ -0,0 +1,49 @@
+// Sentence terminators followed by whitespace; the lookbehind keeps the punctuation in the sentence
+const SENTENCE_BOUNDARY = /(?<=[.!?…])["')\]]*\s+/;
+
+// Character offsets [start, end) into everything pushed so far
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export interface SentenceBuffer {
+  push: (text: string) => void;
+  flush: () => void;
+}
+
+// Accumulates streamed text and hands each completed sentence to `onSentence` as soon as it ends, along with
+// where the trimmed sentence sits in the pushed text
+export const createSentenceBuffer = (onSentence: (sentence: string, range: TextRange) => void): SentenceBuffer => {
+  let pending = '';
+  // Length of the text already emitted, i.e. the offset at which `pending` starts
+  let emitted = 0;
+
+  const emit = (sentence: string) => {
+    const trimmed = sentence.trim();
+    if (trimmed) {
+      const start = emitted + sentence.length - sentence.trimStart().length;
+      onSentence(trimmed, { start, end: start + trimmed.length });
+    }
+    emitted += sentence.length;
+  };
+
+  return {
+    push(text) {
+      pending += text;
+
+      let match = SENTENCE_BOUNDARY.exec(pending);
+      while (match) {
+        const sentence = pending.slice(0, match.index + match[0].length);
+        pending = pending.slice(sentence.length);
+        emit(sentence);
+        match = SENTENCE_BOUNDARY.exec(pending);
+      }
+    },
+    flush() {
+      const rest = pending;
+      pending = '';
+      emit(rest);
+    },
+  };
+};
@@ -0,0 +1,16 @@
+import { supabase } from '@/integrations/supabase/client';
+import { readChatError } from '@/lib/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+
+// Fetches spoken audio for `text`, in the voice for `language`, from the `speak` edge function. The function
+// answers with application/octet-stream, which supabase-js hands back as a Blob; browsers sniff the actual
+// format. Failures are rethrown as typed ChatErrors.
+export const fetchSpeechAudio = async (text: string, language?: LanguageCode): Promise<Blob> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('speak', { body: { text, language } });
+    if (error) throw error;
+    return data;
+  } catch (caught) {
+    throw await readChatError(caught);
+  }
+};
@@ -0,0 +1,43 @@
+import { resolveSkillSettings, type SkillManifest, type SkillSettingValues } from '@shared/skills';
+
+export interface SkillState {
+  enabled: boolean;
+  settings: SkillSettingValues;
+}
+
+// By skill name
+export type SkillStates = Record<string, SkillState>;
+
+const STORAGE_KEY = 'nova.skills';
+
+// The state of every installed skill. Skills start turned off, and settings the manifest no longer has (or
+// whose type changed) fall back to its defaults.
+export const loadSkillStates = (manifests: SkillManifest[]): SkillStates => {
+  let stored: Record<string, Partial<SkillState> | undefined> = {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      stored = parsed;
+    }
+  } catch {
+    // Unreadable storage: every skill starts out off
+  }
+
+  return Object.fromEntries(
+    manifests.map((manifest) => {
+      const saved = Object.prototype.hasOwnProperty.call(stored, manifest.name) ? stored[manifest.name] : undefined;
+      return [
+        manifest.name,
+        { enabled: saved?.enabled === true, settings: resolveSkillSettings(manifest, saved?.settings) },
+      ];
+    })
+  );
+};
+
+export const saveSkillStates = (states: SkillStates) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(states));
+  } catch (storageError) {
+    console.error('Error saving skill settings:', storageError);
+  }
+};
@@ -0,0 +1,55 @@
+import type { Intent } from '@/lib/intents';
+import type { SkillStates } from '@/lib/skill-settings';
+import { findManifestProblem, type SkillSettingValues } from '@shared/skills';
+import { clientSkills } from '@skills/client';
+import type { ClientSkill } from './types';
+
+export type { ClientSkill, SkillCardProps } from './types';
+
+// Checks every skill as the app loads, as the `chat` function does on its side
+export const loadSkills = (skills: ClientSkill[]): ClientSkill[] => {
+  const names = new Set<string>();
+  for (const { manifest } of skills) {
+    const problem = findManifestProblem(manifest);
+    if (problem) {
+      throw new Error(`Invalid skill manifest for ${manifest.name}: ${problem}`);
+    }
+    if (names.has(manifest.name)) {
+      throw new Error(`Duplicate skill name: ${manifest.name}`);
+    }
+    names.add(manifest.name);
+  }
+  return skills;
+};
+
+export const installedSkills = loadSkills(clientSkills);
+
+const isEnabled = (skill: ClientSkill, states: SkillStates) => states[skill.manifest.name]?.enabled === true;
+
+// The intents of the skills the user has turned on, given their settings
+export const enabledSkillIntents = (skills: ClientSkill[], states: SkillStates): Intent[] =>
+  skills
+    .filter((skill) => isEnabled(skill, states))
+    .flatMap(({ manifest, intents }) =>
+      (intents?.(states[manifest.name].settings) ?? []).map((intent) => {
+        if (!intent.name.startsWith(`${manifest.name}_`)) {
+          throw new Error(`Intent ${intent.name} of skill ${manifest.name} must be named ${manifest.name}_…`);
+        }
+        return intent;
+      })
+    );
+
+// Sent with each chat request, so the `chat` function offers the tools of the skills that are on
+export const enabledSkillSettings = (skills: ClientSkill[], states: SkillStates): Record<string, SkillSettingValues> =>
+  Object.fromEntries(
+    skills
+      .filter((skill) => isEnabled(skill, states))
+      .map(({ manifest }) => [manifest.name, states[manifest.name].settings])
+  );
+
+// The skill a tool or intent belongs to, by the name prefix they share. The longest wins, so `ticket_lookup_get`
+// belongs to `ticket_lookup` even when there is also a `ticket` skill.
+export const findSkillFor = (skills: ClientSkill[], name: string): ClientSkill | undefined =>
+  skills
+    .filter(({ manifest }) => name.startsWith(`${manifest.name}_`))
+    .sort((a, b) => b.manifest.name.length - a.manifest.name.length)[0];
@@ -0,0 +1,20 @@
+import type { ComponentType } from 'react';
+import type { Intent } from '@/lib/intents';
+import type { SkillManifest, SkillSettingValues } from '@shared/skills';
+import type { ToolInvocation } from '@shared/tool-invocations';
+
+export interface SkillCardProps {
+  // A successful call of one of the skill's tools or intents
+  invocation: ToolInvocation;
+}
+
+// The web client's half of a skill. Tools the manifest lists run in the `chat` function; everything here runs
+// in the browser.
+export interface ClientSkill {
+  manifest: SkillManifest;
+  // Commands the skill handles on the spot, tried after the built-in intents. Their names start with the
+  // skill's name.
+  intents?: (settings: SkillSettingValues) => Intent[];
+  // Shown under a reply that used one of the skill's tools or intents
+  Card?: ComponentType<SkillCardProps>;
+}
@@ -0,0 +1,303 @@
+import { createSentenceBuffer, type SentenceBuffer, type TextRange } from '@/lib/sentence-buffer';
+
+// Replies are written for the screen; this turns their markdown into something worth hearing. Code is left on
+// screen rather than read out, formulas are verbalised, and list items and headings are read as sentences.
+
+const CODE_ANNOUNCEMENT = "I've put the code on screen.";
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const DISPLAY_MATH = /^\s*\$\$/;
+const TABLE_ROW = /^\s*\|/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}/;
+const THEMATIC_BREAK = /^\s*(?:([-*_])(?:\s*\1){2,}|=+)\s*$/;
+// Heading, quote and list markers, possibly nested ("> - item")
+const BLOCK_PREFIX = /^\s*(?:(?:#{1,6}|>|[-*+]|\d+[.)])\s+)+/;
+// Enough of a line to know what kind of block it starts: its first token and the space after it
+const CLASSIFIABLE = /^\s*\S+\s+\S/;
+const TERMINAL_PUNCTUATION = /[.!?…:;,]["')\]]*$/;
+
+// Matches remark-math: no space just inside the dollars, so prices like "$5 and $10" stay prose
+const INLINE_MATH = /\$([^$\s](?:[^$]*[^$\s])?)\$/g;
+
+const MATH_COMMANDS: Record<string, string> = {
+  times: 'times',
+  cdot: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  le: 'is less than or equal to',
+  leq: 'is less than or equal to',
+  ge: 'is greater than or equal to',
+  geq: 'is greater than or equal to',
+  ne: 'is not equal to',
+  neq: 'is not equal to',
+  approx: 'is approximately',
+  to: 'to',
+  rightarrow: 'gives',
+  infty: 'infinity',
+  sum: 'the sum of',
+  prod: 'the product of',
+  int: 'the integral of',
+  lim: 'the limit of',
+  ln: 'the natural log of',
+  log: 'log',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  partial: 'partial',
+  circ: 'degrees',
+};
+
+// Layout-only commands that have nothing to say
+const SILENT_MATH_COMMANDS = new Set(['left', 'right', 'displaystyle', 'quad', 'qquad', 'mathrm', 'mathbf', 'mathit', 'text']);
+
+const GREEK_LETTERS = new Set([
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu',
+  'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+]);
+
+const MATH_OPERATORS: Record<string, string> = {
+  '=': 'equals',
+  '+': 'plus',
+  '-': 'minus',
+  '*': 'times',
+  '/': 'over',
+  '<': 'is less than',
+  '>': 'is greater than',
+  '≤': 'is less than or equal to',
+  '≥': 'is greater than or equal to',
+  '≠': 'is not equal to',
+  '≈': 'is approximately',
+  '±': 'plus or minus',
+  '×': 'times',
+  '÷': 'divided by',
+};
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Reads a TeX formula the way a person would say it: "\frac{a}{b^2}" becomes "a over b squared"
+export const verbaliseMath = (tex: string): string => {
+  let spoken = tex.replace(/\\(?:text|mathrm|operatorname)\{([^{}]*)\}/g, ' $1 ');
+
+  // Innermost groups first, until nothing nested is left to rewrite
+  let previous: string;
+  do {
+    previous = spoken;
+    spoken = spoken
+      .replace(/\^(?:\{2\}|2(?!\d))/g, ' squared ')
+      .replace(/\^(?:\{3\}|3(?!\d))/g, ' cubed ')
+      .replace(/\^\{([^{}]*)\}/g, ' to the power of $1 ')
+      .replace(/_\{([^{}]*)\}/g, ' sub $1 ')
+      .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, ' $1 over $2 ')
+      .replace(/\\sqrt\{([^{}]*)\}/g, ' the square root of $1 ');
+  } while (spoken !== previous);
+
+  spoken = spoken
+    .replace(/\^(-?\d+|[A-Za-z])/g, ' to the power of $1 ')
+    .replace(/_([A-Za-z0-9])/g, ' sub $1 ')
+    .replace(/\\([A-Za-z]+)/g, (_, command: string) => {
+      const name = command.toLowerCase();
+      if (SILENT_MATH_COMMANDS.has(command)) return ' ';
+      if (GREEK_LETTERS.has(name)) return ` ${name} `;
+      return ` ${MATH_COMMANDS[command] ?? command} `;
+    })
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/[{}]/g, ' ')
+    .replace(/[=+\-*/<>≤≥≠≈±×÷]/g, (operator) => ` ${MATH_OPERATORS[operator]} `)
+    .replace(/!/g, ' factorial ');
+
+  return collapseWhitespace(spoken);
+};
+
+// Cleans inline markdown out of a fragment of prose: emphasis markers go, links keep their text, inline code
+// keeps its content, and formulas and common symbols are read out in words.
+export const toSpeechText = (markdown: string): string => {
+  const spoken = markdown
+    .replace(INLINE_MATH, (_, tex: string) => verbaliseMath(tex))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/https?:\/\/\S+/g, 'a link')
+    .replace(/`+([^`]*)`+/g, '$1')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(?<![\w*])([*_])(?!\s)(.+?)(?<!\s)\1(?![\w*])/g, '$2')
+    // Markers left unpaired when a sentence ended mid-emphasis
+    .replace(/\*+|~~|(?<!\w)_+|_+(?!\w)/g, '')
+    .replace(/(\d)\s*%/g, '$1 percent')
+    .replace(/°\s*C\b/g, ' degrees Celsius')
+    .replace(/°\s*F\b/g, ' degrees Fahrenheit')
+    .replace(/°/g, ' degrees')
+    .replace(/\s+&\s+/g, ' and ')
+    .replace(/\s*(?:->|→)\s*/g, ' to ')
+    .replace(/\s=\s/g, ' equals ')
+    .replace(/[≤≥≠≈±×÷]/g, (symbol) => ` ${MATH_OPERATORS[symbol]} `);
+
+  return collapseWhitespace(spoken);
+};
+
+// One sentence of a reply's speech script. `source` locates it in the markdown, for highlighting; it is null
+// for lines the script adds itself, like the note that code is on screen.
+export interface ScriptSentence {
+  text: string;
+  source: TextRange | null;
+}
+
+// Like createSentenceBuffer, but for markdown: streamed text is split into lines to follow the block structure,
+// prose is spoken a sentence at a time as before, and each list item, heading and table row is spoken as its
+// own sentence. Code blocks are announced once per reply and skipped; display math is spoken once complete.
+export const createSpeechScriptBuffer = (
+  onSentence: (sentence: string, source: TextRange | null) => void
+): SentenceBuffer => {
+  let line = '';
+  // Offset of `line` in the reply
+  let lineStart = 0;
+  // Set once the start of the line shows it is ordinary prose, which can then be spoken while it streams in
+  let prose: SentenceBuffer | null = null;
+  let spokenUpTo = 0;
+  let lineIsBlock = false;
+  let fence: string | null = null;
+  let math: { lines: string[]; start: number } | null = null;
+  let announcedCode = false;
+  let endOfLine = false;
+
+  const speak = (text: string, source: TextRange) => {
+    const sentence = toSpeechText(text);
+    if (!sentence) return;
+    // Headings and list items rarely end in punctuation, but should still sound finished
+    onSentence(endOfLine && lineIsBlock && !TERMINAL_PUNCTUATION.test(sentence) ? `${sentence}.` : sentence, source);
+  };
+
+  const speakMath = (tex: string, source: TextRange) => {
+    const spoken = verbaliseMath(tex);
+    if (spoken) {
+      onSentence(`${spoken}.`, source);
+    }
+  };
+
+  const announceCode = () => {
+    if (!announcedCode) {
+      announcedCode = true;
+      onSentence(CODE_ANNOUNCEMENT, null);
+    }
+  };
+
+  const continueLine = () => {
+    if (!prose) {
+      if (fence !== null || math !== null || !CLASSIFIABLE.test(line)) return;
+      if (FENCE.test(line) || DISPLAY_MATH.test(line) || TABLE_ROW.test(line)) return;
+
+      const prefix = BLOCK_PREFIX.exec(line)?.[0] ?? '';
+      const proseStart = lineStart + prefix.length;
+      lineIsBlock = prefix.trim() !== '';
+      spokenUpTo = prefix.length;
+      prose = createSentenceBuffer((text, range) =>
+        speak(text, { start: proseStart + range.start, end: proseStart + range.end })
+      );
+    }
+    prose.push(line.slice(spokenUpTo));
+    spokenUpTo = line.length;
+  };
+
+  const completeLine = () => {
+    const completed = line;
+    const start = lineStart;
+    const end = start + completed.length;
+    line = '';
+    lineStart = end + 1;
+
+    if (prose) {
+      prose.push(completed.slice(spokenUpTo));
+      endOfLine = true;
+      prose.flush();
+      endOfLine = false;
+      prose = null;
+      lineIsBlock = false;
+      return;
+    }
+
+    if (fence !== null) {
+      if (completed.trim().startsWith(fence)) {
+        fence = null;
+      }
+      return;
+    }
+
+    if (math !== null) {
+      const closing = completed.indexOf('$$');
+      if (closing === -1) {
+        math.lines.push(completed);
+        return;
+      }
+      speakMath([...math.lines, completed.slice(0, closing)].join(' '), { start: math.start, end: start + closing + 2 });
+      math = null;
+      return;
+    }
+
+    const opensFence = FENCE.exec(completed);
+    if (opensFence) {
+      fence = opensFence[1];
+      announceCode();
+      return;
+    }
+
+    if (DISPLAY_MATH.test(completed)) {
+      const opening = completed.indexOf('$$');
+      const body = completed.slice(opening + 2);
+      const closing = body.indexOf('$$');
+      if (closing === -1) {
+        math = { lines: [body], start: start + opening };
+      } else {
+        speakMath(body.slice(0, closing), { start: start + opening, end: start + opening + closing + 4 });
+      }
+      return;
+    }
+
+    if (THEMATIC_BREAK.test(completed) || TABLE_DIVIDER.test(completed)) return;
+
+    const prefix = TABLE_ROW.test(completed) ? '' : BLOCK_PREFIX.exec(completed)?.[0] ?? '';
+    const text = completed.slice(prefix.length);
+    const source = { start: start + prefix.length, end: start + prefix.length + text.trimEnd().length };
+    lineIsBlock = true;
+    endOfLine = true;
+    if (prefix === '' && TABLE_ROW.test(completed)) {
+      speak(text.split('|').map((cell) => cell.trim()).filter(Boolean).join(', '), source);
+    } else {
+      speak(text, source);
+    }
+    endOfLine = false;
+    lineIsBlock = false;
+  };
+
+  return {
+    push(text) {
+      const lines = text.split('\n');
+      lines.forEach((part, index) => {
+        line += part;
+        continueLine();
+        if (index < lines.length - 1) {
+          completeLine();
+        }
+      });
+    },
+    flush() {
+      // An unterminated code block stays unspoken; an unterminated formula is read as far as it got
+      if (line) {
+        completeLine();
+      }
+      if (math !== null) {
+        speakMath(math.lines.join(' '), { start: math.start, end: lineStart - 1 });
+        math = null;
+      }
+      fence = null;
+    },
+  };
+};
+
+// The whole speech script of a finished reply, e.g. to read it again from a given sentence
+export const toSpeechScript = (markdown: string): ScriptSentence[] => {
+  const script: ScriptSentence[] = [];
+  const buffer = createSpeechScriptBuffer((text, source) => script.push({ text, source }));
+  buffer.push(markdown);
+  buffer.flush();
+  return script;
+};
@@ -0,0 +1,21 @@
+import { supabase } from '@/integrations/supabase/client';
+import { readChatError } from '@/lib/chat-errors';
+import type { LanguageCode } from '@shared/languages';
+
+// Sends a recording to the `transcribe` edge function. Without a language the server's model detects it.
+// Failures are rethrown as typed ChatErrors.
+export const transcribeRecording = async (audio: Blob, language?: LanguageCode): Promise<string> => {
+  const form = new FormData();
+  form.append('audio', audio, 'speech.webm');
+  if (language) {
+    form.append('language', language);
+  }
+
+  try {
+    const { data, error } = await supabase.functions.invoke('transcribe', { body: form });
+    if (error) throw error;
+    return data.text;
+  } catch (caught) {
+    throw await readChatError(caught);
+  }
+};
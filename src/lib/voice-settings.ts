@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isLanguageCode, type LanguageCode } from '@shared/languages';
+
+export interface VoiceSettings {
+  // `SpeechSynthesisVoice.voiceURI`, or null for the browser default
+  voiceURI: string | null;
+  rate: number;
+  pitch: number;
+  volume: number;
+  // Language to converse in, or 'auto' to answer in whatever language the user speaks
+  language: LanguageCode | 'auto';
+  // BCP 47 tag handed to the recognizer, until a language is picked or detected
+  recognitionLang: string;
+  // 'server' records the question and transcribes it with the `transcribe` function instead of the
+  // browser's recognizer; browsers without the Web Speech API always do this
+  transcription: 'browser' | 'server';
+  // 'server' plays natural-sounding audio from the `speak` function, falling back to the browser's voice
+  speechEngine: 'browser' | 'server';
+  // Read replies aloud; when off, replies are only shown
+  autoSpeak: boolean;
+  // Seconds of silence after which a hands-free conversation ends
+  silenceTimeoutSeconds: number;
+  // Send a coarse location (about 10 km) with questions, for answers about the weather or what's nearby
+  shareLocation: boolean;
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceURI: null,
+  rate: 0.9,
+  pitch: 1,
+  volume: 0.8,
+  language: 'auto',
+  recognitionLang: 'en-US',
+  transcription: 'browser',
+  speechEngine: 'browser',
+  autoSpeak: true,
+  silenceTimeoutSeconds: 10,
+  shareLocation: false,
+};
+
+export const SILENCE_TIMEOUT_OPTIONS = [5, 10, 20, 30];
+
+export const RECOGNITION_LANGUAGES = [
+  { tag: 'en-US', label: 'English (US)' },
+  { tag: 'en-GB', label: 'English (UK)' },
+  { tag: 'es-ES', label: 'Spanish' },
+  { tag: 'fr-FR', label: 'French' },
+  { tag: 'de-DE', label: 'German' },
+  { tag: 'it-IT', label: 'Italian' },
+  { tag: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { tag: 'ru-RU', label: 'Russian' },
+  { tag: 'ar-SA', label: 'Arabic' },
+  { tag: 'hi-IN', label: 'Hindi' },
+  { tag: 'ja-JP', label: 'Japanese' },
+  { tag: 'zh-CN', label: 'Chinese (Mandarin)' },
+  { tag: 'ko-KR', label: 'Korean' },
+];
+
+const STORAGE_KEY = 'nova.voice-settings';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// Stored settings may be from an older version or edited by hand, so anything unrecognised falls back to the default
+export const normalizeVoiceSettings = (value: unknown): VoiceSettings => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof VoiceSettings, unknown>>;
+  const defaults = DEFAULT_VOICE_SETTINGS;
+
+  return {
+    voiceURI: typeof stored.voiceURI === 'string' ? stored.voiceURI : defaults.voiceURI,
+    rate: clamp(stored.rate, 0.5, 2, defaults.rate),
+    pitch: clamp(stored.pitch, 0, 2, defaults.pitch),
+    volume: clamp(stored.volume, 0, 1, defaults.volume),
+    language: stored.language === 'auto' || isLanguageCode(stored.language) ? stored.language : defaults.language,
+    recognitionLang: typeof stored.recognitionLang === 'string' && stored.recognitionLang
+      ? stored.recognitionLang
+      : defaults.recognitionLang,
+    transcription: stored.transcription === 'server' ? 'server' : defaults.transcription,
+    speechEngine: stored.speechEngine === 'server' ? 'server' : defaults.speechEngine,
+    autoSpeak: typeof stored.autoSpeak === 'boolean' ? stored.autoSpeak : defaults.autoSpeak,
+    silenceTimeoutSeconds: SILENCE_TIMEOUT_OPTIONS.includes(stored.silenceTimeoutSeconds as number)
+      ? stored.silenceTimeoutSeconds as number
+      : defaults.silenceTimeoutSeconds,
+    shareLocation: typeof stored.shareLocation === 'boolean' ? stored.shareLocation : defaults.shareLocation,
+  };
+};
+
+export const loadLocalVoiceSettings = (): VoiceSettings => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return normalizeVoiceSettings(stored ? JSON.parse(stored) : null);
+  } catch {
+    return DEFAULT_VOICE_SETTINGS;
+  }
+};
+
+export const saveLocalVoiceSettings = (settings: VoiceSettings) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (storageError) {
+    // Private browsing or a full quota; the settings still apply for this visit
+    console.error('Error saving voice settings:', storageError);
+  }
+};
+
+// Settings saved to the signed-in user's profile, or null when there is no session or nothing saved yet
+export const fetchProfileVoiceSettings = async (): Promise<VoiceSettings | null> => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) return null;
+
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('voice')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? normalizeVoiceSettings(data.voice) : null;
+};
+
+export const saveProfileVoiceSettings = async (settings: VoiceSettings) => {
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) return;
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: sessionData.session.user.id, voice: settings });
+
+  if (error) throw error;
+};
@@ -1,7 +1,20 @@
+import { ConversationProvider } from "@/components/ConversationProvider";
+import { ConversationSidebar } from "@/components/ConversationSidebar";
 import { VoiceAssistant } from "@/components/VoiceAssistant";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 
 const Index = () => {
-  return <VoiceAssistant />;
+  return (
+    <ConversationProvider>
+      <SidebarProvider>
+        <ConversationSidebar />
+        <SidebarInset className="bg-transparent">
+          <SidebarTrigger className="fixed top-4 z-10 ml-4" />
+          <VoiceAssistant />
+        </SidebarInset>
+      </SidebarProvider>
+    </ConversationProvider>
+  );
 };
 
 export default Index;
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, ArrowLeftRight, Trash2 } from "lucide-react";
+import { InterpreterPanel } from "@/components/InterpreterPanel";
+import { InterpreterTranscript } from "@/components/InterpreterTranscript";
+import { Button } from "@/components/ui/button";
+import { useInterpreter } from "@/hooks/use-interpreter";
+import { useSpeechOutput } from "@/hooks/use-speech-output";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
+import { otherSide, type InterpreterSide } from "@/lib/interpreter";
+import type { LanguageCode } from "@shared/languages";
+
+const Interpreter = () => {
+  const { settings } = useVoiceSettings();
+  const [languages, setLanguages] = useState<Record<InterpreterSide, LanguageCode>>({ left: "en", right: "es" });
+  const { speak, cancel: cancelSpeech } = useSpeechOutput(settings);
+  const { entries, interpret, clear } = useInterpreter({ languages, speak });
+
+  // Picking the other participant's language trades languages with them, so the two sides never match
+  const setLanguage = (side: InterpreterSide) => (language: LanguageCode) =>
+    setLanguages((current) =>
+      language === current[otherSide(side)]
+        ? { ...current, [side]: language, [otherSide(side)]: current[side] }
+        : { ...current, [side]: language }
+    );
+
+  const swapLanguages = () => setLanguages(({ left, right }) => ({ left: right, right: left }));
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" aria-label="Back to the assistant">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold gradient-text">Interpreter</h1>
+        </div>
+
+        <div className="flex flex-col md:flex-row items-stretch gap-4">
+          <InterpreterPanel
+            title="Participant A"
+            language={languages.left}
+            onLanguageChange={setLanguage("left")}
+            onUtterance={(text) => interpret("left", text)}
+            onStartSpeaking={cancelSpeech}
+          />
+          <div className="flex md:flex-col items-center justify-center">
+            <Button variant="ghost" size="icon" onClick={swapLanguages} aria-label="Swap languages">
+              <ArrowLeftRight className="w-5 h-5" />
+            </Button>
+          </div>
+          <InterpreterPanel
+            title="Participant B"
+            language={languages.right}
+            onLanguageChange={setLanguage("right")}
+            onUtterance={(text) => interpret("right", text)}
+            onStartSpeaking={cancelSpeech}
+          />
+        </div>
+
+        <InterpreterTranscript entries={entries} languages={languages} />
+
+        {entries.length > 0 && (
+          <div className="flex justify-end">
+            <Button variant="ghost" onClick={clear}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Clear transcript
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Interpreter;
@@ -0,0 +1,253 @@
+import { Link } from "react-router-dom";
+import { ArrowLeft, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CustomCommandsEditor } from "@/components/CustomCommandsEditor";
+import { SkillsSettings } from "@/components/SkillsSettings";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useSpeechOutput } from "@/hooks/use-speech-output";
+import { useSpeechVoices } from "@/hooks/use-speech-synthesis";
+import { useVoiceSettings } from "@/hooks/use-voice-settings";
+import { requestLocation } from "@/lib/client-context";
+import {
+  DEFAULT_VOICE_SETTINGS,
+  RECOGNITION_LANGUAGES,
+  SILENCE_TIMEOUT_OPTIONS,
+  type VoiceSettings,
+} from "@/lib/voice-settings";
+import { LANGUAGES } from "@shared/languages";
+
+// Radix Select can't hold an empty value, so the browser default voice gets a sentinel
+const DEFAULT_VOICE = "default";
+
+interface SliderSettingProps {
+  id: "rate" | "pitch" | "volume";
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+const SLIDER_SETTINGS: SliderSettingProps[] = [
+  { id: "rate", label: "Speaking rate", min: 0.5, max: 2, step: 0.1, format: (value) => `${value.toFixed(1)}×` },
+  { id: "pitch", label: "Pitch", min: 0, max: 2, step: 0.1, format: (value) => value.toFixed(1) },
+  { id: "volume", label: "Volume", min: 0, max: 1, step: 0.05, format: (value) => `${Math.round(value * 100)}%` },
+];
+
+const Settings = () => {
+  const { settings, updateSettings } = useVoiceSettings();
+  const voices = useSpeechVoices();
+  const { isSupported: isSynthesisSupported, speak, cancel } = useSpeechOutput(settings);
+
+  // Turning sharing on asks for permission straight away; if the user declines, the switch stays off
+  const changeShareLocation = async (shareLocation: boolean) => {
+    updateSettings({ shareLocation: shareLocation && Boolean(await requestLocation()) });
+  };
+
+  const testVoice = () => {
+    cancel();
+    speak("Hi, I'm Nova. This is how I'll sound when I answer you.");
+  };
+
+  return (
+    <div className="min-h-screen p-6">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/" aria-label="Back to the assistant">
+              <ArrowLeft className="w-5 h-5" />
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold gradient-text">Voice settings</h1>
+        </div>
+
+        <Card className="p-6 space-y-6">
+          <h2 className="font-semibold text-lg">Speech output</h2>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="auto-speak">Read replies aloud</Label>
+              <p className="text-sm text-muted-foreground">When off, replies are only shown on screen.</p>
+            </div>
+            <Switch
+              id="auto-speak"
+              checked={settings.autoSpeak}
+              onCheckedChange={(autoSpeak) => updateSettings({ autoSpeak })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="server-voice">Natural voice</Label>
+              <p className="text-sm text-muted-foreground">
+                Generate speech on the server instead of using the browser's built-in voices.
+              </p>
+            </div>
+            <Switch
+              id="server-voice"
+              checked={settings.speechEngine === "server"}
+              onCheckedChange={(checked) => updateSettings({ speechEngine: checked ? "server" : "browser" })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="voice">{settings.speechEngine === "server" ? "Fallback browser voice" : "Voice"}</Label>
+            <Select
+              value={settings.voiceURI ?? DEFAULT_VOICE}
+              onValueChange={(value) => updateSettings({ voiceURI: value === DEFAULT_VOICE ? null : value })}
+              disabled={!isSynthesisSupported}
+            >
+              <SelectTrigger id="voice">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_VOICE}>Browser default</SelectItem>
+                {voices.map((voice) => (
+                  <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+                    {voice.name} ({voice.lang})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isSynthesisSupported && (
+              <p className="text-sm text-muted-foreground">This browser can't speak replies aloud.</p>
+            )}
+          </div>
+
+          {SLIDER_SETTINGS.map(({ id, label, min, max, step, format }) => (
+            <div key={id} className="space-y-3">
+              <div className="flex justify-between">
+                <Label htmlFor={id}>{label}</Label>
+                <span className="text-sm text-muted-foreground">{format(settings[id])}</span>
+              </div>
+              <Slider
+                id={id}
+                min={min}
+                max={max}
+                step={step}
+                value={[settings[id]]}
+                onValueChange={([value]) => updateSettings({ [id]: value })}
+              />
+            </div>
+          ))}
+
+          <Button variant="outline" onClick={testVoice} disabled={!isSynthesisSupported}>
+            <Volume2 className="w-4 h-4 mr-2" />
+            Test voice
+          </Button>
+        </Card>
+
+        <Card className="p-6 space-y-6">
+          <h2 className="font-semibold text-lg">Speech input and language</h2>
+
+          <div className="space-y-2">
+            <Label htmlFor="language">Conversation language</Label>
+            <Select
+              value={settings.language}
+              onValueChange={(language) => updateSettings({ language: language as VoiceSettings["language"] })}
+            >
+              <SelectTrigger id="language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {Object.values(LANGUAGES).map((language) => (
+                  <SelectItem key={language.code} value={language.code}>
+                    {language.name} ({language.nativeName})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Nova answers in this language and reads replies with a matching voice. When detecting automatically,
+              it follows the language of each question.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recognition-lang">
+              {settings.language === "auto" ? "Start listening in" : "Recognition accent"}
+            </Label>
+            <Select value={settings.recognitionLang} onValueChange={(recognitionLang) => updateSettings({ recognitionLang })}>
+              <SelectTrigger id="recognition-lang">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECOGNITION_LANGUAGES.map((language) => (
+                  <SelectItem key={language.tag} value={language.tag}>{language.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="server-transcription">Higher-accuracy transcription</Label>
+              <p className="text-sm text-muted-foreground">
+                Record each question and transcribe it on the server. Used automatically in browsers without built-in
+                speech recognition.
+              </p>
+            </div>
+            <Switch
+              id="server-transcription"
+              checked={settings.transcription === "server"}
+              onCheckedChange={(checked) => updateSettings({ transcription: checked ? "server" : "browser" })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="silence-timeout">End hands-free conversations after</Label>
+            <Select
+              value={String(settings.silenceTimeoutSeconds)}
+              onValueChange={(value) => updateSettings({ silenceTimeoutSeconds: Number(value) })}
+            >
+              <SelectTrigger id="silence-timeout">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SILENCE_TIMEOUT_OPTIONS.map((seconds) => (
+                  <SelectItem key={seconds} value={String(seconds)}>{seconds} seconds of silence</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </Card>
+
+        <Card className="p-6 space-y-6">
+          <h2 className="font-semibold text-lg">Privacy</h2>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="share-location">Share approximate location</Label>
+              <p className="text-sm text-muted-foreground">
+                Send your location, rounded to about 10 km, with each question. Your local time, time zone and language
+                are always sent.
+              </p>
+            </div>
+            <Switch
+              id="share-location"
+              checked={settings.shareLocation}
+              onCheckedChange={changeShareLocation}
+            />
+          </div>
+        </Card>
+
+        <CustomCommandsEditor />
+
+        <SkillsSettings />
+
+        <div className="flex justify-end">
+          <Button variant="ghost" onClick={() => updateSettings(DEFAULT_VOICE_SETTINGS)}>
+            Reset to defaults
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
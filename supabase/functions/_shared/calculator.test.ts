@@ -0,0 +1,100 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { calculate, CalculationError, solveMathQuestion } from './calculator.ts'
+
+const value = (expression: string) => calculate(expression).value
+
+Deno.test('does decimal arithmetic exactly', () => {
+  assertEquals(value('0.1 + 0.2'), '0.3')
+  assertEquals(value('2 + 3 * 4'), '14')
+  assertEquals(value('(2 + 3) * 4'), '20')
+  assertEquals(value('-2^2'), '-4')
+  assertEquals(value('2^-2'), '0.25')
+  assertEquals(value('2(3 + 4)'), '14')
+  assertEquals(value('7 / 8'), '0.875')
+})
+
+Deno.test('keeps every digit of big numbers', () => {
+  assertEquals(value('2^100'), '1267650600228229401496703205376')
+  assertEquals(value('25!'), '15511210043330985984000000')
+  assertEquals(calculate('2^100').spoken, 'about 1.26765 times 10 to the power of 30')
+})
+
+Deno.test('marks rounded and irrational results as approximate', () => {
+  const third = calculate('1 / 3')
+  assertEquals(third.value, '0.3333333333')
+  assertEquals(third.exact, false)
+  assertEquals(third.display, '≈ 0.3333333333')
+
+  assertEquals(calculate('sqrt(144)').exact, true)
+  assertEquals(calculate('sqrt 2').value, '1.4142135624')
+  assertEquals(calculate('2 pi').spoken, 'about 6.28319')
+})
+
+Deno.test('understands percentages', () => {
+  assertEquals(value('17.5% of 2,340'), '409.5')
+  assertEquals(value('200 + 10%'), '220')
+  assertEquals(value('80 - 25%'), '60')
+  assertEquals(value('50% + 25%'), '0.75')
+})
+
+Deno.test('answers spoken questions', () => {
+  const answer = calculate("What's 17.5 percent of 2,340?")
+  assertEquals(answer.expression, '17.5 % of 2,340')
+  assertEquals(answer.display, '409.5')
+  assertEquals(answer.spoken, '409.5')
+
+  assertEquals(value('12 times 12 divided by 3'), '48')
+  assertEquals(value('what is 3 squared plus 4 squared'), '25')
+  assertEquals(value('square root of 81'), '9')
+  assertEquals(value('2 to the power of 10 minus 1'), '1023')
+  assertEquals(calculate('how many feet in a mile').display, '5,280 ft')
+})
+
+Deno.test('converts units', () => {
+  assertEquals(value('5 km to miles'), '3.1068559612')
+  assertEquals(calculate('5 km in miles').spoken, 'about 3.10686 miles')
+  assertEquals(value('100 f to c'), '37.7777777778')
+  assertEquals(value('0 celsius to fahrenheit'), '32')
+  assertEquals(calculate('1 fluid ounce to ml').display, '29.5735295625 ml')
+  assertEquals(calculate('2 km + 500 m').display, '2.5 km')
+  assertEquals(value('3 km / 500 m'), '6')
+  assertEquals(value('1 GiB to MB'), '1073.741824')
+})
+
+Deno.test('converts currencies from the offline table', () => {
+  const euros = calculate('$100 to euros')
+  assertEquals(euros.display, '91.95 EUR')
+  assertEquals(euros.spoken, '91.95 euros')
+  assertEquals(euros.note?.includes('2024-06-03'), true)
+
+  // 'pounds' is money when converting to money, and weight otherwise
+  assertEquals(calculate('50 pounds to euros').unit, 'EUR')
+  assertEquals(calculate('50 pounds to kg').unit, 'kg')
+  assertEquals(calculate('10 usd').display, '10.00 USD')
+})
+
+Deno.test('explains what it cannot work out', () => {
+  const error = (expression: string) => {
+    try {
+      calculate(expression)
+    } catch (caught) {
+      assertEquals(caught instanceof CalculationError, true)
+      return (caught as Error).message
+    }
+    throw new Error(`${expression} should have failed`)
+  }
+
+  assertEquals(error('1 / 0'), "Can't divide by zero")
+  assertEquals(error('5 km to kg'), "Can't convert kilometres to kilograms")
+  assertEquals(error('2 + banana'), 'Didn\'t understand "banana"')
+  assertEquals(error('10^10000'), 'Result is too large')
+  assertThrows(() => calculate('5 kg + 3 m'))
+})
+
+Deno.test('only claims questions that are calculations', () => {
+  assertEquals(solveMathQuestion('what is 6 times 7')?.value, '42')
+  assertEquals(solveMathQuestion('convert 10 miles to km')?.unit, 'km')
+  assertEquals(solveMathQuestion('what is 2024'), null)
+  assertEquals(solveMathQuestion('what is the capital of France'), null)
+  assertEquals(solveMathQuestion('set a timer for 5 minutes'), null)
+})
@@ -0,0 +1,501 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/calculator`),
+// so keep this file free of Deno- and browser-only APIs.
+
+import {
+  add,
+  compare,
+  divide,
+  exactSquareRoot,
+  fromNumber,
+  isInteger,
+  multiply,
+  negate,
+  ONE,
+  parseRational,
+  power,
+  type Rational,
+  rational,
+  subtract,
+  toDecimal,
+  toNumber,
+} from './rational.ts'
+import { CURRENCY_RATES_DATE, type Dimension, findUnit, matchUnit, type Unit, unitsForPrefix } from './units.ts'
+
+// The answer to an expression like '17.5% of 2,340', '2^100' or '5 km to miles'
+export interface Calculation {
+  // What was evaluated, once spoken words were turned into symbols
+  expression: string
+  // The result as a plain decimal (no grouping), rounded for display
+  value: string
+  // Symbol of the result's unit, e.g. 'mi' or 'EUR'
+  unit: string | null
+  // False when `value` was rounded, or an irrational step (a square root, pi) made the result approximate
+  exact: boolean
+  // For the screen: grouped digits and the unit, with '≈' in front when inexact
+  display: string
+  // For speech: fewer digits and unit names spelled out
+  spoken: string
+  // Caveats worth passing on, such as the date of the exchange rates
+  note?: string
+}
+
+export class CalculationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CalculationError'
+  }
+}
+
+interface Quantity {
+  value: Rational
+  unit: Unit | null
+  exact: boolean
+  // Written with %, which changes what + and - do with it: 200 + 10% is 220
+  percent: boolean
+}
+
+const DISPLAY_SIGNIFICANT_DIGITS = 10
+const SPOKEN_SIGNIFICANT_DIGITS = 6
+// Past this many digits, spoken results switch to "times ten to the power of"
+const SPOKEN_MAX_WHOLE_DIGITS = 15
+// Exponents beyond this are worked out with floats, which then overflow into an error
+const MAX_EXACT_EXPONENT = 100_000n
+
+const scalar = (value: Rational, exact = true): Quantity => ({ value, unit: null, exact, percent: false })
+
+const approximate = (value: number) => scalar(fromNumber(value), false)
+
+const unitName = (unit: Unit | null) => unit?.singular ?? 'a plain number'
+
+const floor = ({ numerator, denominator }: Rational) =>
+  rational(numerator >= 0n ? numerator / denominator : (numerator - denominator + 1n) / denominator)
+
+const roundHalfAway = (value: Rational): Rational =>
+  value.numerator < 0n ? negate(roundHalfAway(negate(value))) : floor(add(value, rational(1n, 2n)))
+
+const requireScalar = (quantity: Quantity, what: string) => {
+  if (quantity.unit) {
+    throw new CalculationError(`Can't take the ${what} of a quantity in ${quantity.unit.plural}`)
+  }
+  return quantity.value
+}
+
+// Wraps a float function of a plain number
+const viaFloat = (name: string, fn: (value: number) => number) => (quantity: Quantity) => {
+  const result = fn(toNumber(requireScalar(quantity, name)))
+  if (Number.isNaN(result)) {
+    throw new CalculationError(`The ${name} of ${toDecimal(quantity.value, 10).text} is undefined`)
+  }
+  return approximate(result)
+}
+
+// Keep the unit: rounding 3.7 km gives 4 km
+const keepingUnit = (fn: (value: Rational) => Rational) => (quantity: Quantity): Quantity => ({
+  ...quantity,
+  value: fn(quantity.value),
+  percent: false,
+})
+
+const FUNCTIONS: Record<string, (argument: Quantity) => Quantity> = {
+  sqrt: (quantity) => {
+    const value = requireScalar(quantity, 'square root')
+    if (value.numerator < 0n) {
+      throw new CalculationError("Negative numbers don't have a real square root")
+    }
+    const exact = exactSquareRoot(value)
+    return exact ? scalar(exact, quantity.exact) : approximate(Math.sqrt(toNumber(value)))
+  },
+  cbrt: viaFloat('cube root', Math.cbrt),
+  abs: keepingUnit((value) => (value.numerator < 0n ? negate(value) : value)),
+  round: keepingUnit(roundHalfAway),
+  floor: keepingUnit(floor),
+  ceil: keepingUnit((value) => negate(floor(negate(value)))),
+  ln: viaFloat('natural logarithm', Math.log),
+  log: viaFloat('logarithm', Math.log10),
+  exp: viaFloat('exponential', Math.exp),
+  sin: viaFloat('sine', Math.sin),
+  cos: viaFloat('cosine', Math.cos),
+  tan: viaFloat('tangent', Math.tan),
+}
+
+const CONSTANTS: Record<string, Quantity> = {
+  pi: approximate(Math.PI),
+  'π': approximate(Math.PI),
+  e: approximate(Math.E),
+}
+
+const isOwn = (table: object, key: string) => Object.prototype.hasOwnProperty.call(table, key)
+
+// Amounts in a unit, measured in the dimension's base unit
+const toBase = (value: Rational, unit: Unit) => add(multiply(value, unit.factor), unit.offset)
+const fromBase = (value: Rational, unit: Unit) => divide(subtract(value, unit.offset), unit.factor)
+
+const convert = (quantity: Quantity, target: Unit): Quantity => {
+  if (!quantity.unit) {
+    throw new CalculationError(`There is nothing to convert to ${target.plural}; give the amount a unit`)
+  }
+  if (quantity.unit.dimension !== target.dimension) {
+    throw new CalculationError(`Can't convert ${quantity.unit.plural} to ${target.plural}`)
+  }
+  return { ...quantity, value: fromBase(toBase(quantity.value, quantity.unit), target), unit: target }
+}
+
+const factorial = (quantity: Quantity) => {
+  const value = requireScalar(quantity, 'factorial')
+  if (!isInteger(value) || value.numerator < 0n) {
+    throw new CalculationError('Factorials are only defined for whole numbers from 0 up')
+  }
+  let result = ONE
+  for (let factor = 2n; factor <= value.numerator; factor += 1n) {
+    result = multiply(result, rational(factor))
+  }
+  return scalar(result, quantity.exact)
+}
+
+const addQuantities = (left: Quantity, right: Quantity, sign: 1n | -1n): Quantity => {
+  const exact = left.exact && right.exact
+  // 200 + 10% is 200 × 1.1
+  if (right.percent && !left.percent) {
+    const factor = sign > 0n ? add(ONE, right.value) : subtract(ONE, right.value)
+    return { ...left, value: multiply(left.value, factor), exact, percent: false }
+  }
+
+  const signed = sign > 0n ? right.value : negate(right.value)
+  if (!left.unit && !right.unit) {
+    return { ...left, value: add(left.value, signed), exact, percent: left.percent && right.percent }
+  }
+  if (!left.unit || !right.unit || left.unit.dimension !== right.unit.dimension) {
+    throw new CalculationError(`Can't combine ${unitName(left.unit)} with ${unitName(right.unit)}`)
+  }
+  const converted = convert({ ...right, value: signed }, left.unit)
+  return { value: add(left.value, converted.value), unit: left.unit, exact, percent: false }
+}
+
+const multiplyQuantities = (left: Quantity, right: Quantity): Quantity => {
+  if (left.unit && right.unit) {
+    throw new CalculationError(`Can't multiply ${left.unit.plural} by ${right.unit.plural}`)
+  }
+  return {
+    value: multiply(left.value, right.value),
+    unit: left.unit ?? right.unit,
+    exact: left.exact && right.exact,
+    percent: false,
+  }
+}
+
+const divideQuantities = (left: Quantity, right: Quantity): Quantity => {
+  if (right.value.numerator === 0n) {
+    throw new CalculationError("Can't divide by zero")
+  }
+  const exact = left.exact && right.exact
+  if (!right.unit) {
+    return { value: divide(left.value, right.value), unit: left.unit, exact, percent: false }
+  }
+  // 3 km / 500 m is a plain ratio
+  if (left.unit?.dimension === right.unit.dimension) {
+    return scalar(divide(toBase(left.value, left.unit), toBase(right.value, right.unit)), exact)
+  }
+  throw new CalculationError(`Can't divide ${unitName(left.unit)} by ${right.unit.plural}`)
+}
+
+const raise = (base: Quantity, exponent: Quantity): Quantity => {
+  const baseValue = requireScalar(base, 'power')
+  const exponentValue = requireScalar(exponent, 'power')
+  const exact = base.exact && exponent.exact
+  const { numerator } = exponentValue
+  if (isInteger(exponentValue) && numerator <= MAX_EXACT_EXPONENT && numerator >= -MAX_EXACT_EXPONENT) {
+    if (baseValue.numerator === 0n && numerator < 0n) {
+      throw new CalculationError("Can't divide by zero")
+    }
+    return scalar(power(baseValue, numerator), exact)
+  }
+  const result = Math.pow(toNumber(baseValue), toNumber(exponentValue))
+  if (Number.isNaN(result)) {
+    throw new CalculationError('That power has no real value')
+  }
+  return approximate(result)
+}
+
+// Recursive descent over the raw text, so multi-word unit names can be matched greedily:
+//
+//   calculation := sum [('to' | 'in' | 'into' | 'as') unit]
+//   sum         := product (('+' | '-') product)*
+//   product     := signed (('*' | '/' | 'of') signed | implicit multiplication)*
+//   signed      := ('-' | '+') signed | postfix [('^' | '**') signed]
+//   postfix     := primary ('!' | '%')*
+//   primary     := number [unit] | currency symbol number | '(' sum ')' | function postfix | constant
+const evaluate = (expression: string, preferred?: Dimension) => {
+  let position = 0
+  let operations = 0
+
+  const rest = () => expression.slice(position)
+  const accept = (pattern: RegExp) => {
+    const match = pattern.exec(rest())
+    if (match) {
+      position += match[0].length
+    }
+    return match
+  }
+  const fail = (): never => {
+    const remaining = rest().trim()
+    throw new CalculationError(remaining ? `Didn't understand "${remaining}"` : 'The expression ends too soon')
+  }
+
+  const name = () => /^\s*([a-zπ]+)/.exec(rest())?.[1] ?? ''
+
+  const unit = () => {
+    const match = matchUnit(rest().replace(/^\s+/, ''), preferred)
+    if (!match) return null
+    accept(/^\s*/)
+    position += match.length
+    return match.unit
+  }
+
+  const primary = (): Quantity => {
+    const symbol = accept(/^\s*([$€£¥₹₩])/)
+    const number = accept(/^\s*(\d{1,3}(?:,\d{3})+(?:\.\d+)?|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/)
+    if (number) {
+      const value = parseRational(number[1].replace(/,/g, ''))
+      const currency = symbol ? unitsForPrefix(symbol[1])[0] : null
+      return { value, unit: currency ?? unit(), exact: true, percent: false }
+    }
+    if (symbol) fail()
+
+    if (accept(/^\s*\(/)) {
+      const inner = sum()
+      if (!accept(/^\s*\)/)) fail()
+      return inner
+    }
+
+    const word = name()
+    if (isOwn(FUNCTIONS, word)) {
+      accept(/^\s*[a-z]+/)
+      operations += 1
+      return FUNCTIONS[word](postfix())
+    }
+    if (isOwn(CONSTANTS, word)) {
+      accept(/^\s*[a-zπ]+/)
+      return CONSTANTS[word]
+    }
+    return fail()
+  }
+
+  const postfix = (): Quantity => {
+    let quantity = primary()
+    for (;;) {
+      if (accept(/^\s*!/)) {
+        quantity = factorial(quantity)
+      } else if (accept(/^\s*%/)) {
+        quantity = { ...multiplyQuantities(quantity, scalar(rational(1n, 100n))), percent: true }
+      } else {
+        break
+      }
+      operations += 1
+    }
+    return quantity
+  }
+
+  const signed = (): Quantity => {
+    if (accept(/^\s*-/)) {
+      const quantity = signed()
+      return { ...quantity, value: negate(quantity.value) }
+    }
+    accept(/^\s*\+/)
+    const base = postfix()
+    if (accept(/^\s*(\*\*|\^)/)) {
+      operations += 1
+      return raise(base, signed())
+    }
+    return base
+  }
+
+  const product = (): Quantity => {
+    let quantity = signed()
+    for (;;) {
+      const operator = accept(/^\s*(\*|×|\/|÷|of\b)/)
+      // 2(3 + 4) and 2 pi multiply without a sign
+      const implicit = !operator && (/^\s*\(/.test(rest()) || isOwn(FUNCTIONS, name()) || isOwn(CONSTANTS, name()))
+      if (!operator && !implicit) break
+
+      operations += 1
+      const right = signed()
+      quantity = operator && (operator[1] === '/' || operator[1] === '÷')
+        ? divideQuantities(quantity, right)
+        : multiplyQuantities(quantity, right)
+    }
+    return quantity
+  }
+
+  const sum = (): Quantity => {
+    let quantity = product()
+    for (;;) {
+      const operator = accept(/^\s*([+-])/)
+      if (!operator) break
+      operations += 1
+      quantity = addQuantities(quantity, product(), operator[1] === '+' ? 1n : -1n)
+    }
+    return quantity
+  }
+
+  let result = sum()
+  const target = accept(/^\s*(?:to|in|into|as)\s+(.+)$/)
+  if (target) {
+    const targetUnit = findUnit(target[1], result.unit?.dimension)
+    if (!targetUnit) {
+      throw new CalculationError(`Unknown unit: ${target[1].trim()}`)
+    }
+    operations += 1
+    result = convert(result, targetUnit)
+  }
+  if (rest().trim()) fail()
+
+  return { result, operations }
+}
+
+// How many digits after the point keep `significant` significant digits of `value`
+const fractionDigitsFor = (value: Rational, significant: number) => {
+  const whole = toDecimal(value, 0).text.replace('-', '')
+  if (whole !== '0' || value.numerator === 0n) {
+    return Math.max(0, significant - whole.length)
+  }
+  let leadingZeros = 0
+  let scaled = value.numerator < 0n ? negate(value) : value
+  while (compare(scaled, rational(1n, 10n)) < 0 && leadingZeros < 1000) {
+    scaled = multiply(scaled, rational(10n))
+    leadingZeros += 1
+  }
+  return leadingZeros + significant
+}
+
+const groupThousands = (text: string) => {
+  const [whole, fraction] = text.split('.')
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+  return fraction ? `${grouped}.${fraction}` : grouped
+}
+
+const spokenForm = (value: Rational, unit: Unit | null, exact: boolean) => {
+  const wholeDigits = toDecimal(value, 0).text.replace('-', '').length
+  let words: string
+  let rounded = !exact
+
+  if (wholeDigits > SPOKEN_MAX_WHOLE_DIGITS) {
+    const exponent = wholeDigits - 1
+    const mantissa = toDecimal(divide(value, power(rational(10n), BigInt(exponent))), SPOKEN_SIGNIFICANT_DIGITS - 1)
+    words = `${mantissa.text} times 10 to the power of ${exponent}`
+    rounded = rounded || !mantissa.exact
+  } else {
+    const money = unit?.dimension === 'currency'
+    const decimal = toDecimal(value, money ? 2 : fractionDigitsFor(value, SPOKEN_SIGNIFICANT_DIGITS))
+    words = groupThousands(decimal.text)
+    rounded = rounded || (!money && !decimal.exact)
+  }
+
+  words = words.replace(/^-/, 'minus ')
+  const unitWords = unit ? ` ${compare(value, ONE) === 0 ? unit.singular : unit.plural}` : ''
+  return `${rounded ? 'about ' : ''}${words}${unitWords}`
+}
+
+// Amounts of money are shown to the cent: 3.50 USD, not 3.5 USD
+const toCents = (text: string) => {
+  const [whole, fraction = ''] = text.split('.')
+  return `${whole}.${fraction.padEnd(2, '0')}`
+}
+
+const describe = (expression: string, { value, unit, exact: exactSoFar }: Quantity): Calculation => {
+  const money = unit?.dimension === 'currency'
+  const fractionDigits = money
+    ? 2
+    : Math.max(DISPLAY_SIGNIFICANT_DIGITS, fractionDigitsFor(value, DISPLAY_SIGNIFICANT_DIGITS))
+  const decimal = toDecimal(value, fractionDigits)
+  const text = money ? toCents(decimal.text) : decimal.text
+  const exact = exactSoFar && decimal.exact
+
+  return {
+    expression,
+    value: text,
+    unit: unit?.symbol ?? null,
+    exact,
+    display: `${exact ? '' : '≈ '}${groupThousands(text)}${unit ? ` ${unit.symbol}` : ''}`,
+    spoken: spokenForm(value, unit, exactSoFar),
+    note: money ? `Exchange rates are a fixed table from ${CURRENCY_RATES_DATE}, not live rates` : undefined,
+  }
+}
+
+// Spoken phrasing, as it comes out of speech recognition, mapped onto the symbols `evaluate` reads
+const SPOKEN_REPLACEMENTS: [RegExp, string][] = [
+  [/\bper ?cent\b/g, '%'],
+  [/\b(?:raised )?to the power of\b/g, '^'],
+  [/\bto the (\d+)(?:st|nd|rd|th)(?: power)?\b/g, '^ $1'],
+  [/\bsquared\b/g, '^ 2'],
+  [/\bcubed\b/g, '^ 3'],
+  [/\bsquare root of\b/g, 'sqrt '],
+  [/\bcube root of\b/g, 'cbrt '],
+  [/\bfactorial\b/g, '!'],
+  [/\b(?:multiplied by|times)\b/g, '*'],
+  [/(\d)\s*x\s*(?=[\d(])/g, '$1 * '],
+  [/\b(?:divided by|over)\b/g, '/'],
+  [/\bplus\b/g, '+'],
+  [/\b(?:minus|negative)\b/g, '-'],
+  [/(\d) point (\d)/g, '$1.$2'],
+]
+
+// Turns "What's 17.5 percent of 2,340?" into '17.5 % of 2,340', and "how many feet in a mile" into
+// '1 mile to feet'
+export const normalizeMathQuestion = (question: string) => {
+  let text = question
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .trim()
+    .replace(/[?.=]+$/, '')
+    // A trailing '!' after a number is a factorial, not excitement
+    .replace(/([^\d)\s!])\s*!+$/, '$1')
+    .replace(/\s+please$/, '')
+
+  const howMany = /^how many (.+?) (?:are there |are )?in (?:an? |one )?(.+)$/.exec(text)
+  if (howMany) {
+    const [, target, source] = howMany
+    text = `${/^[\d.]/.test(source) ? '' : '1 '}${source} to ${target}`
+  }
+
+  text = text.replace(
+    /^(?:(?:hey |ok |okay )?nova,?\s+)?(?:please\s+)?(?:(?:what's|whats|what is|how much is|calculate|compute|work out|evaluate|convert|solve)\s+)+/,
+    '',
+  )
+  for (const [pattern, replacement] of SPOKEN_REPLACEMENTS) {
+    text = text.replace(pattern, replacement)
+  }
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+const preferredDimension = (expression: string) => {
+  const target = /\s(?:to|in|into|as)\s+([^()]+)$/.exec(expression)
+  return target ? findUnit(target[1])?.dimension : undefined
+}
+
+// Evaluates an expression exactly, with units, percentages and currencies. Accepts spoken phrasing too.
+// Throws a CalculationError, with a message fit to show, when the expression can't be worked out.
+export const calculate = (input: string): Calculation => {
+  const expression = normalizeMathQuestion(input)
+  if (!expression) {
+    throw new CalculationError('There is nothing to calculate')
+  }
+  try {
+    return describe(expression, evaluate(expression, preferredDimension(expression)).result)
+  } catch (error) {
+    if (error instanceof CalculationError) throw error
+    // Division by zero, oversized results and malformed numbers from the arithmetic itself
+    throw new CalculationError(error instanceof Error ? error.message : String(error))
+  }
+}
+
+// The answer when `question` is a calculation, or null for anything else (including a bare number), so callers
+// can try it on every message and let the rest through
+export const solveMathQuestion = (question: string): Calculation | null => {
+  const expression = normalizeMathQuestion(question)
+  try {
+    const { result, operations } = evaluate(expression, preferredDimension(expression))
+    return operations > 0 ? describe(expression, result) : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,64 @@
+// Shared between the edge functions and the web client (imported there as `@shared/chat-errors`),
+// so keep this file free of Deno- and browser-only APIs.
+
+export type ChatErrorCode =
+  | 'BAD_REQUEST'
+  | 'CONFIG_MISSING_KEY'
+  | 'CONFIG_INVALID'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_TIMEOUT'
+  | 'UPSTREAM_ERROR'
+  | 'EMPTY_RESPONSE'
+  | 'CONTENT_BLOCKED'
+  | 'INTERNAL'
+
+export const chatErrorStatus: Record<ChatErrorCode, number> = {
+  BAD_REQUEST: 400,
+  CONFIG_MISSING_KEY: 500,
+  CONFIG_INVALID: 500,
+  UPSTREAM_RATE_LIMITED: 429,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  EMPTY_RESPONSE: 502,
+  CONTENT_BLOCKED: 422,
+  INTERNAL: 500,
+}
+
+export interface ChatErrorPayload {
+  code: ChatErrorCode
+  message: string
+}
+
+// Body of every failed `chat` response; `response` is a fallback line the client can speak
+export interface ChatErrorBody {
+  success: false
+  error: ChatErrorPayload
+  response: string
+}
+
+export const isChatErrorCode = (value: unknown): value is ChatErrorCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(chatErrorStatus, value)
+
+export class ChatError extends Error {
+  readonly code: ChatErrorCode
+
+  constructor(code: ChatErrorCode, message: string) {
+    super(message)
+    this.name = 'ChatError'
+    this.code = code
+  }
+
+  get status() {
+    return chatErrorStatus[this.code]
+  }
+
+  toPayload(): ChatErrorPayload {
+    return { code: this.code, message: this.message }
+  }
+}
+
+// Normalises anything thrown inside a function into a ChatError
+export const toChatError = (error: unknown): ChatError => {
+  if (error instanceof ChatError) return error
+  return new ChatError('INTERNAL', error instanceof Error ? error.message : String(error))
+}
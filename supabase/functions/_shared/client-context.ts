@@ -0,0 +1,15 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/client-context`),
+// so keep this file free of Deno- and browser-only APIs.
+
+// What the browser knows about the user's circumstances, sent with each `chat` request so the model and its
+// tools can work with the user's own clock and time zone instead of guessing
+export interface ClientContext {
+  // The device clock, as an ISO 8601 timestamp
+  localTime: string
+  // IANA time zone, e.g. 'Europe/Berlin'
+  timezone: string
+  // BCP 47 locale, e.g. 'de-DE'; left out when the server couldn't make sense of it
+  locale?: string
+  // Rounded to about 10 km; only sent when the user has chosen to share it
+  location?: { latitude: number; longitude: number }
+}
@@ -0,0 +1,12 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/json-schema`),
+// so keep this file free of Deno- and browser-only APIs.
+
+// A JSON Schema for tool arguments. Only the subset providers agree on is described here.
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array'
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: (string | number)[]
+}
@@ -0,0 +1,41 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { detectLanguage, languageFromTag } from './languages.ts'
+
+Deno.test('detects Latin-script languages from common words', () => {
+  assertEquals(detectLanguage('What is the weather like today?'), 'en')
+  assertEquals(detectLanguage('¿Cómo está el tiempo hoy?'), 'es')
+  assertEquals(detectLanguage("Qu'est-ce que c'est et comment ça marche ?"), 'fr')
+  assertEquals(detectLanguage('Wie ist das Wetter heute?'), 'de')
+  assertEquals(detectLanguage('Che cosa è il tempo oggi?'), 'it')
+  assertEquals(detectLanguage('Você pode me ajudar com uma tradução?'), 'pt')
+})
+
+Deno.test('does not mistake short English commands for another language', () => {
+  assertEquals(detectLanguage('Set a timer for 10 minutes'), 'en')
+  assertEquals(detectLanguage('Remind me to take a note'), 'en')
+  // Nothing here is distinctive either way, so the caller falls back to the conversation's language
+  assertEquals(detectLanguage('Start a 5 minute timer'), null)
+  assertEquals(detectLanguage('take a note'), null)
+  assertEquals(detectLanguage('What was that?'), 'en')
+})
+
+Deno.test('detects languages by script', () => {
+  assertEquals(detectLanguage('Какая сегодня погода?'), 'ru')
+  assertEquals(detectLanguage('आज मौसम कैसा है?'), 'hi')
+  assertEquals(detectLanguage('今日の天気はどうですか'), 'ja')
+  assertEquals(detectLanguage('今天天气怎么样'), 'zh')
+  assertEquals(detectLanguage('오늘 날씨 어때요?'), 'ko')
+  assertEquals(detectLanguage('كيف الطقس اليوم؟'), 'ar')
+})
+
+Deno.test('gives up when there is nothing to go on', () => {
+  assertEquals(detectLanguage('OK'), null)
+  assertEquals(detectLanguage('42'), null)
+})
+
+Deno.test('maps speech tags to supported languages', () => {
+  assertEquals(languageFromTag('pt-BR'), 'pt')
+  assertEquals(languageFromTag('EN'), 'en')
+  assertEquals(languageFromTag('es_MX'), 'es')
+  assertEquals(languageFromTag('nl-NL'), null)
+})
@@ -0,0 +1,93 @@
+// Shared between the edge functions and the web client (imported there as `@shared/languages`),
+// so keep this file free of Deno- and browser-only APIs.
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'ru' | 'ar' | 'hi' | 'zh' | 'ja' | 'ko'
+
+export interface LanguageInfo {
+  code: LanguageCode
+  name: string
+  // Name in the language itself, for pickers and for the model instruction
+  nativeName: string
+  // BCP 47 tag used for the recognizer and for picking a speech synthesis voice
+  speechTag: string
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageInfo> = {
+  en: { code: 'en', name: 'English', nativeName: 'English', speechTag: 'en-US' },
+  es: { code: 'es', name: 'Spanish', nativeName: 'Español', speechTag: 'es-ES' },
+  fr: { code: 'fr', name: 'French', nativeName: 'Français', speechTag: 'fr-FR' },
+  de: { code: 'de', name: 'German', nativeName: 'Deutsch', speechTag: 'de-DE' },
+  it: { code: 'it', name: 'Italian', nativeName: 'Italiano', speechTag: 'it-IT' },
+  pt: { code: 'pt', name: 'Portuguese', nativeName: 'Português', speechTag: 'pt-BR' },
+  ru: { code: 'ru', name: 'Russian', nativeName: 'Русский', speechTag: 'ru-RU' },
+  ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', speechTag: 'ar-SA' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', speechTag: 'hi-IN' },
+  zh: { code: 'zh', name: 'Chinese', nativeName: '中文', speechTag: 'zh-CN' },
+  ja: { code: 'ja', name: 'Japanese', nativeName: '日本語', speechTag: 'ja-JP' },
+  ko: { code: 'ko', name: 'Korean', nativeName: '한국어', speechTag: 'ko-KR' },
+}
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value)
+
+// The language part of a BCP 47 tag ('pt-BR' -> 'pt'; some platforms report 'pt_BR'), if it is one we support
+export const languageFromTag = (tag: string): LanguageCode | null => {
+  const code = tag.split(/[-_]/)[0].toLowerCase()
+  return isLanguageCode(code) ? code : null
+}
+
+// Scripts that identify a language on their own. Kana is checked before Han, since Japanese mixes both.
+const SCRIPTS: [RegExp, LanguageCode][] = [
+  [/[぀-ヿ]/, 'ja'],
+  [/[가-힯]/, 'ko'],
+  [/[一-鿿]/, 'zh'],
+  [/[ऀ-ॿ]/, 'hi'],
+  [/[؀-ۿ]/, 'ar'],
+  [/[Ѐ-ӿ]/, 'ru'],
+]
+
+// Very common words, which is enough to tell the Latin-script languages apart in a sentence or two. Single
+// letters and words that are also English ("a", "as", "come", "um", "was") are left out: in a command as short
+// as "take a note", one of them would outvote the English.
+const COMMON_WORDS: Partial<Record<LanguageCode, string[]>> = {
+  en: ['the', 'is', 'are', 'and', 'what', 'how', 'you', 'to', 'of', 'it', 'me', 'my', 'this', 'can', 'do', 'with', 'for', 'that', 'your', 'please'],
+  es: ['el', 'la', 'los', 'las', 'es', 'que', 'qué', 'cómo', 'de', 'por', 'para', 'un', 'una', 'yo', 'mi', 'con', 'está'],
+  fr: ['le', 'la', 'les', 'est', 'et', 'que', 'quoi', 'comment', 'de', 'des', 'un', 'une', 'je', 'tu', 'vous', 'pour', 'avec', "c'est"],
+  de: ['der', 'die', 'das', 'ist', 'und', 'wie', 'ich', 'du', 'sie', 'ein', 'eine', 'nicht', 'mit', 'für', 'mein', 'zu'],
+  it: ['il', 'lo', 'la', 'gli', 'che', 'cosa', 'di', 'un', 'una', 'io', 'per', 'con', 'sono', 'mi'],
+  pt: ['os', 'que', 'como', 'de', 'uma', 'eu', 'você', 'para', 'com', 'não', 'meu', 'está'],
+}
+
+// Letters only one of the Latin-script languages uses
+const DISTINCTIVE_LETTERS: [RegExp, LanguageCode][] = [
+  [/[ñ¿¡]/, 'es'],
+  [/[ãõ]/, 'pt'],
+  [/[ßäöü]/, 'de'],
+  [/[œçêèë]/, 'fr'],
+]
+
+// Best guess at the language of a short utterance, or null when there isn't enough to go on.
+// Deliberately simple and deterministic: it only has to pick between the languages we support.
+export const detectLanguage = (text: string): LanguageCode | null => {
+  for (const [script, code] of SCRIPTS) {
+    if (script.test(text)) return code
+  }
+
+  const lower = text.toLowerCase()
+  const words = lower.match(/[\p{L}']+/gu) ?? []
+  const scores = new Map<LanguageCode, number>()
+  for (const [code, common] of Object.entries(COMMON_WORDS) as [LanguageCode, string[]][]) {
+    const vocabulary = new Set(common)
+    scores.set(code, words.filter((word) => vocabulary.has(word)).length)
+  }
+  for (const [letters, code] of DISTINCTIVE_LETTERS) {
+    if (letters.test(lower)) {
+      scores.set(code, (scores.get(code) ?? 0) + 2)
+    }
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1])
+  const [best, runnerUp] = ranked
+  if (!best || best[1] === 0 || best[1] === runnerUp?.[1]) return null
+  return best[0]
+}
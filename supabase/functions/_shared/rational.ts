@@ -0,0 +1,153 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/rational`),
+// so keep this file free of Deno- and browser-only APIs.
+
+// Exact arithmetic on fractions of BigInts, so 0.1 + 0.2 is 0.3 and 2^100 keeps all its digits.
+// Always in lowest terms, with the sign on the numerator.
+export interface Rational {
+  numerator: bigint
+  denominator: bigint
+}
+
+// Results with more digits than this are refused rather than left to exhaust memory
+export const MAX_DIGITS = 1000
+
+const DECIMAL = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i
+
+const abs = (value: bigint) => (value < 0n ? -value : value)
+
+const gcd = (a: bigint, b: bigint): bigint => {
+  let [x, y] = [abs(a), abs(b)]
+  while (y) {
+    [x, y] = [y, x % y]
+  }
+  return x
+}
+
+const digitCount = (value: bigint) => abs(value).toString().length
+
+export const rational = (numerator: bigint, denominator = 1n): Rational => {
+  if (denominator === 0n) {
+    throw new RangeError('Division by zero')
+  }
+  const sign = denominator < 0n ? -1n : 1n
+  const divisor = gcd(numerator, denominator) || 1n
+  return { numerator: (sign * numerator) / divisor, denominator: (sign * denominator) / divisor }
+}
+
+export const ZERO = rational(0n)
+export const ONE = rational(1n)
+
+// Parses '17.5', '-0.25', '1e6' or '2/3' exactly
+export const parseRational = (text: string): Rational => {
+  const [top, bottom] = text.split('/')
+  if (bottom !== undefined) {
+    return divide(parseRational(top), parseRational(bottom))
+  }
+
+  const match = DECIMAL.exec(text.trim())
+  if (!match || !(match[2] || match[3])) {
+    throw new SyntaxError(`Not a number: ${text}`)
+  }
+  const [, sign, whole, fraction = '', exponentText = '0'] = match
+  const exponent = Number(exponentText) - fraction.length
+  if (Math.abs(exponent) > MAX_DIGITS) {
+    throw new RangeError('Number is too large')
+  }
+  const digits = BigInt(`${sign}${whole || '0'}${fraction}`)
+  const scale = 10n ** BigInt(Math.abs(exponent))
+  return exponent >= 0 ? rational(digits * scale) : rational(digits, scale)
+}
+
+// Floats are taken at their shortest round-tripping decimal, so 0.1 becomes exactly 1/10
+export const fromNumber = (value: number): Rational => {
+  if (!Number.isFinite(value)) {
+    throw new RangeError('Result is not a finite number')
+  }
+  return parseRational(String(value))
+}
+
+export const toNumber = ({ numerator, denominator }: Rational) => {
+  // Dividing as floats overflows once both parts are huge, so scale them down together first
+  const excess = Math.max(0, Math.min(digitCount(numerator), digitCount(denominator)) - 300)
+  const scale = 10n ** BigInt(excess)
+  return Number(numerator / scale) / Number(denominator / scale)
+}
+
+const checkSize = (value: Rational) => {
+  if (digitCount(value.numerator) > MAX_DIGITS || digitCount(value.denominator) > MAX_DIGITS) {
+    throw new RangeError('Result is too large')
+  }
+  return value
+}
+
+export const add = (a: Rational, b: Rational) =>
+  checkSize(rational(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator))
+
+export const negate = (a: Rational) => rational(-a.numerator, a.denominator)
+
+export const subtract = (a: Rational, b: Rational) => add(a, negate(b))
+
+export const multiply = (a: Rational, b: Rational) =>
+  checkSize(rational(a.numerator * b.numerator, a.denominator * b.denominator))
+
+export const divide = (a: Rational, b: Rational) =>
+  checkSize(rational(a.numerator * b.denominator, a.denominator * b.numerator))
+
+export const isInteger = (a: Rational) => a.denominator === 1n
+
+export const compare = (a: Rational, b: Rational) => {
+  const difference = a.numerator * b.denominator - b.numerator * a.denominator
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1
+}
+
+// Integer powers only; callers fall back to floats for anything else
+export const power = (base: Rational, exponent: bigint): Rational => {
+  if (exponent < 0n) {
+    return power(divide(ONE, base), -exponent)
+  }
+  // A b-bit number raised to the e has at least (b - 1)·e bits
+  const bits = Math.max(abs(base.numerator).toString(2).length, base.denominator.toString(2).length)
+  if ((bits - 1) * Number(exponent) > MAX_DIGITS * Math.log2(10)) {
+    throw new RangeError('Result is too large')
+  }
+  return rational(base.numerator ** exponent, base.denominator ** exponent)
+}
+
+// The exact integer square root, or null when `value` isn't a perfect square
+const integerSquareRoot = (value: bigint): bigint | null => {
+  if (value < 2n) return value
+  // Newton's method, starting above the root so it falls steadily onto floor(√value)
+  let root = 1n << BigInt(Math.ceil(value.toString(2).length / 2))
+  for (;;) {
+    const next = (root + value / root) >> 1n
+    if (next >= root) break
+    root = next
+  }
+  return root * root === value ? root : null
+}
+
+export const exactSquareRoot = ({ numerator, denominator }: Rational): Rational | null => {
+  if (numerator < 0n) return null
+  const top = integerSquareRoot(numerator)
+  const bottom = integerSquareRoot(denominator)
+  return top !== null && bottom !== null ? rational(top, bottom) : null
+}
+
+// Written out as a decimal with at most `maxFractionDigits` after the point, rounding half away from zero.
+// `exact` says whether anything was lost; 1/3 never is exact, 1/8 is once three digits are allowed.
+export const toDecimal = (value: Rational, maxFractionDigits: number): { text: string; exact: boolean } => {
+  const negative = value.numerator < 0n
+  const scale = 10n ** BigInt(maxFractionDigits)
+  const scaled = abs(value.numerator) * scale
+  let units = scaled / value.denominator
+  const remainder = scaled % value.denominator
+  if (remainder * 2n >= value.denominator) {
+    units += 1n
+  }
+
+  const digits = units.toString().padStart(maxFractionDigits + 1, '0')
+  const whole = digits.slice(0, digits.length - maxFractionDigits)
+  const fraction = digits.slice(digits.length - maxFractionDigits).replace(/0+$/, '')
+  const text = fraction ? `${whole}.${fraction}` : whole
+  return { text: negative && text !== '0' ? `-${text}` : text, exact: remainder === 0n }
+}
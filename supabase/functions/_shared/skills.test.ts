@@ -0,0 +1,58 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { findManifestProblem, resolveSkillSettings, type SkillManifest } from './skills.ts'
+
+const manifest: SkillManifest = {
+  name: 'weather',
+  title: 'Weather',
+  description: 'Forecasts for the next few days',
+  version: '1.0.0',
+  triggers: ["what's the weather"],
+  tools: [
+    {
+      name: 'weather_forecast',
+      description: 'Gets the forecast for a city',
+      parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+    },
+  ],
+  settings: [
+    { key: 'units', label: 'Units', type: 'select', options: ['metric', 'imperial'], default: 'metric' },
+    { key: 'days', label: 'Days ahead', type: 'number', default: 3 },
+    { key: 'city', label: 'Home city', type: 'text', default: '' },
+  ],
+}
+
+Deno.test('accepts a well-formed manifest', () => {
+  assertEquals(findManifestProblem(manifest), null)
+})
+
+Deno.test('explains what is wrong with a manifest', () => {
+  assertEquals(
+    findManifestProblem({ ...manifest, name: 'Weather Skill' }),
+    'skill name "Weather Skill" must be lowercase letters, digits and underscores',
+  )
+  assertEquals(
+    findManifestProblem({ ...manifest, tools: [{ ...manifest.tools[0], name: 'forecast' }] }),
+    'tool "forecast" must be named weather_…',
+  )
+  assertEquals(
+    findManifestProblem({ ...manifest, settings: [{ key: 'days', label: 'Days', type: 'number', default: '3' }] }),
+    'setting "days" must default to a number',
+  )
+  assertEquals(
+    findManifestProblem({
+      ...manifest,
+      settings: [{ key: 'units', label: 'Units', type: 'select', options: ['metric'], default: 'kelvin' }],
+    }),
+    `setting "units" defaults to a value that isn't one of its options`,
+  )
+})
+
+Deno.test('fills in defaults and drops settings of the wrong type', () => {
+  assertEquals(resolveSkillSettings(manifest, { units: 'imperial', days: 'five', extra: true }), {
+    units: 'imperial',
+    days: 3,
+    city: '',
+  })
+  assertEquals(resolveSkillSettings(manifest, { units: 'kelvin' }).units, 'metric')
+  assertEquals(resolveSkillSettings(manifest, null), { units: 'metric', days: 3, city: '' })
+})
@@ -0,0 +1,98 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/skills`),
+// so keep this file free of Deno- and browser-only APIs.
+
+import type { JsonSchema } from './json-schema.ts'
+
+export type SkillSettingValue = string | number | boolean
+
+// A skill's settings by key, as the user chose them
+export type SkillSettingValues = Record<string, SkillSettingValue>
+
+// One field on the skill's card in Settings
+export interface SkillSetting {
+  key: string
+  label: string
+  description?: string
+  type: 'text' | 'number' | 'boolean' | 'select'
+  default: SkillSettingValue
+  // The choices of a 'select'
+  options?: string[]
+}
+
+// A tool the skill offers the model. Its handler lives in the skill's server module.
+export interface SkillToolSchema {
+  name: string
+  description: string
+  parameters: JsonSchema & { type: 'object' }
+}
+
+// Describes a skill to both halves of Nova: the web client shows and configures it, and the `chat` function
+// offers its tools to the model while the user has it turned on
+export interface SkillManifest {
+  // Identifies the skill in settings and requests: lowercase letters, digits and underscores. The names of its
+  // tools and intents start with it.
+  name: string
+  title: string
+  description: string
+  version: string
+  // Phrases that call for the skill, e.g. "look up ticket 42". The model is told about them, so it knows when
+  // to reach for the skill's tools.
+  triggers: string[]
+  tools: SkillToolSchema[]
+  settings: SkillSetting[]
+}
+
+const SKILL_NAME = /^[a-z][a-z0-9_]*$/
+
+const settingProblem = ({ key, type, default: value, options }: SkillSetting) => {
+  if (type === 'select') {
+    if (!options?.length) return `setting "${key}" needs options`
+    return options.includes(String(value)) ? null : `setting "${key}" defaults to a value that isn't one of its options`
+  }
+  const expected = type === 'text' ? 'string' : type
+  return typeof value === expected ? null : `setting "${key}" must default to a ${expected}`
+}
+
+// What is wrong with a manifest, or null when nothing is. Both loaders refuse skills with a problem.
+export const findManifestProblem = (manifest: SkillManifest): string | null => {
+  const { name, title, tools, settings } = manifest
+  if (!SKILL_NAME.test(name)) {
+    return `skill name "${name}" must be lowercase letters, digits and underscores`
+  }
+  if (!title.trim()) return 'a title is required'
+
+  const toolNames = new Set<string>()
+  for (const tool of tools) {
+    if (!tool.name.startsWith(`${name}_`)) return `tool "${tool.name}" must be named ${name}_…`
+    if (toolNames.has(tool.name)) return `tool "${tool.name}" is listed twice`
+    if (tool.parameters.type !== 'object') return `tool "${tool.name}" must take an object of arguments`
+    toolNames.add(tool.name)
+  }
+
+  const keys = new Set<string>()
+  for (const setting of settings) {
+    if (keys.has(setting.key)) return `setting "${setting.key}" is listed twice`
+    keys.add(setting.key)
+    const problem = settingProblem(setting)
+    if (problem) return problem
+  }
+  return null
+}
+
+const isSettingValue = ({ type, options }: SkillSetting, value: unknown) => {
+  if (type === 'select') return typeof value === 'string' && options!.includes(value)
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value)
+  return typeof value === (type === 'text' ? 'string' : 'boolean')
+}
+
+// The skill's settings with defaults filled in. Unknown keys and values of the wrong type are dropped, so
+// settings saved by an older version of a skill can't break a newer one.
+export const resolveSkillSettings = (manifest: SkillManifest, values: unknown): SkillSettingValues => {
+  const given = values && typeof values === 'object' ? (values as Record<string, unknown>) : {}
+  return Object.fromEntries(
+    manifest.settings.map((setting) => {
+      const value = Object.prototype.hasOwnProperty.call(given, setting.key) ? given[setting.key] : undefined
+      return [setting.key, isSettingValue(setting, value) ? (value as SkillSettingValue) : setting.default]
+    }),
+  )
+}
@@ -0,0 +1,18 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/tool-invocations`),
+// so keep this file free of Deno- and browser-only APIs.
+
+// `timeout`: the tool did not finish within its time limit
+export type ToolInvocationStatus = 'ok' | 'error' | 'timeout'
+
+// A tool the model called while answering, as reported to the client alongside the reply
+export interface ToolInvocation {
+  id: string
+  name: string
+  arguments: unknown
+  status: ToolInvocationStatus
+  // What the tool returned, when it succeeded
+  result?: unknown
+  // What went wrong, otherwise; the model sees the same message
+  error?: string
+  durationMs: number
+}
@@ -0,0 +1,214 @@
+// Shared between the `chat` function and the web client (imported there as `@shared/units`),
+// so keep this file free of Deno- and browser-only APIs.
+
+import { parseRational, type Rational, ZERO } from './rational.ts'
+
+export type Dimension =
+  | 'length'
+  | 'mass'
+  | 'volume'
+  | 'area'
+  | 'time'
+  | 'speed'
+  | 'temperature'
+  | 'data'
+  | 'currency'
+
+export interface Unit {
+  // Short symbol shown with results, e.g. 'km' or 'EUR'
+  symbol: string
+  // Spoken names, e.g. ['kilometre', 'kilometres']
+  singular: string
+  plural: string
+  dimension: Dimension
+  // Size in the dimension's base unit (metres, kilograms, litres, square metres, seconds, metres per
+  // second, kelvin, bytes, US dollars)...
+  factor: Rational
+  // ...and where zero lies in it, which only matters for temperatures
+  offset: Rational
+  // Every way of writing the unit, lowercased; may contain spaces ('fluid ounces') and symbols ('°f')
+  aliases: string[]
+  // Written before the amount, as in '$5'
+  prefix?: string
+}
+
+// Exchange rates are a fixed offline table, so conversions work without a network and give the same answer
+// every time. Amounts are per US dollar.
+export const CURRENCY_RATES_DATE = '2024-06-03'
+
+const CURRENCY_RATES: [symbol: string, perDollar: string, singular: string, plural: string, aliases: string[]][] = [
+  ['USD', '1', 'US dollar', 'US dollars', ['$', 'dollar', 'dollars', 'us dollars', 'bucks']],
+  ['EUR', '0.9195', 'euro', 'euros', ['€']],
+  ['GBP', '0.7826', 'British pound', 'British pounds', ['£', 'pound', 'pounds', 'pounds sterling', 'quid']],
+  ['JPY', '156.95', 'Japanese yen', 'Japanese yen', ['¥', 'yen']],
+  ['CNY', '7.2424', 'Chinese yuan', 'Chinese yuan', ['yuan', 'renminbi', 'rmb']],
+  ['INR', '83.14', 'Indian rupee', 'Indian rupees', ['₹', 'rupee', 'rupees']],
+  ['CAD', '1.3658', 'Canadian dollar', 'Canadian dollars', ['canadian dollar']],
+  ['AUD', '1.4995', 'Australian dollar', 'Australian dollars', ['australian dollar']],
+  ['NZD', '1.6242', 'New Zealand dollar', 'New Zealand dollars', ['new zealand dollar']],
+  ['CHF', '0.8995', 'Swiss franc', 'Swiss francs', ['franc', 'francs', 'swiss franc']],
+  ['SEK', '10.4867', 'Swedish krona', 'Swedish kronor', ['swedish krona']],
+  ['NOK', '10.4681', 'Norwegian krone', 'Norwegian kroner', ['norwegian krone']],
+  ['DKK', '6.8609', 'Danish krone', 'Danish kroner', ['danish krone']],
+  ['MXN', '17.0108', 'Mexican peso', 'Mexican pesos', ['peso', 'pesos', 'mexican peso']],
+  ['BRL', '5.2437', 'Brazilian real', 'Brazilian reais', ['real', 'reais']],
+  ['KRW', '1376.4', 'South Korean won', 'South Korean won', ['₩', 'won']],
+  ['SGD', '1.3485', 'Singapore dollar', 'Singapore dollars', ['singapore dollar']],
+  ['HKD', '7.8216', 'Hong Kong dollar', 'Hong Kong dollars', ['hong kong dollar']],
+  ['ZAR', '18.6833', 'South African rand', 'South African rand', ['rand']],
+  ['AED', '3.6725', 'UAE dirham', 'UAE dirhams', ['dirham', 'dirhams']],
+  ['RUB', '89.45', 'Russian ruble', 'Russian rubles', ['ruble', 'rubles', 'rouble', 'roubles']],
+  ['TRY', '32.17', 'Turkish lira', 'Turkish lira', ['lira']],
+  ['PLN', '3.9385', 'Polish zloty', 'Polish zloty', ['zloty', 'zlotys']],
+]
+
+// [symbol, size in base units, singular, plural, other aliases]
+type UnitRow = [symbol: string, factor: string, singular: string, plural: string, aliases: string[]]
+
+const UNIT_TABLE: Record<Exclude<Dimension, 'temperature' | 'currency'>, UnitRow[]> = {
+  length: [
+    ['mm', '0.001', 'millimetre', 'millimetres', ['millimeter', 'millimeters']],
+    ['cm', '0.01', 'centimetre', 'centimetres', ['centimeter', 'centimeters']],
+    ['m', '1', 'metre', 'metres', ['meter', 'meters']],
+    ['km', '1000', 'kilometre', 'kilometres', ['kilometer', 'kilometers', 'kms']],
+    ['in', '0.0254', 'inch', 'inches', ['"']],
+    ['ft', '0.3048', 'foot', 'feet', ["'"]],
+    ['yd', '0.9144', 'yard', 'yards', []],
+    ['mi', '1609.344', 'mile', 'miles', []],
+    ['nmi', '1852', 'nautical mile', 'nautical miles', []],
+  ],
+  mass: [
+    ['mg', '0.000001', 'milligram', 'milligrams', ['milligramme', 'milligrammes']],
+    ['g', '0.001', 'gram', 'grams', ['gramme', 'grammes']],
+    ['kg', '1', 'kilogram', 'kilograms', ['kilo', 'kilos', 'kilogramme', 'kilogrammes']],
+    ['t', '1000', 'tonne', 'tonnes', ['metric ton', 'metric tons']],
+    ['oz', '0.028349523125', 'ounce', 'ounces', []],
+    ['lb', '0.45359237', 'pound', 'pounds', ['lbs']],
+    ['st', '6.35029318', 'stone', 'stone', ['stones']],
+  ],
+  volume: [
+    ['ml', '0.001', 'millilitre', 'millilitres', ['milliliter', 'milliliters']],
+    ['cl', '0.01', 'centilitre', 'centilitres', ['centiliter', 'centiliters']],
+    ['l', '1', 'litre', 'litres', ['liter', 'liters']],
+    ['m³', '1000', 'cubic metre', 'cubic metres', ['m3', 'cubic meter', 'cubic meters']],
+    ['tsp', '0.00492892159375', 'teaspoon', 'teaspoons', []],
+    ['tbsp', '0.01478676478125', 'tablespoon', 'tablespoons', []],
+    ['fl oz', '0.0295735295625', 'fluid ounce', 'fluid ounces', []],
+    ['cup', '0.2365882365', 'cup', 'cups', []],
+    ['pt', '0.473176473', 'pint', 'pints', []],
+    ['qt', '0.946352946', 'quart', 'quarts', []],
+    ['gal', '3.785411784', 'gallon', 'gallons', []],
+  ],
+  area: [
+    ['cm²', '0.0001', 'square centimetre', 'square centimetres', ['cm2', 'square centimeter', 'square centimeters']],
+    ['m²', '1', 'square metre', 'square metres', ['m2', 'sq m', 'square meter', 'square meters']],
+    ['km²', '1000000', 'square kilometre', 'square kilometres', ['km2', 'square kilometer', 'square kilometers']],
+    ['ft²', '0.09290304', 'square foot', 'square feet', ['ft2', 'sq ft']],
+    ['mi²', '2589988.110336', 'square mile', 'square miles', ['mi2', 'sq mi']],
+    ['ha', '10000', 'hectare', 'hectares', []],
+    ['ac', '4046.8564224', 'acre', 'acres', []],
+  ],
+  time: [
+    ['ms', '0.001', 'millisecond', 'milliseconds', []],
+    ['s', '1', 'second', 'seconds', ['sec', 'secs']],
+    ['min', '60', 'minute', 'minutes', ['mins']],
+    ['h', '3600', 'hour', 'hours', ['hr', 'hrs']],
+    ['d', '86400', 'day', 'days', []],
+    ['wk', '604800', 'week', 'weeks', []],
+    // A 365-day year; calendar questions belong to the date tools
+    ['yr', '31536000', 'year', 'years', []],
+  ],
+  speed: [
+    ['m/s', '1', 'metre per second', 'metres per second', ['meters per second']],
+    ['km/h', '5/18', 'kilometre per hour', 'kilometres per hour', ['kph', 'kmh', 'kilometers per hour']],
+    ['mph', '0.44704', 'mile per hour', 'miles per hour', []],
+    ['kn', '463/900', 'knot', 'knots', []],
+  ],
+  data: [
+    ['bit', '1/8', 'bit', 'bits', []],
+    ['B', '1', 'byte', 'bytes', []],
+    ['KB', '1000', 'kilobyte', 'kilobytes', []],
+    ['MB', '1000000', 'megabyte', 'megabytes', []],
+    ['GB', '1000000000', 'gigabyte', 'gigabytes', ['gigs']],
+    ['TB', '1000000000000', 'terabyte', 'terabytes', []],
+    ['KiB', '1024', 'kibibyte', 'kibibytes', []],
+    ['MiB', '1048576', 'mebibyte', 'mebibytes', []],
+    ['GiB', '1073741824', 'gibibyte', 'gibibytes', []],
+    ['TiB', '1099511627776', 'tebibyte', 'tebibytes', []],
+  ],
+}
+
+const buildUnits = (): Unit[] => {
+  const units: Unit[] = []
+  const addUnit = (
+    [symbol, factor, singular, plural, aliases]: UnitRow,
+    dimension: Dimension,
+    offset = ZERO,
+    prefix?: string,
+  ) => {
+    units.push({
+      symbol,
+      singular,
+      plural,
+      dimension,
+      factor: parseRational(factor),
+      offset,
+      aliases: [...new Set([symbol, singular, plural, ...aliases].map((alias) => alias.toLowerCase()))],
+      prefix,
+    })
+  }
+
+  for (const [dimension, rows] of Object.entries(UNIT_TABLE)) {
+    for (const row of rows) {
+      addUnit(row, dimension as Dimension)
+    }
+  }
+
+  // Kelvin is the base; a Fahrenheit degree is 5/9 of a kelvin, and 0 °F is 459.67 of them above absolute zero
+  addUnit(['°C', '1', 'degree Celsius', 'degrees Celsius', ['c', 'celsius', 'centigrade', 'degrees c']], 'temperature', parseRational('273.15'))
+  addUnit(['°F', '5/9', 'degree Fahrenheit', 'degrees Fahrenheit', ['f', 'fahrenheit', 'degrees f']], 'temperature', parseRational('45967/180'))
+  addUnit(['K', '1', 'kelvin', 'kelvin', ['kelvins']], 'temperature')
+
+  for (const [symbol, perDollar, singular, plural, aliases] of CURRENCY_RATES) {
+    const prefix = aliases.find((alias) => alias.length === 1)
+    addUnit([symbol, `1/${perDollar}`, singular, plural, aliases], 'currency', ZERO, prefix)
+  }
+
+  return units
+}
+
+export const UNITS = buildUnits()
+
+// Aliases shared by several units ('pounds' is money and weight) list every candidate, in table order
+const unitsByAlias = new Map<string, Unit[]>()
+for (const unit of UNITS) {
+  for (const alias of unit.aliases) {
+    unitsByAlias.set(alias, [...(unitsByAlias.get(alias) ?? []), unit])
+  }
+}
+
+// Longest aliases first, so 'fluid ounces' wins over 'ounces' and 'km/h' over 'km'
+const aliasesByLength = [...unitsByAlias.keys()].sort((a, b) => b.length - a.length)
+
+// The unit named at the start of `text`, and how much of `text` it took up. An ambiguous alias resolves to
+// a unit of the `preferred` dimension when there is one. Aliases must end at a word boundary, so the 'k' of
+// 'kelvin' isn't read as kilometres.
+export const matchUnit = (text: string, preferred?: Dimension): { unit: Unit; length: number } | null => {
+  const lower = text.toLowerCase()
+  for (const alias of aliasesByLength) {
+    if (!lower.startsWith(alias)) continue
+    if (/^[a-z]/.test(lower.slice(alias.length)) && /[a-z]$/.test(alias)) continue
+
+    const candidates = unitsByAlias.get(alias)!
+    const unit = candidates.find((candidate) => candidate.dimension === preferred) ?? candidates[0]
+    return { unit, length: alias.length }
+  }
+  return null
+}
+
+export const findUnit = (name: string, preferred?: Dimension): Unit | null => {
+  const match = matchUnit(name.trim(), preferred)
+  return match && match.length === name.trim().length ? match.unit : null
+}
+
+export const unitsForPrefix = (symbol: string) => UNITS.filter((unit) => unit.prefix === symbol)
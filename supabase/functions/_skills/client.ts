@@ -0,0 +1,7 @@
+import type { ClientSkill } from '@/lib/skills';
+import { standupNotes } from './standup-notes/client';
+import { ticketLookup } from './ticket-lookup/client';
+
+// Every installed skill's half in the web client. Skills with tools also need their server half listed in
+// `server.ts`.
+export const clientSkills: ClientSkill[] = [standupNotes, ticketLookup];
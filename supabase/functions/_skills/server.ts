@@ -0,0 +1,6 @@
+import type { ServerSkill } from '../chat/skills/index.ts'
+import { ticketLookup } from './ticket-lookup/server.ts'
+
+// Skills with tools for the model. Each lives in its own directory here, next to its manifest and its half in
+// the web client (listed in `client.ts`).
+export const serverSkills: ServerSkill[] = [ticketLookup]
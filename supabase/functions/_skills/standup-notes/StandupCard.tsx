@@ -0,0 +1,27 @@
+import { ClipboardList } from 'lucide-react';
+import type { SkillCardProps } from '@/lib/skills';
+import { formatClockTime } from '@/lib/reminders';
+import type { StandupNote } from './notes';
+
+// Lists the notes after adding or reading them; clearing has nothing to show
+export const StandupCard = ({ invocation }: SkillCardProps) => {
+  const notes = (invocation.result as { notes?: StandupNote[] }).notes;
+  if (!notes?.length) return null;
+
+  return (
+    <div className="mt-3 rounded-lg bg-muted p-3">
+      <h4 className="flex items-center gap-2 mb-2 text-sm font-medium">
+        <ClipboardList className="w-4 h-4 text-muted-foreground" />
+        Standup notes
+      </h4>
+      <ul className="space-y-1 text-sm">
+        {notes.map((note, index) => (
+          <li key={`${note.addedAt}-${index}`} className="flex gap-3">
+            <span className="tabular-nums text-muted-foreground">{formatClockTime(note.addedAt)}</span>
+            <span>{note.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
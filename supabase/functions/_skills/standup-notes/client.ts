@@ -0,0 +1,69 @@
+import { toCommand, type Intent } from '@/lib/intents';
+import type { ClientSkill } from '@/lib/skills';
+import { formatClockTime } from '@/lib/reminders';
+import type { SkillSettingValues } from '@shared/skills';
+import { manifest } from './manifest';
+import { loadStandupNotes, saveStandupNotes, type StandupNote } from './notes';
+import { StandupCard } from './StandupCard';
+
+// Matched against the utterance as said, so notes keep their case
+const ADD_NOTE =
+  /^(?:(?:hey |ok |okay )?nova,?\s+)?(?:add (?:this )?to my standup(?: notes)?|standup note|note for (?:my )?standup)[:,]?\s+(.+?)[.!]?$/i;
+const READ_NOTES =
+  /^(?:read (?:me )?my standup(?: notes)?|what(?:'s| is) (?:on )?my standup(?: notes)?|my standup notes)$/;
+const CLEAR_NOTES = /^(?:clear|delete|reset) my standup(?: notes)?$/;
+
+const spokenNote = ({ text, addedAt }: StandupNote, sayTimes: boolean) => {
+  if (!sayTimes) return text;
+  const day = new Date(addedAt).toDateString() === new Date().toDateString() ? 'Today' : 'Yesterday';
+  return `${day} at ${formatClockTime(addedAt)}: ${text}`;
+};
+
+const standupIntents = (settings: SkillSettingValues): Intent[] => {
+  const addNote: Intent<string> = {
+    name: 'standup_notes_add',
+    description: '"Add to my standup: fixed the login bug"',
+    match: (utterance) => ADD_NOTE.exec(utterance.trim())?.[1] ?? null,
+    handle: (text, { now }) => {
+      const notes = [...loadStandupNotes(), { text, addedAt: now.getTime() }];
+      saveStandupNotes(notes);
+      return { content: 'Added to your standup notes.', result: { notes } };
+    },
+  };
+
+  const readNotes: Intent<true> = {
+    name: 'standup_notes_read',
+    description: '"Read my standup notes"',
+    match: (utterance) => (READ_NOTES.test(toCommand(utterance)) ? true : null),
+    handle: () => {
+      const notes = loadStandupNotes();
+      if (!notes.length) {
+        return { content: "You haven't added any standup notes yet.", result: { notes } };
+      }
+      const sayTimes = settings.sayTimes === true;
+      return {
+        content: `Your standup notes:\n\n${notes.map((note) => `- ${note.text}`).join('\n')}`,
+        spoken: `You have ${notes.length === 1 ? 'one note' : `${notes.length} notes`}. ${notes
+          .map((note) => `${spokenNote(note, sayTimes).replace(/[.!?]$/, '')}.`)
+          .join(' ')}`,
+        result: { notes },
+      };
+    },
+  };
+
+  const clearNotes: Intent<true> = {
+    name: 'standup_notes_clear',
+    description: '"Clear my standup notes"',
+    match: (utterance) => (CLEAR_NOTES.test(toCommand(utterance)) ? true : null),
+    handle: () => {
+      const cleared = loadStandupNotes().length;
+      saveStandupNotes([]);
+      return { content: 'Cleared your standup notes.', result: { cleared } };
+    },
+  };
+
+  return [addNote, readNotes, clearNotes];
+};
+
+// Notes are kept in this browser; nothing goes to the `chat` function
+export const standupNotes: ClientSkill = { manifest, intents: standupIntents, Card: StandupCard };
@@ -0,0 +1,20 @@
+// Read by both the `chat` function and the web client, so keep this file free of Deno- and browser-only APIs.
+
+import type { SkillManifest } from '../../_shared/skills.ts'
+
+export const manifest: SkillManifest = {
+  name: 'standup_notes',
+  title: 'Standup notes',
+  description: 'Jots down what you worked on during the day and reads it back before standup',
+  version: '1.0.0',
+  triggers: ['add to my standup: fixed the login bug', 'read my standup notes', 'clear my standup notes'],
+  tools: [],
+  settings: [
+    {
+      key: 'sayTimes',
+      label: 'Say when each note was added',
+      type: 'boolean',
+      default: false,
+    },
+  ],
+}
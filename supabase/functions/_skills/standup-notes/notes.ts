@@ -0,0 +1,25 @@
+export interface StandupNote {
+  text: string;
+  addedAt: number;
+}
+
+const STORAGE_KEY = 'nova.skills.standup_notes';
+
+export const loadStandupNotes = (): StandupNote[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((note) => typeof note?.text === 'string' && typeof note?.addedAt === 'number')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveStandupNotes = (notes: StandupNote[]) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
+  } catch (storageError) {
+    console.error('Error saving standup notes:', storageError);
+  }
+};
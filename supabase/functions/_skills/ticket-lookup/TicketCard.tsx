@@ -0,0 +1,36 @@
+import { ExternalLink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { SkillCardProps } from '@/lib/skills';
+import type { Ticket } from './ticket';
+
+export const TicketCard = ({ invocation }: SkillCardProps) => {
+  const ticket = invocation.result as Ticket;
+  const updated = new Date(ticket.updatedAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="mt-3 rounded-lg bg-muted p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <Badge variant={ticket.state === 'open' ? 'default' : 'secondary'}>{ticket.state}</Badge>
+        <a
+          href={ticket.url}
+          target="_blank"
+          rel="noreferrer"
+          className="flex-1 truncate font-medium hover:underline"
+        >
+          #{ticket.number} {ticket.title}
+        </a>
+        <ExternalLink className="w-4 h-4 shrink-0 text-muted-foreground" />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {ticket.repository} · {ticket.kind} by {ticket.author} · {ticket.comments} comments · updated {updated}
+      </p>
+      {ticket.labels.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {ticket.labels.map((label) => (
+            <Badge key={label} variant="outline" className="font-normal">{label}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
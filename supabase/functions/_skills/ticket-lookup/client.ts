@@ -0,0 +1,6 @@
+import type { ClientSkill } from '@/lib/skills';
+import { manifest } from './manifest';
+import { TicketCard } from './TicketCard';
+
+// Lookups run in the `chat` function; the browser only shows what came back
+export const ticketLookup: ClientSkill = { manifest, Card: TicketCard };
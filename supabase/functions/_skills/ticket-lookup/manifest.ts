@@ -0,0 +1,33 @@
+// Read by both the `chat` function and the web client, so keep this file free of Deno- and browser-only APIs.
+
+import type { SkillManifest } from '../../_shared/skills.ts'
+
+export const manifest: SkillManifest = {
+  name: 'ticket_lookup',
+  title: 'Ticket lookup',
+  description: "Looks up issues and pull requests in your team's GitHub repository",
+  version: '1.0.0',
+  triggers: ['look up ticket 42', "what's the status of issue 1234", 'who opened pull request 17'],
+  tools: [
+    {
+      name: 'ticket_lookup_get',
+      description:
+        "Gets an issue or pull request from the user's team repository by number: its title, state, author, labels and link",
+      parameters: {
+        type: 'object',
+        properties: { number: { type: 'integer', description: 'The issue or pull request number' } },
+        required: ['number'],
+      },
+    },
+  ],
+  settings: [
+    {
+      key: 'repository',
+      label: 'Repository',
+      description:
+        'On GitHub, as owner/name. Private repositories must be listed in the GITHUB_TOKEN_REPOSITORIES secret on the chat function.',
+      type: 'text',
+      default: '',
+    },
+  ],
+}
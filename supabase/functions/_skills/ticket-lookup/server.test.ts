@@ -0,0 +1,103 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { stub } from 'https://deno.land/std@0.168.0/testing/mock.ts'
+import { createToolRegistry } from '../../chat/tools/index.ts'
+import { createSkillLoader } from '../../chat/skills/index.ts'
+import { ticketLookup } from './server.ts'
+
+const lookUp = (settings: Record<string, unknown>, number = 42) =>
+  createToolRegistry(createSkillLoader([ticketLookup]).toolsFor({ ticket_lookup: settings }))
+    .execute({ id: 'call_1', name: 'ticket_lookup_get', arguments: { number } })
+
+Deno.test('looks a ticket up in the configured repository', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () =>
+    Promise.resolve(Response.json({
+      number: 42,
+      title: 'Crash on start',
+      state: 'open',
+      user: { login: 'sam' },
+      labels: [{ name: 'bug' }, 'urgent'],
+      comments: 3,
+      html_url: 'https://github.com/acme/app/issues/42',
+      updated_at: '2024-06-03T10:00:00Z',
+    }))
+  )
+  try {
+    const invocation = await lookUp({ repository: 'acme/app' })
+
+    assertEquals(fetchStub.calls[0].args[0], 'https://api.github.com/repos/acme/app/issues/42')
+    assertEquals(invocation.status, 'ok')
+    assertEquals(invocation.result, {
+      repository: 'acme/app',
+      number: 42,
+      kind: 'issue',
+      title: 'Crash on start',
+      state: 'open',
+      author: 'sam',
+      labels: ['bug', 'urgent'],
+      comments: 3,
+      url: 'https://github.com/acme/app/issues/42',
+      updatedAt: '2024-06-03T10:00:00Z',
+    })
+  } finally {
+    fetchStub.restore()
+  }
+})
+
+Deno.test('says when no repository is set', async () => {
+  const invocation = await lookUp({})
+
+  assertEquals(invocation.status, 'error')
+  assertEquals(invocation.error, 'No repository is set for ticket lookup; the user can choose one in Settings')
+})
+
+Deno.test('says when the ticket does not exist', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(new Response('Not Found', { status: 404 })))
+  try {
+    const invocation = await lookUp({ repository: 'acme/app' }, 7)
+
+    assertEquals(invocation.error, 'There is no ticket #7 in acme/app')
+  } finally {
+    fetchStub.restore()
+  }
+})
+
+const withToken = async (repositories: string, run: () => Promise<void>) => {
+  Deno.env.set('GITHUB_TOKEN', 'secret-token')
+  Deno.env.set('GITHUB_TOKEN_REPOSITORIES', repositories)
+  try {
+    await run()
+  } finally {
+    Deno.env.delete('GITHUB_TOKEN')
+    Deno.env.delete('GITHUB_TOKEN_REPOSITORIES')
+  }
+}
+
+const authorizationOf = (call: { args: unknown[] }) =>
+  new Headers((call.args[1] as RequestInit).headers).get('Authorization')
+
+Deno.test('uses the token for the repositories it is allowed for', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(new Response('Not Found', { status: 404 })))
+  try {
+    await withToken('acme/app, acme/private', async () => {
+      await lookUp({ repository: 'Acme/Private' })
+    })
+
+    assertEquals(authorizationOf(fetchStub.calls[0]), 'Bearer secret-token')
+  } finally {
+    fetchStub.restore()
+  }
+})
+
+Deno.test('asks about other repositories without the token', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(new Response('Not Found', { status: 404 })))
+  try {
+    await withToken('acme/app', async () => {
+      await lookUp({ repository: 'someone-else/secrets' })
+    })
+
+    assertEquals(fetchStub.calls[0].args[0], 'https://api.github.com/repos/someone-else/secrets/issues/42')
+    assertEquals(authorizationOf(fetchStub.calls[0]), null)
+  } finally {
+    fetchStub.restore()
+  }
+})
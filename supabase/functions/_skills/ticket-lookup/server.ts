@@ -0,0 +1,68 @@
+import type { ServerSkill, SkillTool } from '../../chat/skills/index.ts'
+import { manifest } from './manifest.ts'
+import type { Ticket } from './ticket.ts'
+
+const REPOSITORY = /^[\w.-]+\/[\w.-]+$/
+
+interface GitHubIssue {
+  number: number
+  title: string
+  state: 'open' | 'closed'
+  user: { login: string } | null
+  labels: ({ name?: string } | string)[]
+  comments: number
+  html_url: string
+  updated_at: string
+  pull_request?: unknown
+}
+
+// The repository comes from the caller's settings, so the server's token is only sent to the repositories listed
+// in the GITHUB_TOKEN_REPOSITORIES secret (comma separated). Any other repository is asked without it, and only
+// its public tickets can be read.
+const tokenFor = (repository: string) => {
+  const token = Deno.env.get('GITHUB_TOKEN')
+  const allowed = (Deno.env.get('GITHUB_TOKEN_REPOSITORIES') ?? '').split(',').map((entry) => entry.trim().toLowerCase())
+  return token && allowed.includes(repository.toLowerCase()) ? token : undefined
+}
+
+const getTicket: SkillTool<{ number: number }> = {
+  name: 'ticket_lookup_get',
+  handler: async ({ number }, { signal, settings }) => {
+    const repository = String(settings.repository).trim()
+    if (!REPOSITORY.test(repository)) {
+      throw new Error('No repository is set for ticket lookup; the user can choose one in Settings')
+    }
+
+    const token = tokenFor(repository)
+    const response = await fetch(`https://api.github.com/repos/${repository}/issues/${number}`, {
+      signal,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    })
+    if (response.status === 404) {
+      throw new Error(`There is no ticket #${number} in ${repository}`)
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub answered ${response.status}`)
+    }
+
+    const issue: GitHubIssue = await response.json()
+    const ticket: Ticket = {
+      repository,
+      number: issue.number,
+      kind: issue.pull_request ? 'pull request' : 'issue',
+      title: issue.title,
+      state: issue.state,
+      author: issue.user?.login ?? 'unknown',
+      labels: issue.labels.map((label) => (typeof label === 'string' ? label : label.name ?? '')).filter(Boolean),
+      comments: issue.comments,
+      url: issue.html_url,
+      updatedAt: issue.updated_at,
+    }
+    return ticket
+  },
+}
+
+export const ticketLookup: ServerSkill = { manifest, tools: [getTicket] }
@@ -0,0 +1,16 @@
+// Shared between the skill's server half and its card in the web client, so keep this file free of Deno- and
+// browser-only APIs.
+
+// What `ticket_lookup_get` returns
+export interface Ticket {
+  repository: string
+  number: number
+  kind: 'issue' | 'pull request'
+  title: string
+  state: 'open' | 'closed'
+  author: string
+  labels: string[]
+  comments: number
+  url: string
+  updatedAt: string
+}
@@ -0,0 +1,51 @@
+import { ChatError } from '../_shared/chat-errors.ts'
+import type { ClientContext } from '../_shared/client-context.ts'
+import { isTimeZone } from './tools/time.ts'
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isCoordinate = (value: number, limit: number) => Number.isFinite(value) && Math.abs(value) <= limit
+
+const isLocale = (value: string) => {
+  try {
+    return Intl.getCanonicalLocales(value).length > 0
+  } catch {
+    return false
+  }
+}
+
+// Validates the `context` field of a chat request. Only a context of the wrong shape is rejected: a value the
+// server can't use (an unknown time zone, an unparseable clock, a made-up locale) is dropped instead, and without
+// a usable clock and time zone the whole context goes, so the reply falls back to server time in UTC.
+export const parseClientContext = (value: unknown): ClientContext | undefined => {
+  if (value == null) return undefined
+  if (!isObject(value)) {
+    throw new ChatError('BAD_REQUEST', '`context` must be an object')
+  }
+
+  const { localTime, timezone, locale, location } = value
+  if (typeof localTime !== 'string' || typeof timezone !== 'string') {
+    throw new ChatError('BAD_REQUEST', '`context.localTime` and `context.timezone` must be strings')
+  }
+  if (locale != null && typeof locale !== 'string') {
+    throw new ChatError('BAD_REQUEST', '`context.locale` must be a string')
+  }
+  if (
+    location != null &&
+    (!isObject(location) || typeof location.latitude !== 'number' || typeof location.longitude !== 'number')
+  ) {
+    throw new ChatError('BAD_REQUEST', '`context.location` must have a numeric latitude and longitude')
+  }
+
+  if (Number.isNaN(Date.parse(localTime)) || !isTimeZone(timezone)) return undefined
+
+  const context: ClientContext = { localTime, timezone }
+  if (locale && isLocale(locale)) {
+    context.locale = locale
+  }
+  if (location && isCoordinate(location.latitude as number, 90) && isCoordinate(location.longitude as number, 180)) {
+    context.location = { latitude: location.latitude as number, longitude: location.longitude as number }
+  }
+  return context
+}
@@ -0,0 +1,36 @@
+import type { ConversationRepository, StoredMessageRole } from './types.ts'
+
+interface StoredMessage {
+  role: StoredMessageRole
+  content: string
+  interrupted?: boolean
+}
+
+export interface MemoryConversationRepository extends ConversationRepository {
+  conversations: Map<string, StoredMessage[]>
+  titles: Map<string, string>
+}
+
+// In-process stand-in for the Postgres tables, used by the test suite
+export const createMemoryConversationRepository = (): MemoryConversationRepository => {
+  const conversations = new Map<string, StoredMessage[]>()
+  const titles = new Map<string, string>()
+
+  return {
+    conversations,
+    titles,
+    ensureConversation(conversationId, title) {
+      if (conversationId && conversations.has(conversationId)) {
+        return Promise.resolve(conversationId)
+      }
+      const id = crypto.randomUUID()
+      conversations.set(id, [])
+      titles.set(id, title)
+      return Promise.resolve(id)
+    },
+    appendMessage(conversationId, role, content, options) {
+      conversations.get(conversationId)?.push(options?.interrupted ? { role, content, interrupted: true } : { role, content })
+      return Promise.resolve()
+    },
+  }
+}
@@ -0,0 +1,43 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ConversationRepository } from './types.ts'
+
+const createSupabaseConversationRepository = (client: SupabaseClient): ConversationRepository => ({
+  async ensureConversation(conversationId, title) {
+    if (conversationId) {
+      // Row level security hides other users' conversations, so a foreign id simply isn't found
+      const { data, error } = await client.from('conversations').select('id').eq('id', conversationId).maybeSingle()
+      if (error) throw error
+      if (data) return data.id
+    }
+
+    const { data, error } = await client.from('conversations').insert({ title }).select('id').single()
+    if (error) throw error
+    return data.id
+  },
+
+  async appendMessage(conversationId, role, content, options) {
+    const { error } = await client
+      .from('messages')
+      .insert({ conversation_id: conversationId, role, content, interrupted: options?.interrupted ?? false })
+    if (error) throw error
+  },
+})
+
+// Acts as the caller by forwarding their JWT, so the tables' row level security applies.
+// Resolves to null when the request carries no signed-in (or anonymous) user, e.g. just the anon key.
+export const getConversationRepository = async (req: Request): Promise<ConversationRepository | null> => {
+  const authorization = req.headers.get('Authorization')
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')
+  if (!authorization || !supabaseUrl || !supabaseAnonKey) {
+    return null
+  }
+
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  })
+
+  const { data } = await client.auth.getUser()
+  return data.user ? createSupabaseConversationRepository(client) : null
+}
@@ -0,0 +1,18 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { conversationTitle } from './title.ts'
+
+Deno.test('uses a short opening question as is', () => {
+  assertEquals(conversationTitle('  What is the capital of France?  '), 'What is the capital of France?')
+})
+
+Deno.test('keeps only the first sentence', () => {
+  assertEquals(conversationTitle('Help me plan my day. I have three meetings.'), 'Help me plan my day.')
+})
+
+Deno.test('cuts long titles at a word boundary', () => {
+  const title = conversationTitle(
+    'Can you explain how quantum entanglement works and why Einstein called it spooky action at a distance',
+  )
+
+  assertEquals(title, 'Can you explain how quantum entanglement works and why…')
+})
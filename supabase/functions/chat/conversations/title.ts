@@ -0,0 +1,13 @@
+const MAX_TITLE_LENGTH = 60
+
+// Titles a new conversation after its opening question: first sentence, cut at a word boundary
+export const conversationTitle = (message: string) => {
+  const firstSentence = message.trim().split(/(?<=[.!?])\s/)[0].replace(/\s+/g, ' ')
+  if (firstSentence.length <= MAX_TITLE_LENGTH) {
+    return firstSentence
+  }
+
+  const cut = firstSentence.slice(0, MAX_TITLE_LENGTH)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > 20 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, '')}…`
+}
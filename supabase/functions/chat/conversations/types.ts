@@ -0,0 +1,14 @@
+export type StoredMessageRole = 'user' | 'assistant'
+
+// Server-side record of a conversation; implementations are scoped to the calling user
+export interface ConversationRepository {
+  // Returns `conversationId` when it exists for this user, otherwise the id of a new conversation called `title`
+  ensureConversation(conversationId: string | undefined, title: string): Promise<string>
+  // `interrupted` marks a reply the user cut off before it finished streaming
+  appendMessage(
+    conversationId: string,
+    role: StoredMessageRole,
+    content: string,
+    options?: { interrupted?: boolean },
+  ): Promise<void>
+}
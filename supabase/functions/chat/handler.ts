@@ -0,0 +1,339 @@
+import { ChatError, toChatError, type ChatErrorBody } from '../_shared/chat-errors.ts'
+import type { ClientContext } from '../_shared/client-context.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { detectLanguage, isLanguageCode, LANGUAGES, type LanguageCode } from '../_shared/languages.ts'
+import type { SkillManifest } from '../_shared/skills.ts'
+import type { ToolInvocation } from '../_shared/tool-invocations.ts'
+import { parseClientContext } from './client-context.ts'
+import { conversationTitle } from './conversations/title.ts'
+import type { ConversationRepository } from './conversations/types.ts'
+import type { ChatMessage, CompletionOptions, LlmProvider } from './providers/index.ts'
+import type { RequestedSkills, SkillLoader } from './skills/index.ts'
+import { completeReply, type ReplyContext, type ReplyEvent, streamReply } from './tool-loop.ts'
+import { createToolRegistry, type Tool, type ToolRegistry } from './tools/index.ts'
+
+const completionOptions: CompletionOptions = {
+  maxTokens: 300,
+  temperature: 0.7,
+  presencePenalty: 0.6,
+  frequencyPenalty: 0.3,
+}
+
+const FALLBACK_RESPONSE = "I'm sorry, I'm having trouble processing your request right now. Please try again."
+
+interface ChatRequestBody {
+  message: string
+  conversationHistory: ChatMessage[]
+  stream: boolean
+  conversationId?: string
+  // Language to answer in: a supported code, or 'auto' to follow the language of the message
+  language?: LanguageCode | 'auto'
+  context?: ClientContext
+  // The skills the user has turned on, each with their settings for it
+  skills?: RequestedSkills
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Earlier turns come from the client, so only plain user and assistant text may pass through to the model
+const isHistoryMessage = (value: unknown): value is ChatMessage =>
+  isObject(value) && (value.role === 'user' || value.role === 'assistant') && typeof value.content === 'string'
+
+const parseRequestBody = async (req: Request): Promise<ChatRequestBody> => {
+  let body
+  try {
+    body = await req.json()
+  } catch {
+    throw new ChatError('BAD_REQUEST', 'Request body must be valid JSON')
+  }
+
+  const { message, conversationHistory = [], stream = false, conversationId, language, context, skills } = body ?? {}
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new ChatError('BAD_REQUEST', '`message` must be a non-empty string')
+  }
+  if (!Array.isArray(conversationHistory)) {
+    throw new ChatError('BAD_REQUEST', '`conversationHistory` must be an array')
+  }
+  if (!conversationHistory.every(isHistoryMessage)) {
+    throw new ChatError('BAD_REQUEST', '`conversationHistory` items must be user or assistant messages with string content')
+  }
+
+  if (conversationId != null && typeof conversationId !== 'string') {
+    throw new ChatError('BAD_REQUEST', '`conversationId` must be a string')
+  }
+  if (language != null && language !== 'auto' && !isLanguageCode(language)) {
+    throw new ChatError('BAD_REQUEST', `\`language\` must be 'auto' or one of: ${Object.keys(LANGUAGES).join(', ')}`)
+  }
+  if (skills != null && (!isObject(skills) || !Object.values(skills).every(isObject))) {
+    throw new ChatError('BAD_REQUEST', '`skills` must map skill names to their settings')
+  }
+
+  return {
+    message,
+    conversationHistory: conversationHistory.map(({ role, content }) => ({ role, content })),
+    stream: Boolean(stream),
+    conversationId: conversationId ?? undefined,
+    language: language ?? undefined,
+    context: parseClientContext(context),
+    skills: skills ?? undefined,
+  }
+}
+
+// Without a language the model follows the user on its own; naming it keeps replies from drifting back to English
+const languageInstruction = (language: LanguageCode | undefined) => {
+  if (!language) return ''
+
+  const { name, nativeName } = LANGUAGES[language]
+  return `\n\nAlways reply in ${name} (${nativeName}), even if earlier messages were in another language.`
+}
+
+// Grounds the model in the user's present, so it never has to guess the date or claim it can't know it
+const contextInstruction = (now: Date, client: ClientContext | undefined) => {
+  const timeZone = client?.timezone ?? 'UTC'
+  const localTime = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'short' }).format(now)
+  if (!client) {
+    return `\n\nIt is now ${localTime} UTC; the user's time zone is unknown.`
+  }
+
+  const { locale, location } = client
+  const localeNote = locale ? ` Their locale is ${locale}.` : ''
+  const whereabouts = location ? ` They are near latitude ${location.latitude}, longitude ${location.longitude}.` : ''
+  return `\n\nIt is now ${localTime} in the user's time zone (${timeZone}).${localeNote}${whereabouts}`
+}
+
+// Nudges the model to use its tools rather than answer from memory (or say it has no way of knowing)
+const toolInstruction = (tools: ToolRegistry | null) => {
+  if (!tools?.definitions.length) return ''
+
+  return `\n\nYou can call tools. Use them whenever they can answer more reliably than you can, and don't say you lack access to something a tool provides.`
+}
+
+// Tells the model what the user's skills are for, so it reaches for their tools when they are wanted
+const skillInstruction = (skills: SkillManifest[]) => {
+  if (!skills.length) return ''
+
+  const lines = skills.map(({ title, description, triggers }) =>
+    `- ${title}: ${description}${triggers.length ? ` (for requests like ${triggers.map((trigger) => `"${trigger}"`).join(', ')})` : ''}`
+  )
+  return `\n\nThe user has turned on these skills:\n${lines.join('\n')}`
+}
+
+// Saving history is best effort: a database hiccup must never cost the user their answer
+const persist = async (task: () => Promise<void>) => {
+  try {
+    await task()
+  } catch (error) {
+    console.error('Failed to persist conversation:', error)
+  }
+}
+
+const errorResponse = (error: ChatError) => {
+  const body: ChatErrorBody = {
+    success: false,
+    error: error.toPayload(),
+    response: FALLBACK_RESPONSE,
+  }
+
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: error.status,
+  })
+}
+
+// Re-emits the reply as our own `delta` / `tool` / `done` / `error` events
+const streamCompletion = (
+  events: AsyncIterable<ReplyEvent>,
+  {
+    language,
+    onComplete,
+  }: {
+    language?: LanguageCode
+    // Records the finished reply and resolves to its conversation's id. Also called, with `interrupted`, when
+    // the client hangs up mid-reply (barge-in).
+    onComplete: (response: string, interrupted: boolean) => Promise<string | undefined>
+  },
+) => {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      }
+
+      let fullResponse = ''
+      const invocations: ToolInvocation[] = []
+      try {
+        for await (const event of events) {
+          if (cancelled) break
+
+          if (event.type === 'tool') {
+            invocations.push(event.invocation)
+            send({ type: 'tool', invocation: event.invocation })
+            continue
+          }
+          fullResponse += event.content
+          send({ type: 'delta', content: event.content })
+        }
+
+        if (cancelled) {
+          if (fullResponse) {
+            await onComplete(fullResponse, true)
+          }
+          return
+        }
+
+        const conversationId = await onComplete(fullResponse, false)
+        send({
+          type: 'done',
+          response: fullResponse,
+          conversationId,
+          language,
+          tools: invocations.length ? invocations : undefined,
+        })
+        controller.close()
+      } catch (error) {
+        if (cancelled) return
+        console.error('Error streaming chat completion:', error)
+        send({ type: 'error', error: toChatError(error).toPayload() })
+        controller.close()
+      }
+    },
+    cancel() {
+      // The client went away or interrupted; the read loop stops at the next chunk
+      cancelled = true
+    },
+  })
+}
+
+export interface ChatHandlerDeps {
+  getProvider: () => LlmProvider
+  // Resolves where to record the turn for the calling user; null (or omitted) skips persistence
+  getConversations?: (req: Request) => Promise<ConversationRepository | null>
+  // Offered to the model on every turn; omitted or empty, replies are plain completions
+  tools?: Tool[]
+  // Installed skills. Their tools are offered only while the user has the skill turned on.
+  skills?: SkillLoader
+}
+
+// Builds the request handler; dependencies are injected so tests can run it fully offline
+export const createChatHandler = ({ getProvider, getConversations, tools = [], skills }: ChatHandlerDeps) => async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const {
+      message,
+      conversationHistory,
+      stream,
+      conversationId: requestedConversationId,
+      language: requestedLanguage,
+      context: client,
+      skills: requestedSkills,
+    } = await parseRequestBody(req)
+    const language = requestedLanguage === 'auto' ? detectLanguage(message) ?? undefined : requestedLanguage
+
+    const provider = getProvider()
+    const enabledSkills = skills?.enabled(requestedSkills) ?? []
+    const offeredTools = [...tools, ...(skills?.toolsFor(requestedSkills) ?? [])]
+    const toolRegistry = offeredTools.length ? createToolRegistry(offeredTools) : null
+    // Answers go by the user's clock, which is what they will check them against
+    const replyContext: ReplyContext = { now: client ? new Date(client.localTime) : new Date(), client: client ?? null }
+
+    // The question is only recorded together with its reply, so a failed turn leaves no unanswered question in
+    // the saved conversation
+    const saveTurn = async (reply: string, interrupted = false) => {
+      let conversationId: string | undefined
+      await persist(async () => {
+        const conversations = await getConversations?.(req)
+        if (!conversations) return
+
+        conversationId = await conversations.ensureConversation(requestedConversationId, conversationTitle(message))
+        await conversations.appendMessage(conversationId, 'user', message)
+        await conversations.appendMessage(conversationId, 'assistant', reply, { interrupted })
+      })
+      return conversationId
+    }
+
+    // Build conversation context
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: `You are Nova, an advanced AI voice assistant. You are helpful, knowledgeable, and conversational. 
+
+Key characteristics:
+- Respond naturally and conversationally like a human assistant
+- Keep responses concise but informative (ideal for voice)
+- Be friendly and engaging
+- Help with a wide range of tasks: questions, calculations, explanations, advice, creative tasks
+- For weather, web searches, or other real-time data, use the tools you're offered; only when none of them fits, explain you'd need internet access
+- You know the current date and time, and the user's locale and location when they are given below; answer from them rather than saying you can't know
+- Be encouraging and positive
+- Adapt your tone to match the user's energy
+
+Remember: Your responses will be spoken aloud, so write for speech, not text.${languageInstruction(language)}${contextInstruction(replyContext.now, client)}${toolInstruction(toolRegistry)}${skillInstruction(enabledSkills)}`
+      },
+      ...conversationHistory.slice(-10), // Keep last 10 messages for context
+      {
+        role: 'user',
+        content: message
+      }
+    ]
+
+    if (stream) {
+      // Wait for the first token (or tool call) before committing to a 200, so upstream failures keep
+      // their HTTP status
+      const events = streamReply(provider, messages, completionOptions, toolRegistry, replyContext)
+      const first = await events.next()
+      if (first.done || (first.value.type === 'text' && !first.value.content)) {
+        throw new ChatError('EMPTY_RESPONSE', 'No response from AI')
+      }
+
+      const firstEvent = first.value
+      const replay = async function* () {
+        yield firstEvent
+        yield* events
+      }
+
+      return new Response(streamCompletion(replay(), { language, onComplete: saveTurn }), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+        },
+        status: 200,
+      })
+    }
+
+    const { content: aiResponse, invocations } =
+      await completeReply(provider, messages, completionOptions, toolRegistry, replyContext)
+
+    if (!aiResponse) {
+      throw new ChatError('EMPTY_RESPONSE', 'No response from AI')
+    }
+
+    const conversationId = await saveTurn(aiResponse)
+
+    return new Response(
+      JSON.stringify({ 
+        response: aiResponse,
+        conversationId,
+        language,
+        tools: invocations.length ? invocations : undefined,
+        success: true 
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      },
+    )
+
+  } catch (error) {
+    console.error('Error in chat function:', error)
+    return errorResponse(toChatError(error))
+  }
+}
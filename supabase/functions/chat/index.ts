@@ -1,101 +1,16 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
-
-  try {
-    const { message, conversationHistory = [] } = await req.json()
-
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
-    if (!openaiApiKey) {
-      throw new Error('OpenAI API key not configured')
-    }
-
-    // Build conversation context
-    const messages = [
-      {
-        role: 'system',
-        content: `You are Nova, an advanced AI voice assistant. You are helpful, knowledgeable, and conversational. 
-
-Key characteristics:
-- Respond naturally and conversationally like a human assistant
-- Keep responses concise but informative (ideal for voice)
-- Be friendly and engaging
-- Help with a wide range of tasks: questions, calculations, explanations, advice, creative tasks
-- When asked about time/date, remind users you don't have real-time access
-- For weather, web searches, or real-time data, explain you'd need internet access
-- Be encouraging and positive
-- Adapt your tone to match the user's energy
-
-Remember: Your responses will be spoken aloud, so write for speech, not text.`
-      },
-      ...conversationHistory.slice(-10), // Keep last 10 messages for context
-      {
-        role: 'user',
-        content: message
-      }
-    ]
-
-    // Call OpenAI API
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: messages,
-        max_tokens: 300,
-        temperature: 0.7,
-        presence_penalty: 0.6,
-        frequency_penalty: 0.3,
-      }),
-    })
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    const aiResponse = data.choices[0]?.message?.content
-
-    if (!aiResponse) {
-      throw new Error('No response from AI')
-    }
-
-    return new Response(
-      JSON.stringify({ 
-        response: aiResponse,
-        success: true 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      },
-    )
-
-  } catch (error) {
-    console.error('Error in chat function:', error)
-    
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        response: "I'm sorry, I'm having trouble processing your request right now. Please try again.",
-        success: false 
-      }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200, // Return 200 to avoid network errors on frontend
-      },
-    )
-  }
-})
\ No newline at end of file
+import { serverSkills } from '../_skills/server.ts'
+import { getConversationRepository } from './conversations/supabase.ts'
+import { createChatHandler } from './handler.ts'
+import { getProvider } from './providers/index.ts'
+import { createSkillLoader } from './skills/index.ts'
+import { builtInTools } from './tools/index.ts'
+
+serve(
+  createChatHandler({
+    getProvider,
+    getConversations: getConversationRepository,
+    tools: builtInTools,
+    skills: createSkillLoader(serverSkills),
+  }),
+)
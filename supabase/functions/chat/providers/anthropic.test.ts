@@ -0,0 +1,163 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { stub } from 'https://deno.land/std@0.168.0/testing/mock.ts'
+import { ChatError } from '../../_shared/chat-errors.ts'
+import { createAnthropicProvider } from './anthropic.ts'
+import type { ChatMessage, CompletionChunk, CompletionOptions } from './types.ts'
+
+const options: CompletionOptions = { maxTokens: 100, temperature: 0.5 }
+
+const provider = createAnthropicProvider({ apiKey: 'test-key', model: 'claude-test' })
+
+const sse = (events: unknown[]) =>
+  new Response(events.map((event) => `event: message\ndata: ${JSON.stringify(event)}\n\n`).join(''))
+
+// Runs `run` against a stubbed Anthropic API, returning what it produced and the JSON body it was sent
+const withUpstream = async <T>(response: Response, run: () => Promise<T>) => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(response))
+  try {
+    const result = await run()
+    const init = fetchStub.calls[0].args[1] as RequestInit
+    return { result, body: JSON.parse(init.body as string) }
+  } finally {
+    fetchStub.restore()
+  }
+}
+
+const collect = async (chunks: AsyncGenerator<CompletionChunk>) => {
+  const collected: CompletionChunk[] = []
+  for await (const chunk of chunks) {
+    collected.push(chunk)
+  }
+  return collected
+}
+
+Deno.test('hoists system messages and groups tool results into one user turn', async () => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Time and weather?' },
+    {
+      role: 'assistant',
+      content: 'Checking.',
+      toolCalls: [
+        { id: 'call_1', name: 'get_clock', arguments: {} },
+        { id: 'call_2', name: 'get_weather', arguments: { city: 'Oslo' } },
+      ],
+    },
+    { role: 'tool', toolCallId: 'call_1', content: '{"result":"09:30"}' },
+    { role: 'tool', toolCallId: 'call_2', content: '{"result":"rain"}' },
+    { role: 'system', content: 'Answer now.' },
+  ]
+
+  const { body } = await withUpstream(
+    Response.json({ content: [{ type: 'text', text: 'Half past nine, and raining.' }] }),
+    () => provider.complete(messages, options),
+  )
+
+  assertEquals(body.system, 'Be brief.\n\nAnswer now.')
+  assertEquals(body.messages, [
+    { role: 'user', content: 'Time and weather?' },
+    {
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Checking.' },
+        { type: 'tool_use', id: 'call_1', name: 'get_clock', input: {} },
+        { type: 'tool_use', id: 'call_2', name: 'get_weather', input: { city: 'Oslo' } },
+      ],
+    },
+    {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: '{"result":"09:30"}' },
+        { type: 'tool_result', tool_use_id: 'call_2', content: '{"result":"rain"}' },
+      ],
+    },
+  ])
+})
+
+Deno.test('sends tools as input schemas along with the tool choice', async () => {
+  const parameters = { type: 'object' as const, properties: {} }
+  const { body } = await withUpstream(
+    Response.json({ content: [] }),
+    () =>
+      provider.complete([{ role: 'user', content: 'Time?' }], {
+        ...options,
+        tools: [{ name: 'get_clock', description: 'Reads the clock', parameters }],
+        toolChoice: 'none',
+      }),
+  )
+
+  assertEquals(body.tools, [{ name: 'get_clock', description: 'Reads the clock', input_schema: parameters }])
+  assertEquals(body.tool_choice, { type: 'none' })
+})
+
+Deno.test('splits a completion into text and tool calls', async () => {
+  const { result } = await withUpstream(
+    Response.json({
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_clock', input: { zone: 'UTC' } },
+      ],
+    }),
+    () => provider.complete([{ role: 'user', content: 'Time?' }], options),
+  )
+
+  assertEquals(result, {
+    content: 'Let me check.',
+    toolCalls: [{ id: 'toolu_1', name: 'get_clock', arguments: { zone: 'UTC' } }],
+  })
+})
+
+Deno.test('assembles streamed tool input from its JSON fragments', async () => {
+  const { result } = await withUpstream(
+    sse([
+      { type: 'message_start' },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking.' } },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather' },
+      },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_stop' },
+    ]),
+    () => collect(provider.stream([{ role: 'user', content: 'Weather?' }], options)),
+  )
+
+  assertEquals(result, [
+    { type: 'text', content: 'Checking.' },
+    { type: 'tool_call', call: { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Oslo' } } },
+  ])
+})
+
+Deno.test('reports refusals as blocked content', async () => {
+  const completion = withUpstream(
+    Response.json({ content: [], stop_reason: 'refusal' }),
+    () => provider.complete([{ role: 'user', content: 'Hi' }], options),
+  )
+  const error = await assertRejects(() => completion, ChatError)
+  assertEquals(error.code, 'CONTENT_BLOCKED')
+
+  const stream = withUpstream(
+    sse([{ type: 'message_delta', delta: { stop_reason: 'refusal' } }]),
+    () => collect(provider.stream([{ role: 'user', content: 'Hi' }], options)),
+  )
+  assertEquals((await assertRejects(() => stream, ChatError)).code, 'CONTENT_BLOCKED')
+})
+
+Deno.test('raises error events in the middle of a stream', async () => {
+  const stream = withUpstream(
+    sse([
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'The answer is' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ]),
+    () => collect(provider.stream([{ role: 'user', content: 'Hi' }], options)),
+  )
+
+  const error = await assertRejects(() => stream, ChatError)
+  assertEquals(error.code, 'UPSTREAM_ERROR')
+  assertEquals(error.message, 'Anthropic stream error: overloaded_error')
+})
@@ -0,0 +1,158 @@
+import { ChatError } from '../../_shared/chat-errors.ts'
+import { fetchUpstream } from './http.ts'
+import { readSseData } from './sse.ts'
+import type { ChatMessage, CompletionOptions, LlmProvider, ToolCall } from './types.ts'
+
+interface AnthropicProviderConfig {
+  apiKey: string
+  baseUrl?: string
+  model: string
+  timeoutMs?: number
+}
+
+type ContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+interface WireMessage {
+  role: 'user' | 'assistant'
+  content: string | ContentBlock[]
+}
+
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// Tool calls become tool_use blocks on the assistant turn, and their results tool_result blocks on the
+// following user turn; results of calls made together must share that one turn.
+const toWireMessages = (messages: ChatMessage[]): WireMessage[] => {
+  const wire: WireMessage[] = []
+
+  for (const { role, content, toolCalls, toolCallId } of messages) {
+    if (role === 'system') continue
+
+    if (role === 'tool') {
+      const result: ContentBlock = { type: 'tool_result', tool_use_id: toolCallId ?? '', content }
+      const previous = wire[wire.length - 1]
+      if (previous?.role === 'user' && Array.isArray(previous.content)) {
+        previous.content.push(result)
+      } else {
+        wire.push({ role: 'user', content: [result] })
+      }
+      continue
+    }
+
+    if (role === 'assistant' && toolCalls?.length) {
+      const blocks: ContentBlock[] = content ? [{ type: 'text', text: content }] : []
+      for (const { id, name, arguments: input } of toolCalls) {
+        blocks.push({ type: 'tool_use', id, name, input })
+      }
+      wire.push({ role, content: blocks })
+      continue
+    }
+
+    wire.push({ role, content })
+  }
+
+  return wire
+}
+
+const parseInput = (text: string): unknown => {
+  try {
+    return JSON.parse(text || '{}')
+  } catch {
+    return text
+  }
+}
+
+// Messages API: the system prompt travels outside the message list
+export const createAnthropicProvider = ({
+  apiKey,
+  baseUrl = 'https://api.anthropic.com/v1',
+  model,
+  timeoutMs,
+}: AnthropicProviderConfig): LlmProvider => {
+  const request = async (messages: ChatMessage[], options: CompletionOptions, stream: boolean) => {
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n')
+
+    return fetchUpstream('Anthropic', `${baseUrl.replace(/\/+$/, '')}/messages`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: toWireMessages(messages),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        tools: options.tools?.length
+          ? options.tools.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters }))
+          : undefined,
+        tool_choice: options.tools?.length && options.toolChoice ? { type: options.toolChoice } : undefined,
+        stream,
+      }),
+    }, timeoutMs)
+  }
+
+  const blocked = () => new ChatError('CONTENT_BLOCKED', 'Anthropic declined to answer this request')
+
+  return {
+    name: 'Anthropic',
+    model,
+    async complete(messages, options) {
+      const response = await request(messages, options, false)
+      const data = await response.json()
+      if (data.stop_reason === 'refusal') {
+        throw blocked()
+      }
+
+      const blocks: ContentBlock[] = data.content ?? []
+      return {
+        content: blocks
+          .filter((block): block is Extract<ContentBlock, { type: 'text' }> => block.type === 'text')
+          .map((block) => block.text)
+          .join(''),
+        toolCalls: blocks
+          .filter((block): block is Extract<ContentBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+          .map(({ id, name, input }) => ({ id, name, arguments: input })),
+      }
+    },
+    async *stream(messages, options) {
+      const response = await request(messages, options, true)
+      // tool_use blocks stream their input as JSON fragments, keyed by block index
+      const toolUses = new Map<number, { id: string; name: string; input: string }>()
+
+      for await (const payload of readSseData(response.body!)) {
+        const event = JSON.parse(payload)
+        if (event.type === 'message_stop') break
+        // Failures after the stream has opened (an overloaded model, say) arrive as an event, not a status
+        if (event.type === 'error') {
+          throw new ChatError('UPSTREAM_ERROR', `Anthropic stream error: ${event.error?.type ?? 'unknown'}`)
+        }
+        if (event.type === 'message_delta' && event.delta?.stop_reason === 'refusal') {
+          throw blocked()
+        }
+
+        if (event.type === 'content_block_start' && event.content_block?.type === 'tool_use') {
+          toolUses.set(event.index, { id: event.content_block.id, name: event.content_block.name, input: '' })
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          yield { type: 'text', content: event.delta.text }
+        } else if (event.type === 'content_block_delta' && event.delta?.type === 'input_json_delta') {
+          const toolUse = toolUses.get(event.index)
+          if (toolUse) {
+            toolUse.input += event.delta.partial_json
+          }
+        } else if (event.type === 'content_block_stop' && toolUses.has(event.index)) {
+          const { id, name, input } = toolUses.get(event.index)!
+          toolUses.delete(event.index)
+          const call: ToolCall = { id, name, arguments: parseInput(input) }
+          yield { type: 'tool_call', call }
+        }
+      }
+    },
+  }
+}
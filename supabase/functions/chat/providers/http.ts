@@ -0,0 +1,47 @@
+import { ChatError } from '../../_shared/chat-errors.ts'
+
+const DEFAULT_TIMEOUT_MS = 30_000
+
+const upstreamError = async (providerName: string, response: Response) => {
+  const body = await response.text().catch(() => '')
+
+  if (response.status === 429) {
+    return new ChatError('UPSTREAM_RATE_LIMITED', `${providerName} API rate limit reached`)
+  }
+  if (response.status === 408 || response.status === 504) {
+    return new ChatError('UPSTREAM_TIMEOUT', `${providerName} API timed out`)
+  }
+  if (/content_policy|content_filter|safety/i.test(body)) {
+    return new ChatError('CONTENT_BLOCKED', `${providerName} declined to answer this request`)
+  }
+  return new ChatError('UPSTREAM_ERROR', `${providerName} API error: ${response.status}`)
+}
+
+// POSTs to a provider, mapping network failures, slow responses and non-2xx statuses onto ChatError codes.
+// The timeout covers the wait for response headers only, so long streamed replies are not cut off.
+export const fetchUpstream = async (
+  providerName: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+) => {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+  let response: Response
+  try {
+    response = await fetch(url, { ...init, method: 'POST', signal: controller.signal })
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ChatError('UPSTREAM_TIMEOUT', `${providerName} API did not respond within ${timeoutMs}ms`)
+    }
+    throw new ChatError('UPSTREAM_ERROR', `${providerName} API unreachable: ${(error as Error).message}`)
+  } finally {
+    clearTimeout(timer)
+  }
+
+  if (!response.ok) {
+    throw await upstreamError(providerName, response)
+  }
+  return response
+}
@@ -0,0 +1,72 @@
+import { ChatError, isChatErrorCode } from '../../_shared/chat-errors.ts'
+import { createAnthropicProvider } from './anthropic.ts'
+import { createMockProvider } from './mock.ts'
+import { createOpenAIProvider } from './openai.ts'
+import type { LlmProvider } from './types.ts'
+
+export { createMockProvider, type MockReply } from './mock.ts'
+export type {
+  ChatMessage,
+  Completion,
+  CompletionChunk,
+  CompletionOptions,
+  JsonSchema,
+  LlmProvider,
+  ToolCall,
+  ToolDefinition,
+} from './types.ts'
+
+// Picks the backend from the function's secrets:
+//   LLM_PROVIDER  openai (default) | anthropic | openai-compatible | mock
+//   LLM_MODEL     overrides the provider's default model
+//   LLM_BASE_URL  required for openai-compatible, optional otherwise
+//   LLM_TIMEOUT_MS  how long to wait for the provider to start answering (default 30s)
+//   LLM_API_KEY   optional for openai-compatible; OPENAI_API_KEY / ANTHROPIC_API_KEY for the hosted vendors
+//   MOCK_REPLIES, MOCK_LATENCY_MS, MOCK_FAILURE  script the mock provider (replies as a JSON array of
+//                 strings or { "toolCalls": [{ "name", "arguments" }] } steps, failure as a ChatErrorCode)
+export const getProvider = (env: (key: string) => string | undefined = (key) => Deno.env.get(key)): LlmProvider => {
+  const providerName = (env('LLM_PROVIDER') ?? 'openai').toLowerCase()
+  const model = env('LLM_MODEL')
+  const baseUrl = env('LLM_BASE_URL')
+  const timeoutMs = env('LLM_TIMEOUT_MS') ? Number(env('LLM_TIMEOUT_MS')) : undefined
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new ChatError('CONFIG_MISSING_KEY', 'OpenAI API key not configured')
+      }
+      return createOpenAIProvider({ apiKey, baseUrl, model: model ?? 'gpt-4o', timeoutMs })
+    }
+
+    case 'anthropic': {
+      const apiKey = env('ANTHROPIC_API_KEY')
+      if (!apiKey) {
+        throw new ChatError('CONFIG_MISSING_KEY', 'Anthropic API key not configured')
+      }
+      return createAnthropicProvider({ apiKey, baseUrl, model: model ?? 'claude-3-5-sonnet-latest', timeoutMs })
+    }
+
+    case 'openai-compatible': {
+      if (!baseUrl || !model) {
+        throw new ChatError('CONFIG_INVALID', 'LLM_BASE_URL and LLM_MODEL must be set for the openai-compatible provider')
+      }
+      return createOpenAIProvider({ name: 'OpenAI-compatible', apiKey: env('LLM_API_KEY'), baseUrl, model, timeoutMs })
+    }
+
+    case 'mock': {
+      const replies = env('MOCK_REPLIES')
+      const failure = env('MOCK_FAILURE')
+      return createMockProvider({
+        replies: replies ? JSON.parse(replies) : undefined,
+        latencyMs: Number(env('MOCK_LATENCY_MS') ?? 0),
+        failure: failure
+          ? new ChatError(isChatErrorCode(failure) ? failure : 'UPSTREAM_ERROR', `Mock failure: ${failure}`)
+          : undefined,
+      })
+    }
+
+    default:
+      throw new ChatError('CONFIG_INVALID', `Unknown LLM provider: ${providerName}`)
+  }
+}
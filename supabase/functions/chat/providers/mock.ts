@@ -0,0 +1,80 @@
+import type { ChatMessage, Completion, CompletionOptions, LlmProvider } from './types.ts'
+
+// A scripted model turn: plain text, or tool calls (optionally with some text before them)
+export type MockReply = string | { content?: string; toolCalls: { name: string; arguments?: unknown }[] }
+
+export interface MockProviderConfig {
+  // Replies are handed out in order; the last one repeats once the script runs out
+  replies?: MockReply[]
+  // Delay before a completion, and between streamed tokens
+  latencyMs?: number
+  // When set, every request rejects with this error
+  failure?: Error
+}
+
+export interface MockProvider extends LlmProvider {
+  // Every message list the provider was called with, oldest first
+  requests: ChatMessage[][]
+  // The options of each request, in the same order
+  requestOptions: CompletionOptions[]
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Deterministic stand-in for a real model, used by the test suite and for offline development
+export const createMockProvider = ({
+  replies = ['This is a mock reply from Nova.'],
+  latencyMs = 0,
+  failure,
+}: MockProviderConfig = {}): MockProvider => {
+  const requests: ChatMessage[][] = []
+  const requestOptions: CompletionOptions[] = []
+
+  const nextReply = async (messages: ChatMessage[], options: CompletionOptions): Promise<Completion> => {
+    requests.push(messages)
+    requestOptions.push(options)
+    if (latencyMs > 0) {
+      await sleep(latencyMs)
+    }
+    if (failure) {
+      throw failure
+    }
+
+    const reply = replies[Math.min(requests.length - 1, replies.length - 1)] ?? ''
+    if (typeof reply === 'string') {
+      return { content: reply, toolCalls: [] }
+    }
+    return {
+      content: reply.content ?? '',
+      toolCalls: reply.toolCalls.map((call, index) => ({
+        id: `call_${requests.length}_${index}`,
+        name: call.name,
+        arguments: call.arguments ?? {},
+      })),
+    }
+  }
+
+  return {
+    name: 'Mock',
+    model: 'mock',
+    requests,
+    requestOptions,
+    complete(messages, options) {
+      return nextReply(messages, options)
+    },
+    async *stream(messages, options) {
+      const { content, toolCalls } = await nextReply(messages, options)
+
+      // Split on word boundaries, keeping the whitespace, so the stream reassembles exactly
+      for (const token of content.match(/\S+\s*|\s+/g) ?? []) {
+        if (latencyMs > 0) {
+          await sleep(latencyMs)
+        }
+        yield { type: 'text', content: token }
+      }
+      for (const call of toolCalls) {
+        yield { type: 'tool_call', call }
+      }
+    },
+  }
+}
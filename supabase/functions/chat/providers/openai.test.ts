@@ -0,0 +1,134 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { stub } from 'https://deno.land/std@0.168.0/testing/mock.ts'
+import { ChatError } from '../../_shared/chat-errors.ts'
+import { createOpenAIProvider } from './openai.ts'
+import type { ChatMessage, CompletionChunk, CompletionOptions } from './types.ts'
+
+const options: CompletionOptions = { maxTokens: 100, temperature: 0.5 }
+
+const provider = createOpenAIProvider({ apiKey: 'test-key', model: 'gpt-test' })
+
+const sse = (payloads: unknown[]) =>
+  new Response(
+    [...payloads.map((payload) => JSON.stringify(payload)), '[DONE]'].map((data) => `data: ${data}\n\n`).join(''),
+  )
+
+// Runs `run` against a stubbed OpenAI API, returning what it produced and the JSON body it was sent
+const withUpstream = async <T>(response: Response, run: () => Promise<T>) => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(response))
+  try {
+    const result = await run()
+    const init = fetchStub.calls[0].args[1] as RequestInit
+    return { result, body: JSON.parse(init.body as string) }
+  } finally {
+    fetchStub.restore()
+  }
+}
+
+const collect = async (chunks: AsyncGenerator<CompletionChunk>) => {
+  const collected: CompletionChunk[] = []
+  for await (const chunk of chunks) {
+    collected.push(chunk)
+  }
+  return collected
+}
+
+Deno.test('sends tool calls as functions with JSON arguments, and results by call id', async () => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Weather?' },
+    { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } }] },
+    { role: 'tool', toolCallId: 'call_1', content: '{"result":"rain"}' },
+  ]
+
+  const { body } = await withUpstream(
+    Response.json({ choices: [{ message: { content: 'Rain.' } }] }),
+    () => provider.complete(messages, options),
+  )
+
+  assertEquals(body.messages, [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Weather?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } }],
+    },
+    { role: 'tool', content: '{"result":"rain"}', tool_call_id: 'call_1' },
+  ])
+})
+
+Deno.test('offers tools as functions along with the tool choice', async () => {
+  const parameters = { type: 'object' as const, properties: {} }
+  const { body } = await withUpstream(
+    Response.json({ choices: [{ message: { content: 'Nine.' } }] }),
+    () =>
+      provider.complete([{ role: 'user', content: 'Time?' }], {
+        ...options,
+        tools: [{ name: 'get_clock', description: 'Reads the clock', parameters }],
+        toolChoice: 'none',
+      }),
+  )
+
+  assertEquals(body.tools, [
+    { type: 'function', function: { name: 'get_clock', description: 'Reads the clock', parameters } },
+  ])
+  assertEquals(body.tool_choice, 'none')
+})
+
+Deno.test('parses the tool calls of a completion, keeping invalid JSON as text', async () => {
+  const { result } = await withUpstream(
+    Response.json({
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_clock', arguments: '{"zone":"UTC"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{city' } },
+          ],
+        },
+      }],
+    }),
+    () => provider.complete([{ role: 'user', content: 'Time?' }], options),
+  )
+
+  assertEquals(result, {
+    content: '',
+    toolCalls: [
+      { id: 'call_1', name: 'get_clock', arguments: { zone: 'UTC' } },
+      { id: 'call_2', name: 'get_weather', arguments: '{city' },
+    ],
+  })
+})
+
+Deno.test('assembles streamed tool calls from their pieces', async () => {
+  const { result } = await withUpstream(
+    sse([
+      { choices: [{ delta: { content: 'Checking.' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'get_weather' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"Oslo"}' } }] } }] },
+      { choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+    ]),
+    () => collect(provider.stream([{ role: 'user', content: 'Weather?' }], options)),
+  )
+
+  assertEquals(result, [
+    { type: 'text', content: 'Checking.' },
+    { type: 'tool_call', call: { id: 'call_1', name: 'get_weather', arguments: { city: 'Oslo' } } },
+  ])
+})
+
+Deno.test('reports content filtering as blocked content', async () => {
+  const completion = withUpstream(
+    Response.json({ choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] }),
+    () => provider.complete([{ role: 'user', content: 'Hi' }], options),
+  )
+  assertEquals((await assertRejects(() => completion, ChatError)).code, 'CONTENT_BLOCKED')
+
+  const stream = withUpstream(
+    sse([{ choices: [{ delta: { content: 'Well' } }] }, { choices: [{ delta: {}, finish_reason: 'content_filter' }] }]),
+    () => collect(provider.stream([{ role: 'user', content: 'Hi' }], options)),
+  )
+  assertEquals((await assertRejects(() => stream, ChatError)).code, 'CONTENT_BLOCKED')
+})
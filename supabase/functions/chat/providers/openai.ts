@@ -0,0 +1,131 @@
+import { ChatError } from '../../_shared/chat-errors.ts'
+import { fetchUpstream } from './http.ts'
+import { readSseData } from './sse.ts'
+import type { ChatMessage, CompletionOptions, LlmProvider, ToolCall } from './types.ts'
+
+interface OpenAIProviderConfig {
+  name?: string
+  apiKey?: string
+  baseUrl?: string
+  model: string
+  timeoutMs?: number
+}
+
+interface OpenAIToolCall {
+  id: string
+  type: 'function'
+  function: { name: string; arguments: string }
+}
+
+const parseArguments = (text: string): unknown => {
+  try {
+    return JSON.parse(text || '{}')
+  } catch {
+    return text
+  }
+}
+
+const toToolCall = ({ id, function: { name, arguments: args } }: OpenAIToolCall): ToolCall => ({
+  id,
+  name,
+  arguments: parseArguments(args),
+})
+
+const toWireMessage = ({ role, content, toolCalls, toolCallId }: ChatMessage) => {
+  if (role === 'tool') {
+    return { role, content, tool_call_id: toolCallId }
+  }
+  if (role === 'assistant' && toolCalls?.length) {
+    return {
+      role,
+      content: content || null,
+      tool_calls: toolCalls.map(({ id, name, arguments: args }) => ({
+        id,
+        type: 'function',
+        function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) },
+      })),
+    }
+  }
+  return { role, content }
+}
+
+// Works against api.openai.com and any server exposing the same /chat/completions API (Ollama, llama.cpp, vLLM)
+export const createOpenAIProvider = ({
+  name = 'OpenAI',
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model,
+  timeoutMs,
+}: OpenAIProviderConfig): LlmProvider => {
+  const request = async (messages: ChatMessage[], options: CompletionOptions, stream: boolean) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+
+    return fetchUpstream(name, `${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: messages.map(toWireMessage),
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        presence_penalty: options.presencePenalty,
+        frequency_penalty: options.frequencyPenalty,
+        tools: options.tools?.length
+          ? options.tools.map((tool) => ({ type: 'function', function: tool }))
+          : undefined,
+        tool_choice: options.tools?.length ? options.toolChoice : undefined,
+        stream,
+      }),
+    }, timeoutMs)
+  }
+
+  const blocked = () => new ChatError('CONTENT_BLOCKED', `${name} declined to answer this request`)
+
+  return {
+    name,
+    model,
+    async complete(messages, options) {
+      const response = await request(messages, options, false)
+      const data = await response.json()
+      const choice = data.choices?.[0]
+
+      if (choice?.finish_reason === 'content_filter') {
+        throw blocked()
+      }
+      return {
+        content: choice?.message?.content ?? '',
+        toolCalls: (choice?.message?.tool_calls ?? []).map(toToolCall),
+      }
+    },
+    async *stream(messages, options) {
+      const response = await request(messages, options, true)
+      // Tool calls arrive in pieces, keyed by their position in the reply
+      const toolCalls: OpenAIToolCall[] = []
+
+      for await (const payload of readSseData(response.body!)) {
+        if (payload === '[DONE]') break
+
+        const choice = JSON.parse(payload).choices?.[0]
+        if (choice?.finish_reason === 'content_filter') {
+          throw blocked()
+        }
+        if (choice?.delta?.content) {
+          yield { type: 'text', content: choice.delta.content }
+        }
+        for (const part of choice?.delta?.tool_calls ?? []) {
+          const call = toolCalls[part.index] ?? { id: '', type: 'function', function: { name: '', arguments: '' } }
+          toolCalls[part.index] = call
+          call.id = part.id ?? call.id
+          call.function.name += part.function?.name ?? ''
+          call.function.arguments += part.function?.arguments ?? ''
+        }
+      }
+
+      for (const call of toolCalls.filter(Boolean)) {
+        yield { type: 'tool_call', call: toToolCall(call) }
+      }
+    },
+  }
+}
@@ -0,0 +1,27 @@
+// Yields the `data:` payloads of a server-sent event stream, one per event
+export async function* readSseData(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (trimmed.startsWith('data:')) {
+          yield trimmed.slice(5).trim()
+        }
+      }
+    }
+  } finally {
+    // Stops the upstream body when the consumer bails out early
+    await reader.cancel()
+  }
+}
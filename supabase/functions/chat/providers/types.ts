@@ -0,0 +1,57 @@
+import type { JsonSchema } from '../../_shared/json-schema.ts'
+
+export type { JsonSchema }
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  // On assistant messages: the tools the model asked to call before answering
+  toolCalls?: ToolCall[]
+  // On tool messages: the call this message carries the result of
+  toolCallId?: string
+}
+
+
+// A tool as offered to the model
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: JsonSchema
+}
+
+export interface ToolCall {
+  id: string
+  name: string
+  // Parsed from the model's JSON; left as the raw text when the model produced invalid JSON
+  arguments: unknown
+}
+
+export interface CompletionOptions {
+  maxTokens: number
+  temperature: number
+  presencePenalty?: number
+  frequencyPenalty?: number
+  // Offered to the model; it may answer with tool calls instead of (or as well as) text
+  tools?: ToolDefinition[]
+  // 'none' still shows the model its tools (earlier calls in the conversation refer to them) but has it answer
+  // in text
+  toolChoice?: 'auto' | 'none'
+}
+
+export interface Completion {
+  content: string
+  toolCalls: ToolCall[]
+}
+
+export type CompletionChunk =
+  | { type: 'text'; content: string }
+  | { type: 'tool_call'; call: ToolCall }
+
+// A chat model backend; adapters translate our messages into the vendor's wire format
+export interface LlmProvider {
+  name: string
+  model: string
+  complete(messages: ChatMessage[], options: CompletionOptions): Promise<Completion>
+  // Text arrives as it is generated; tool calls are yielded once their arguments are complete
+  stream(messages: ChatMessage[], options: CompletionOptions): AsyncGenerator<CompletionChunk>
+}
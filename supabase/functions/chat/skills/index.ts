@@ -0,0 +1,2 @@
+export { createSkillLoader, type RequestedSkills, type SkillLoader } from './loader.ts'
+export type { ServerSkill, SkillTool, SkillToolContext } from './types.ts'
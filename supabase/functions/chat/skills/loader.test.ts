@@ -0,0 +1,61 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import type { SkillManifest } from '../../_shared/skills.ts'
+import { createToolRegistry } from '../tools/index.ts'
+import { createSkillLoader } from './loader.ts'
+import type { ServerSkill } from './types.ts'
+
+const manifest: SkillManifest = {
+  name: 'greeter',
+  title: 'Greeter',
+  description: 'Greets people',
+  version: '1.0.0',
+  triggers: ['say hello to Sam'],
+  tools: [
+    {
+      name: 'greeter_greet',
+      description: 'Greets someone by name',
+      parameters: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+    },
+  ],
+  settings: [{ key: 'greeting', label: 'Greeting', type: 'text', default: 'Hello' }],
+}
+
+const greeter: ServerSkill = {
+  manifest,
+  tools: [
+    {
+      name: 'greeter_greet',
+      handler: ({ name }, { settings }) => `${settings.greeting}, ${name}!`,
+    },
+  ],
+}
+
+Deno.test('offers only the tools of skills the request turned on', () => {
+  const loader = createSkillLoader([greeter])
+
+  assertEquals(loader.toolsFor(undefined), [])
+  assertEquals(loader.toolsFor({ other: {} }), [])
+  assertEquals(loader.toolsFor({ greeter: {} }).map((tool) => tool.name), ['greeter_greet'])
+  assertEquals(loader.enabled({ greeter: {}, other: {} }).map((skill) => skill.name), ['greeter'])
+})
+
+Deno.test("binds each tool to the user's settings for its skill", async () => {
+  const registry = createToolRegistry(createSkillLoader([greeter]).toolsFor({ greeter: { greeting: 'Hi' } }))
+  const invocation = await registry.execute({ id: 'call_1', name: 'greeter_greet', arguments: { name: 'Sam' } })
+
+  assertEquals(invocation.result, 'Hi, Sam!')
+})
+
+Deno.test('falls back to default settings', async () => {
+  const registry = createToolRegistry(createSkillLoader([greeter]).toolsFor({ greeter: { greeting: 42 } }))
+  const invocation = await registry.execute({ id: 'call_1', name: 'greeter_greet', arguments: { name: 'Sam' } })
+
+  assertEquals(invocation.result, 'Hello, Sam!')
+})
+
+Deno.test('refuses broken skills at startup', () => {
+  assertThrows(() => createSkillLoader([greeter, greeter]))
+  assertThrows(() => createSkillLoader([{ ...greeter, tools: [] }]))
+  assertThrows(() => createSkillLoader([{ ...greeter, tools: [...greeter.tools, { name: 'greeter_wave', handler: () => 'o/' }] }]))
+  assertThrows(() => createSkillLoader([{ ...greeter, manifest: { ...manifest, name: 'Greeter' } }]))
+})
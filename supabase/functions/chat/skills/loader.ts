@@ -0,0 +1,64 @@
+import { findManifestProblem, resolveSkillSettings, type SkillManifest } from '../../_shared/skills.ts'
+import type { Tool } from '../tools/index.ts'
+import type { ServerSkill } from './types.ts'
+
+// The skills a request turned on, each with the user's settings for it (not yet checked)
+export type RequestedSkills = Record<string, unknown>
+
+export interface SkillLoader {
+  manifests: SkillManifest[]
+  // The requested skills this function has. Others are ignored: the client may have skills that only run there.
+  enabled(requested: RequestedSkills | undefined): SkillManifest[]
+  // Their tools, bound to the user's settings
+  toolsFor(requested: RequestedSkills | undefined): Tool[]
+}
+
+// Checks every skill up front, so a broken one fails at startup rather than in the middle of a conversation
+export const createSkillLoader = (skills: ServerSkill[]): SkillLoader => {
+  const byName = new Map<string, ServerSkill>()
+  for (const skill of skills) {
+    const { name, tools } = skill.manifest
+    const problem = findManifestProblem(skill.manifest)
+    if (problem) {
+      throw new Error(`Invalid skill manifest for ${name}: ${problem}`)
+    }
+    if (byName.has(name)) {
+      throw new Error(`Duplicate skill name: ${name}`)
+    }
+
+    const listed = tools.map((tool) => tool.name)
+    const handled = skill.tools.map((tool) => tool.name)
+    const unhandled = listed.find((toolName) => !handled.includes(toolName))
+    if (unhandled) {
+      throw new Error(`Skill ${name} has no handler for its tool ${unhandled}`)
+    }
+    const unlisted = handled.find((toolName) => !listed.includes(toolName))
+    if (unlisted) {
+      throw new Error(`Skill ${name} handles ${unlisted}, which its manifest doesn't list`)
+    }
+    byName.set(name, skill)
+  }
+
+  const enabledSkills = (requested: RequestedSkills | undefined) =>
+    Object.keys(requested ?? {}).flatMap((name) => byName.get(name) ?? [])
+
+  return {
+    manifests: skills.map((skill) => skill.manifest),
+    enabled: (requested) => enabledSkills(requested).map((skill) => skill.manifest),
+    toolsFor(requested) {
+      return enabledSkills(requested).flatMap(({ manifest, tools }) => {
+        const settings = resolveSkillSettings(manifest, requested![manifest.name])
+        return manifest.tools.map(({ name, description, parameters }): Tool => {
+          const { timeoutMs, handler } = tools.find((tool) => tool.name === name)!
+          return {
+            name,
+            description,
+            parameters,
+            timeoutMs,
+            handler: (args, context) => handler(args, { ...context, settings }),
+          }
+        })
+      })
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import type { SkillManifest, SkillSettingValues } from '../../_shared/skills.ts'
+import type { ToolContext } from '../tools/index.ts'
+
+export interface SkillToolContext extends ToolContext {
+  // The user's settings for the skill, with defaults filled in
+  settings: SkillSettingValues
+}
+
+// The handler for one of the tools in a skill's manifest. The registry checks calls against the manifest's
+// schema before `handler` runs, as it does for built-in tools.
+export interface SkillTool<Args = Record<string, unknown>> {
+  name: string
+  // Overrides the registry's default time limit
+  timeoutMs?: number
+  handler(args: Args, context: SkillToolContext): unknown | Promise<unknown>
+}
+
+// The server half of a skill: its manifest and a handler for every tool the manifest lists
+export interface ServerSkill {
+  manifest: SkillManifest
+  tools: SkillTool[]
+}
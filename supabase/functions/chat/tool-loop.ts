@@ -0,0 +1,115 @@
+import type { ToolInvocation } from '../_shared/tool-invocations.ts'
+import type { ChatMessage, CompletionOptions, LlmProvider, ToolCall } from './providers/index.ts'
+import type { ToolContext, ToolRegistry } from './tools/index.ts'
+
+// What tools get to know about the request they are answering
+export type ReplyContext = Omit<ToolContext, 'signal'>
+
+// Rounds of tool calls one reply may take. The step after the last round is told to answer with what it has.
+export const MAX_TOOL_STEPS = 4
+
+const FINAL_STEP_INSTRUCTION: ChatMessage = {
+  role: 'system',
+  content: "You can't call any more tools for this reply. Answer the user now from the tool results you have.",
+}
+
+export type ReplyEvent =
+  | { type: 'text'; content: string }
+  | { type: 'tool'; invocation: ToolInvocation }
+
+const toolResultMessage = (invocation: ToolInvocation): ChatMessage => ({
+  role: 'tool',
+  toolCallId: invocation.id,
+  content: JSON.stringify(
+    invocation.status === 'ok' ? { result: invocation.result ?? null } : { error: invocation.error },
+  ),
+})
+
+const withTools = (options: CompletionOptions, tools: ToolRegistry | null): CompletionOptions =>
+  tools?.definitions.length ? { ...options, tools: tools.definitions } : options
+
+// What one step sends: on the last one the model must answer in text, or the user would be left with nothing
+const stepRequest = (conversation: ChatMessage[], options: CompletionOptions, step: number) =>
+  step === MAX_TOOL_STEPS && options.tools
+    ? { messages: [...conversation, FINAL_STEP_INSTRUCTION], options: { ...options, toolChoice: 'none' as const } }
+    : { messages: conversation, options }
+
+// Runs a step's tool calls side by side, and extends the conversation with the calls and their results
+const runTools = async (
+  tools: ToolRegistry,
+  context: ReplyContext,
+  conversation: ChatMessage[],
+  content: string,
+  calls: ToolCall[],
+) => {
+  const invocations = await Promise.all(calls.map((call) => tools.execute(call, context)))
+  conversation.push({ role: 'assistant', content, toolCalls: calls }, ...invocations.map(toolResultMessage))
+  return invocations
+}
+
+// Streams a reply, running the tools the model asks for along the way: each step's text is passed on as it
+// arrives, and a step that ends in tool calls is followed by another with their results added.
+export const streamReply = async function* (
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+  tools: ToolRegistry | null,
+  context: ReplyContext,
+): AsyncGenerator<ReplyEvent> {
+  const conversation = [...messages]
+  const stepOptions = withTools(options, tools)
+  let written = false
+
+  for (let step = 0; ; step += 1) {
+    let content = ''
+    const calls: ToolCall[] = []
+
+    const request = stepRequest(conversation, stepOptions, step)
+    for await (const chunk of provider.stream(request.messages, request.options)) {
+      if (chunk.type === 'tool_call') {
+        calls.push(chunk.call)
+        continue
+      }
+      // Text from an earlier step ("Let me check.") stays its own paragraph
+      if (!content && written) {
+        yield { type: 'text', content: '\n\n' }
+      }
+      content += chunk.content
+      yield chunk
+    }
+
+    written = written || content !== ''
+    if (!tools || calls.length === 0 || step === MAX_TOOL_STEPS) return
+
+    for (const invocation of await runTools(tools, context, conversation, content, calls)) {
+      yield { type: 'tool', invocation }
+    }
+  }
+}
+
+// The same loop without streaming: resolves to the whole reply once the model stops calling tools
+export const completeReply = async (
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  options: CompletionOptions,
+  tools: ToolRegistry | null,
+  context: ReplyContext,
+) => {
+  const conversation = [...messages]
+  const stepOptions = withTools(options, tools)
+  const paragraphs: string[] = []
+  const invocations: ToolInvocation[] = []
+
+  for (let step = 0; ; step += 1) {
+    const request = stepRequest(conversation, stepOptions, step)
+    const { content, toolCalls } = await provider.complete(request.messages, request.options)
+    if (content) {
+      paragraphs.push(content)
+    }
+    if (!tools || toolCalls.length === 0 || step === MAX_TOOL_STEPS) {
+      return { content: paragraphs.join('\n\n'), invocations }
+    }
+
+    invocations.push(...(await runTools(tools, context, conversation, content, toolCalls)))
+  }
+}
@@ -0,0 +1,30 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { calculatorTools } from './calculator.ts'
+import { createToolRegistry } from './registry.ts'
+
+const registry = createToolRegistry(calculatorTools)
+
+const calculate = (expression: string) =>
+  registry.execute({ id: 'call_1', name: 'calculate', arguments: { expression } })
+
+Deno.test('hands the model an exact result to read out', async () => {
+  const invocation = await calculate('17.5% of 2340')
+
+  assertEquals(invocation.status, 'ok')
+  assertEquals(invocation.result, {
+    expression: '17.5% of 2340',
+    value: '409.5',
+    unit: null,
+    exact: true,
+    display: '409.5',
+    spoken: '409.5',
+    note: undefined,
+  })
+})
+
+Deno.test('tells the model why an expression could not be worked out', async () => {
+  const invocation = await calculate('12 kg to miles')
+
+  assertEquals(invocation.status, 'error')
+  assertEquals(invocation.error, "Can't convert kilograms to miles")
+})
@@ -0,0 +1,22 @@
+import { calculate } from '../../_shared/calculator.ts'
+import type { Tool } from './types.ts'
+
+const calculateTool: Tool<{ expression: string }> = {
+  name: 'calculate',
+  description:
+    'Works out arithmetic exactly, including percentages, powers, big numbers, unit conversions and currency ' +
+    "conversions (from a fixed offline rate table). Use it for any calculation instead of doing the math yourself, " +
+    "e.g. '17.5% of 2340', '2^100', '(3 + 4) * 12 / 7', 'sqrt(2)', '5 km to miles', '100 f to c', '250 USD to EUR'. " +
+    'Read `spoken` aloud; `display` is the precise result.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The calculation, in symbols or plain words' },
+    },
+    required: ['expression'],
+  },
+  // Failures throw CalculationErrors, whose messages tell the model what to fix
+  handler: ({ expression }) => calculate(expression),
+}
+
+export const calculatorTools: Tool[] = [calculateTool]
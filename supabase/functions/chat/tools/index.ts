@@ -0,0 +1,9 @@
+import { calculatorTools } from './calculator.ts'
+import { timeTools } from './time.ts'
+import type { Tool } from './types.ts'
+
+export { createToolRegistry, type ToolRegistry } from './registry.ts'
+export type { Tool, ToolContext } from './types.ts'
+
+// Tools offered to the model in every conversation. Each one lives in its own module in this directory.
+export const builtInTools: Tool[] = [...timeTools, ...calculatorTools]
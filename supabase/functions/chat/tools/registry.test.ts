@@ -0,0 +1,84 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { createToolRegistry } from './registry.ts'
+import type { Tool } from './types.ts'
+
+const echoTool: Tool<{ text: string; times?: number }> = {
+  name: 'echo',
+  description: 'Repeats the text',
+  parameters: {
+    type: 'object',
+    properties: { text: { type: 'string' }, times: { type: 'integer' } },
+    required: ['text'],
+  },
+  handler: ({ text, times = 1 }) => text.repeat(times),
+}
+
+const call = (name: string, args: unknown) => ({ id: 'call_1', name, arguments: args })
+
+Deno.test('offers each tool to the model by name, description and parameters', () => {
+  const registry = createToolRegistry([echoTool])
+
+  assertEquals(registry.definitions, [
+    { name: 'echo', description: 'Repeats the text', parameters: echoTool.parameters },
+  ])
+})
+
+Deno.test('rejects duplicate tool names', () => {
+  assertThrows(() => createToolRegistry([echoTool, echoTool]))
+})
+
+Deno.test('runs a tool and reports its result', async () => {
+  const invocation = await createToolRegistry([echoTool]).execute(call('echo', { text: 'ab', times: 2 }))
+
+  assertEquals(invocation.status, 'ok')
+  assertEquals(invocation.result, 'abab')
+  assertEquals(invocation.id, 'call_1')
+})
+
+Deno.test('reports unknown tools without throwing', async () => {
+  const invocation = await createToolRegistry([echoTool]).execute(call('weather', {}))
+
+  assertEquals(invocation.status, 'error')
+  assertEquals(invocation.error, 'Unknown tool: weather')
+})
+
+Deno.test('checks arguments against the schema before running the tool', async () => {
+  const registry = createToolRegistry([echoTool])
+
+  assertEquals((await registry.execute(call('echo', {}))).error, 'Invalid arguments: arguments.text is required')
+  assertEquals(
+    (await registry.execute(call('echo', { text: 'a', times: 1.5 }))).error,
+    'Invalid arguments: arguments.times must be an integer',
+  )
+  assertEquals((await registry.execute(call('echo', 'not json'))).error, 'Invalid arguments: arguments must be an object')
+})
+
+Deno.test('reports tools that throw', async () => {
+  const failing: Tool = { ...echoTool, name: 'failing', handler: () => Promise.reject(new Error('Out of order')) }
+  const invocation = await createToolRegistry([failing]).execute(call('failing', { text: 'a' }))
+
+  assertEquals(invocation.status, 'error')
+  assertEquals(invocation.error, 'Out of order')
+})
+
+Deno.test('gives up on tools that run past their time limit', async () => {
+  let aborted = false
+  const slow: Tool = {
+    ...echoTool,
+    name: 'slow',
+    timeoutMs: 10,
+    handler: (_, { signal }) =>
+      new Promise((resolve) => {
+        const timer = setTimeout(resolve, 1_000)
+        signal.addEventListener('abort', () => {
+          aborted = true
+          clearTimeout(timer)
+        })
+      }),
+  }
+  const invocation = await createToolRegistry([slow]).execute(call('slow', { text: 'a' }))
+
+  assertEquals(invocation.status, 'timeout')
+  assertEquals(invocation.error, 'slow did not finish within 10ms')
+  assertEquals(aborted, true)
+})
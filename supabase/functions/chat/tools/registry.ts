@@ -0,0 +1,76 @@
+import type { ToolInvocation } from '../../_shared/tool-invocations.ts'
+import type { ToolCall, ToolDefinition } from '../providers/types.ts'
+import { validateAgainstSchema } from './schema.ts'
+import type { Tool, ToolContext } from './types.ts'
+
+const DEFAULT_TOOL_TIMEOUT_MS = 5_000
+
+export interface ToolRegistry {
+  definitions: ToolDefinition[]
+  // Runs one call. Never throws: unknown tools, invalid arguments, failures and timeouts are all reported
+  // in the invocation, so the model can be told what happened and carry on.
+  execute(call: ToolCall, context?: Partial<Omit<ToolContext, 'signal'>>): Promise<ToolInvocation>
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+// Collects the tools offered to the model. Names must be unique, since the model calls tools by name.
+export const createToolRegistry = (
+  tools: Tool[],
+  { defaultTimeoutMs = DEFAULT_TOOL_TIMEOUT_MS }: { defaultTimeoutMs?: number } = {},
+): ToolRegistry => {
+  const byName = new Map<string, Tool>()
+  for (const tool of tools) {
+    if (byName.has(tool.name)) {
+      throw new Error(`Duplicate tool name: ${tool.name}`)
+    }
+    byName.set(tool.name, tool)
+  }
+
+  return {
+    definitions: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+    async execute(call, { now = new Date(), client = null } = {}) {
+      const startedAt = Date.now()
+      const invocation = (outcome: Pick<ToolInvocation, 'status' | 'result' | 'error'>): ToolInvocation => ({
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments,
+        ...outcome,
+        durationMs: Date.now() - startedAt,
+      })
+
+      const tool = byName.get(call.name)
+      if (!tool) {
+        return invocation({ status: 'error', error: `Unknown tool: ${call.name}` })
+      }
+      const problem = validateAgainstSchema(tool.parameters, call.arguments)
+      if (problem) {
+        return invocation({ status: 'error', error: `Invalid arguments: ${problem}` })
+      }
+
+      const timeoutMs = tool.timeoutMs ?? defaultTimeoutMs
+      const controller = new AbortController()
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const timeout = new Promise<'timeout'>((resolve) => {
+        timer = setTimeout(() => {
+          controller.abort()
+          resolve('timeout')
+        }, timeoutMs)
+      })
+
+      try {
+        const run = Promise.resolve().then(() => tool.handler(call.arguments as Record<string, unknown>, { signal: controller.signal, now, client }))
+        const outcome = await Promise.race([run.then((result) => ({ result })), timeout])
+        if (outcome === 'timeout') {
+          return invocation({ status: 'timeout', error: `${call.name} did not finish within ${timeoutMs}ms` })
+        }
+        return invocation({ status: 'ok', result: outcome.result })
+      } catch (error) {
+        console.error(`Tool ${call.name} failed:`, error)
+        return invocation({ status: 'error', error: errorMessage(error) })
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+  }
+}
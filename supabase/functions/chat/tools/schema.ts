@@ -0,0 +1,55 @@
+import type { JsonSchema } from '../providers/types.ts'
+
+const typeOf = (value: unknown) => {
+  if (Array.isArray(value)) return 'array'
+  if (value === null) return 'null'
+  return typeof value
+}
+
+const matchesType = (schema: JsonSchema, value: unknown) => {
+  switch (schema.type) {
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'object':
+      return typeOf(value) === 'object'
+    default:
+      return typeOf(value) === schema.type
+  }
+}
+
+// Checks `value` against the subset of JSON Schema tools use. Returns a description of the first problem
+// found, phrased for the model so it can correct its call, or null when the value is valid.
+export const validateAgainstSchema = (schema: JsonSchema, value: unknown, path = 'arguments'): string | null => {
+  if (!matchesType(schema, value)) {
+    return `${path} must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}`
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return `${path} must be one of: ${schema.enum.join(', ')}`
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        return `${path}.${key} is required`
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      if (object[key] === undefined) continue
+      const problem = validateAgainstSchema(property, object[key], `${path}.${key}`)
+      if (problem) return problem
+    }
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    const items = value as unknown[]
+    for (let index = 0; index < items.length; index += 1) {
+      const problem = validateAgainstSchema(schema.items, items[index], `${path}[${index}]`)
+      if (problem) return problem
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,74 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { createToolRegistry } from './registry.ts'
+import { shiftDate, timeTools } from './time.ts'
+
+const registry = createToolRegistry(timeTools)
+
+// 23:30 on Monday 19 October 2026 in Berlin, which is already Tuesday in Tokyo
+const context = {
+  now: new Date('2026-10-19T21:30:00Z'),
+  client: { localTime: '2026-10-19T23:30:00+02:00', timezone: 'Europe/Berlin', locale: 'de-DE' },
+}
+
+const run = async (name: string, args: Record<string, unknown>) => {
+  const invocation = await registry.execute({ id: 'call_1', name, arguments: args }, context)
+  assertEquals(invocation.error, undefined)
+  return invocation.result
+}
+
+Deno.test('tells the time in the user\'s time zone', async () => {
+  assertEquals(await run('get_current_time', {}), {
+    timezone: 'Europe/Berlin',
+    date: '2026-10-19',
+    time: '23:30',
+    weekday: 'Monday',
+    utcOffset: '+02:00',
+  })
+})
+
+Deno.test('tells the time in another time zone', async () => {
+  assertEquals(await run('get_current_time', { timezone: 'Asia/Tokyo' }), {
+    timezone: 'Asia/Tokyo',
+    date: '2026-10-20',
+    time: '06:30',
+    weekday: 'Tuesday',
+    utcOffset: '+09:00',
+  })
+})
+
+Deno.test('rejects unknown time zones', async () => {
+  const invocation = await registry.execute(
+    { id: 'call_1', name: 'get_current_time', arguments: { timezone: 'Mars/Olympus' } },
+    context,
+  )
+
+  assertEquals(invocation.status, 'error')
+  assertEquals(invocation.error, "Unknown time zone: Mars/Olympus. Use an IANA name such as 'Asia/Tokyo'.")
+})
+
+Deno.test('counts days forward from the user\'s today', async () => {
+  assertEquals(await run('shift_date', { days: 90 }), { date: '2027-01-17', weekday: 'Sunday' })
+})
+
+Deno.test('adds months without overflowing short months', () => {
+  const shifted = shiftDate(new Date(Date.UTC(2028, 0, 31)), { months: 1 })
+  assertEquals(shifted.toISOString().slice(0, 10), '2028-02-29')
+})
+
+Deno.test('counts the days between two dates', async () => {
+  const result = await run('days_between', { to: '2026-12-25' }) as { days: number }
+  assertEquals(result.days, 67)
+})
+
+Deno.test('converts a time between zones across a daylight saving change', async () => {
+  // Britain leaves summer time on 25 October 2026, New York not until 1 November
+  const result = await run('convert_time', {
+    time: '15:00',
+    from: 'Europe/London',
+    to: 'America/New_York',
+    date: '2026-10-26',
+  }) as { to: { time: string; date: string } }
+
+  assertEquals(result.to.time, '11:00')
+  assertEquals(result.to.date, '2026-10-26')
+})
@@ -0,0 +1,178 @@
+import type { Tool, ToolContext } from './types.ts'
+
+// Dates are calendar dates (YYYY-MM-DD) and times wall-clock times (HH:MM) in some time zone. Date arithmetic
+// is done on UTC midnights, so daylight saving changes never shift a date by a day.
+
+const DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME = /^([01]?\d|2[0-3]):([0-5]\d)$/
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export const isTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const timeZoneOf = (requested: string | undefined, { client }: ToolContext) => {
+  const timeZone = requested ?? client?.timezone ?? 'UTC'
+  if (!isTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}. Use an IANA name such as 'Asia/Tokyo'.`)
+  }
+  return timeZone
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+const formatOffset = (minutes: number) =>
+  `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`
+
+// The wall clock in `timeZone` at `instant`, and that zone's offset from UTC at the time
+const wallClock = (instant: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  )
+  const [year, month, day, hour, minute] = [parts.year, parts.month, parts.day, parts.hour, parts.minute].map(Number)
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute)
+  const offsetMinutes = Math.round((wallAsUtc - Math.floor(instant.getTime() / MINUTE_MS) * MINUTE_MS) / MINUTE_MS)
+
+  return { date: `${year}-${pad(month)}-${pad(day)}`, time: `${pad(hour)}:${pad(minute)}`, offsetMinutes }
+}
+
+const parseDate = (value: string) => {
+  const match = DATE.exec(value)
+  const parsed = match && new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  if (!parsed || parsed.getUTCDate() !== Number(match[3])) {
+    throw new Error(`Invalid date: ${value}. Use YYYY-MM-DD.`)
+  }
+  return parsed
+}
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10)
+
+const weekdayOf = (date: Date) => date.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })
+
+const describeDate = (date: Date) => ({ date: formatDate(date), weekday: weekdayOf(date) })
+
+const today = (context: ToolContext) => parseDate(wallClock(context.now, timeZoneOf(undefined, context)).date)
+
+// Whole months are added first, landing on the last day of the month when the day doesn't exist there
+// (31 January plus one month is 28 or 29 February), then weeks and days
+export const shiftDate = (
+  date: Date,
+  { years = 0, months = 0, weeks = 0, days = 0 }: { years?: number; months?: number; weeks?: number; days?: number },
+) => {
+  const totalMonths = date.getUTCFullYear() * 12 + date.getUTCMonth() + years * 12 + months
+  const year = Math.floor(totalMonths / 12)
+  const month = totalMonths - year * 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const shifted = Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay))
+  return new Date(shifted + (weeks * 7 + days) * DAY_MS)
+}
+
+// The instant at which the wall clock in `timeZone` shows `time` on `date`. Two passes settle the offset,
+// including around daylight saving changes.
+const instantAt = (date: Date, time: string, timeZone: string) => {
+  const match = TIME.exec(time)
+  if (!match) {
+    throw new Error(`Invalid time: ${time}. Use 24-hour HH:MM.`)
+  }
+  const wall = date.getTime() + (Number(match[1]) * 60 + Number(match[2])) * MINUTE_MS
+  let instant = wall
+  for (let pass = 0; pass < 2; pass += 1) {
+    instant = wall - wallClock(new Date(instant), timeZone).offsetMinutes * MINUTE_MS
+  }
+  return new Date(instant)
+}
+
+const describeInstant = (instant: Date, timeZone: string) => {
+  const { date, time, offsetMinutes } = wallClock(instant, timeZone)
+  return { timezone: timeZone, date, time, weekday: weekdayOf(parseDate(date)), utcOffset: formatOffset(offsetMinutes) }
+}
+
+const getCurrentTime: Tool<{ timezone?: string }> = {
+  name: 'get_current_time',
+  description:
+    "The current date and time, in the user's time zone unless another IANA time zone is given " +
+    "(e.g. 'Asia/Tokyo' for the time in Tokyo).",
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: { type: 'string', description: 'IANA time zone name; defaults to the user\'s own' },
+    },
+  },
+  handler: ({ timezone }, context) => describeInstant(context.now, timeZoneOf(timezone, context)),
+}
+
+const shiftDateTool: Tool<{ date?: string; years?: number; months?: number; weeks?: number; days?: number }> = {
+  name: 'shift_date',
+  description:
+    'Adds (or, with negative numbers, subtracts) years, months, weeks and days to a date, e.g. to answer ' +
+    '"what day is 90 days from now". Returns the resulting date and its weekday.',
+  parameters: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', description: "Starting date as YYYY-MM-DD; defaults to today in the user's time zone" },
+      years: { type: 'integer' },
+      months: { type: 'integer' },
+      weeks: { type: 'integer' },
+      days: { type: 'integer' },
+    },
+  },
+  handler: ({ date, ...amounts }, context) => describeDate(shiftDate(date ? parseDate(date) : today(context), amounts)),
+}
+
+const daysBetween: Tool<{ from?: string; to: string }> = {
+  name: 'days_between',
+  description: 'Counts the days from one date to another, e.g. "how many days until Christmas". Negative if `to` is earlier.',
+  parameters: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', description: "YYYY-MM-DD; defaults to today in the user's time zone" },
+      to: { type: 'string', description: 'YYYY-MM-DD' },
+    },
+    required: ['to'],
+  },
+  handler: ({ from, to }, context) => {
+    const start = from ? parseDate(from) : today(context)
+    const end = parseDate(to)
+    return { from: describeDate(start), to: describeDate(end), days: Math.round((end.getTime() - start.getTime()) / DAY_MS) }
+  },
+}
+
+const convertTime: Tool<{ time: string; from?: string; to: string; date?: string }> = {
+  name: 'convert_time',
+  description: 'Converts a wall-clock time from one time zone to another, e.g. "3pm in London is what time in Tokyo".',
+  parameters: {
+    type: 'object',
+    properties: {
+      time: { type: 'string', description: '24-hour HH:MM' },
+      from: { type: 'string', description: "IANA time zone of `time`; defaults to the user's own" },
+      to: { type: 'string', description: 'IANA time zone to convert to' },
+      date: { type: 'string', description: 'YYYY-MM-DD in the `from` zone; defaults to today there' },
+    },
+    required: ['time', 'to'],
+  },
+  handler: ({ time, from, to, date }, context) => {
+    const fromZone = timeZoneOf(from, context)
+    const day = date ? parseDate(date) : parseDate(wallClock(context.now, fromZone).date)
+    const instant = instantAt(day, time, fromZone)
+    return { from: describeInstant(instant, fromZone), to: describeInstant(instant, timeZoneOf(to, context)) }
+  },
+}
+
+export const timeTools: Tool[] = [getCurrentTime, shiftDateTool, daysBetween, convertTime]
@@ -0,0 +1,22 @@
+import type { ClientContext } from '../../_shared/client-context.ts'
+import type { JsonSchema } from '../providers/types.ts'
+
+export interface ToolContext {
+  // Aborted when the tool runs out of time; tools doing I/O should pass it on
+  signal: AbortSignal
+  // "Now" by the user's own clock when the request said what that is, otherwise the server's
+  now: Date
+  // The user's time zone, locale and (if shared) rough location, when the client sent them
+  client: ClientContext | null
+}
+
+// A function the model can call. `parameters` describes the arguments object; the registry checks calls
+// against it before `handler` runs, so handlers can trust the shape of what they receive.
+export interface Tool<Args = Record<string, unknown>> {
+  name: string
+  description: string
+  parameters: JsonSchema & { type: 'object' }
+  // Overrides the registry's default time limit
+  timeoutMs?: number
+  handler(args: Args, context: ToolContext): unknown | Promise<unknown>
+}
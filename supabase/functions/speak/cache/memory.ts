@@ -0,0 +1,22 @@
+import type { SynthesizedAudio } from '../providers/index.ts'
+import type { AudioCache } from './types.ts'
+
+export interface MemoryAudioCache extends AudioCache {
+  entries: Map<string, SynthesizedAudio>
+}
+
+// Per-instance cache, used by the test suite and when no storage bucket is configured
+export const createMemoryAudioCache = (): MemoryAudioCache => {
+  const entries = new Map<string, SynthesizedAudio>()
+
+  return {
+    entries,
+    get(key) {
+      return Promise.resolve(entries.get(key) ?? null)
+    },
+    put(key, audio) {
+      entries.set(key, audio)
+      return Promise.resolve()
+    },
+  }
+}
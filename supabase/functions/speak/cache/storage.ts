@@ -0,0 +1,30 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { AudioCache } from './types.ts'
+
+const BUCKET = 'tts-cache'
+
+// Keeps audio in the private `tts-cache` Storage bucket, so every function instance (and every user) shares it.
+// Uses the service role, since cached phrases aren't tied to the user who first asked for them.
+export const createStorageAudioCache = (supabaseUrl: string, serviceRoleKey: string): AudioCache => {
+  const bucket = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } }).storage.from(BUCKET)
+
+  return {
+    async get(key) {
+      const { data, error } = await bucket.download(key)
+      // A miss comes back as an error too; either way the audio is synthesized afresh
+      if (error || !data) return null
+      return { audio: new Uint8Array(await data.arrayBuffer()), contentType: data.type || 'application/octet-stream' }
+    },
+    async put(key, { audio, contentType }) {
+      const { error } = await bucket.upload(key, audio, { contentType, upsert: true })
+      if (error) throw error
+    },
+  }
+}
+
+// The shared bucket when the function has its service role secrets (always true once deployed), else null
+export const getStorageAudioCache = (): AudioCache | null => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return supabaseUrl && serviceRoleKey ? createStorageAudioCache(supabaseUrl, serviceRoleKey) : null
+}
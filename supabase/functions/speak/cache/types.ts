@@ -0,0 +1,7 @@
+import type { SynthesizedAudio } from '../providers/index.ts'
+
+// Synthesized audio keyed by a content hash of everything that affects how it sounds
+export interface AudioCache {
+  get(key: string): Promise<SynthesizedAudio | null>
+  put(key: string, audio: SynthesizedAudio): Promise<void>
+}
@@ -0,0 +1,134 @@
+import { assertEquals, assertMatch, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { stub } from 'https://deno.land/std@0.168.0/testing/mock.ts'
+import { ChatError } from '../_shared/chat-errors.ts'
+import { createMemoryAudioCache } from './cache/memory.ts'
+import { createSpeakHandler } from './handler.ts'
+import { createMockTtsProvider, getTtsProvider } from './providers/index.ts'
+
+const speakRequest = (body: unknown) =>
+  new Request('http://localhost/functions/v1/speak', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+
+const envOf = (values: Record<string, string>) => (key: string) => values[key]
+
+Deno.test('answers CORS preflight requests', async () => {
+  const handler = createSpeakHandler({ getProvider: () => createMockTtsProvider() })
+  const response = await handler(new Request('http://localhost/functions/v1/speak', { method: 'OPTIONS' }))
+
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Access-Control-Allow-Origin'), '*')
+})
+
+Deno.test('returns the synthesized audio', async () => {
+  const handler = createSpeakHandler({ getProvider: () => createMockTtsProvider() })
+  const response = await handler(speakRequest({ text: ' Hello there. ' }))
+
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Content-Type'), 'application/octet-stream')
+  assertEquals(response.headers.get('X-Audio-Type'), 'audio/wav')
+  assertEquals(await response.text(), 'Hello there.')
+})
+
+Deno.test('serves repeated text from the cache', async () => {
+  const provider = createMockTtsProvider()
+  const cache = createMemoryAudioCache()
+  const handler = createSpeakHandler({ getProvider: () => provider, cache })
+
+  const first = await handler(speakRequest({ text: 'Good morning.' }))
+  const second = await handler(speakRequest({ text: 'Good morning.' }))
+  await handler(speakRequest({ text: 'Good evening.' }))
+
+  assertEquals(first.headers.get('X-Cache'), 'MISS')
+  assertEquals(second.headers.get('X-Cache'), 'HIT')
+  assertEquals(await second.text(), 'Good morning.')
+  assertEquals(first.headers.get('ETag'), second.headers.get('ETag'))
+  assertMatch(first.headers.get('ETag') ?? '', /^"[0-9a-f]{64}"$/)
+  assertEquals(provider.requests, ['Good morning.', 'Good evening.'])
+  assertEquals(cache.entries.size, 2)
+})
+
+Deno.test('still speaks when the cache fails', async () => {
+  const handler = createSpeakHandler({
+    getProvider: () => createMockTtsProvider(),
+    cache: {
+      get: () => Promise.reject(new Error('storage down')),
+      put: () => Promise.reject(new Error('storage down')),
+    },
+  })
+  const response = await handler(speakRequest({ text: 'Still here.' }))
+
+  assertEquals(response.status, 200)
+  assertEquals(await response.text(), 'Still here.')
+})
+
+Deno.test('speaks each language with its own voice', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () => Promise.resolve(new Response(new Uint8Array([73, 68, 51]))))
+  try {
+    const cache = createMemoryAudioCache()
+    const handler = createSpeakHandler({
+      getProvider: () => getTtsProvider(envOf({ OPENAI_API_KEY: 'test-key', TTS_VOICES: 'es=nova, ja=shimmer' })),
+      cache,
+    })
+
+    const english = await handler(speakRequest({ text: 'Hola.', language: 'en' }))
+    const spanish = await handler(speakRequest({ text: 'Hola.', language: 'es' }))
+    await handler(speakRequest({ text: 'Hola.' }))
+
+    const voices = fetchStub.calls.map(({ args }) => JSON.parse(args[1].body).voice)
+    assertEquals(voices, ['alloy', 'nova'])
+    // The same text in another voice is different audio
+    assertEquals(spanish.headers.get('X-Cache'), 'MISS')
+    assertEquals(cache.entries.size, 2)
+    assertEquals(new Uint8Array(await english.arrayBuffer()), new Uint8Array([73, 68, 51]))
+  } finally {
+    fetchStub.restore()
+  }
+})
+
+Deno.test('rejects malformed per-language voices', () => {
+  assertThrows(() => getTtsProvider(envOf({ OPENAI_API_KEY: 'test-key', TTS_VOICES: 'klingon=worf' })))
+})
+
+Deno.test('rejects empty and oversized text and unknown languages', async () => {
+  const provider = createMockTtsProvider()
+  const handler = createSpeakHandler({ getProvider: () => provider })
+
+  for (const body of [{ text: '  ' }, { text: 'a'.repeat(4097) }, { text: 'Hi.', language: 'xx' }, '{"text": ']) {
+    const response = await handler(speakRequest(body))
+    assertEquals(response.status, 400)
+    assertEquals((await response.json()).error.code, 'BAD_REQUEST')
+  }
+  assertEquals(provider.requests.length, 0)
+})
+
+Deno.test('reports provider failures with their status', async () => {
+  const handler = createSpeakHandler({
+    getProvider: () => createMockTtsProvider({ failure: new ChatError('UPSTREAM_RATE_LIMITED', 'Slow down') }),
+  })
+  const response = await handler(speakRequest({ text: 'Hi.' }))
+
+  assertEquals(response.status, 429)
+  assertEquals((await response.json()).error, { code: 'UPSTREAM_RATE_LIMITED', message: 'Slow down' })
+})
+
+Deno.test('posts the text to a Piper server', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () =>
+    Promise.resolve(new Response(new Uint8Array([82, 73, 70, 70]), { status: 200 })),
+  )
+  try {
+    const handler = createSpeakHandler({
+      getProvider: () => getTtsProvider(envOf({ TTS_PROVIDER: 'piper', TTS_BASE_URL: 'http://localhost:5000' })),
+    })
+    const response = await handler(speakRequest({ text: 'Local voice.' }))
+
+    assertEquals(response.headers.get('X-Audio-Type'), 'audio/wav')
+    const [url, init] = fetchStub.calls[0].args
+    assertEquals(url, 'http://localhost:5000/')
+    assertEquals(init.body, 'Local voice.')
+  } finally {
+    fetchStub.restore()
+  }
+})
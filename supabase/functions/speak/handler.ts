@@ -0,0 +1,106 @@
+import { ChatError, toChatError } from '../_shared/chat-errors.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { isLanguageCode, LANGUAGES, type LanguageCode } from '../_shared/languages.ts'
+import type { AudioCache } from './cache/types.ts'
+import type { SynthesizedAudio, TtsProvider } from './providers/index.ts'
+
+// The OpenAI speech endpoint's input limit; replies are spoken a sentence at a time, far below it
+const MAX_TEXT_LENGTH = 4096
+
+const parseRequestBody = async (req: Request): Promise<{ text: string; language?: LanguageCode }> => {
+  let body
+  try {
+    body = await req.json()
+  } catch {
+    throw new ChatError('BAD_REQUEST', 'Request body must be valid JSON')
+  }
+
+  const { text, language } = body ?? {}
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new ChatError('BAD_REQUEST', '`text` must be a non-empty string')
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new ChatError('BAD_REQUEST', `\`text\` must be at most ${MAX_TEXT_LENGTH} characters`)
+  }
+
+  if (language != null && !isLanguageCode(language)) {
+    throw new ChatError('BAD_REQUEST', `\`language\` must be one of: ${Object.keys(LANGUAGES).join(', ')}`)
+  }
+
+  return { text: text.trim(), language: language ?? undefined }
+}
+
+// Same text, same voice, same audio: the key covers everything that changes the sound, not who asked
+const cacheKey = async (provider: TtsProvider, text: string, language?: LanguageCode) => {
+  const identity = JSON.stringify([provider.name, provider.model, provider.voiceFor(language), text])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(identity))
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `${hash.slice(0, 2)}/${hash}`
+}
+
+// Caching is best effort: a storage hiccup must never cost the user their audio
+const tryCache = async <T>(task: () => Promise<T>, fallback: T) => {
+  try {
+    return await task()
+  } catch (error) {
+    console.error('Audio cache unavailable:', error)
+    return fallback
+  }
+}
+
+const audioResponse = ({ audio, contentType }: SynthesizedAudio, key: string, cacheStatus: 'HIT' | 'MISS') =>
+  new Response(new Blob([audio]), {
+    headers: {
+      ...corsHeaders,
+      'Access-Control-Expose-Headers': 'X-Audio-Type, X-Cache, ETag',
+      // supabase-js only hands binary bodies back as a Blob for octet-stream, so the real type travels separately
+      'Content-Type': 'application/octet-stream',
+      'X-Audio-Type': contentType,
+      'X-Cache': cacheStatus,
+      ETag: `"${key.split('/')[1]}"`,
+    },
+    status: 200,
+  })
+
+const errorResponse = (error: ChatError) =>
+  new Response(JSON.stringify({ success: false, error: error.toPayload() }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: error.status,
+  })
+
+export interface SpeakHandlerDeps {
+  getProvider: () => TtsProvider
+  // Where synthesized audio is kept between requests; omitted to synthesize every time
+  cache?: AudioCache | null
+}
+
+// Turns text into audio with the configured TTS provider, serving repeated phrases from the cache
+export const createSpeakHandler = ({ getProvider, cache }: SpeakHandlerDeps) => async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { text, language } = await parseRequestBody(req)
+    const provider = getProvider()
+    const key = await cacheKey(provider, text, language)
+
+    const cached = cache ? await tryCache(() => cache.get(key), null) : null
+    if (cached) {
+      return audioResponse(cached, key, 'HIT')
+    }
+
+    const synthesized = await provider.synthesize(text, language)
+    if (synthesized.audio.length === 0) {
+      throw new ChatError('EMPTY_RESPONSE', 'No audio from TTS provider')
+    }
+
+    if (cache) {
+      await tryCache(() => cache.put(key, synthesized), undefined)
+    }
+    return audioResponse(synthesized, key, 'MISS')
+  } catch (error) {
+    console.error('Error in speak function:', error)
+    return errorResponse(toChatError(error))
+  }
+}
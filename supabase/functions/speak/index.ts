@@ -0,0 +1,7 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createMemoryAudioCache } from './cache/memory.ts'
+import { getStorageAudioCache } from './cache/storage.ts'
+import { createSpeakHandler } from './handler.ts'
+import { getTtsProvider } from './providers/index.ts'
+
+serve(createSpeakHandler({ getProvider: getTtsProvider, cache: getStorageAudioCache() ?? createMemoryAudioCache() }))
@@ -0,0 +1,85 @@
+import { ChatError, isChatErrorCode } from '../../_shared/chat-errors.ts'
+import { isLanguageCode, type LanguageCode } from '../../_shared/languages.ts'
+import { createMockTtsProvider } from './mock.ts'
+import { createOpenAITtsProvider } from './openai.ts'
+import { createPiperProvider } from './piper.ts'
+import type { TtsProvider } from './types.ts'
+
+export { createMockTtsProvider } from './mock.ts'
+export type { SynthesizedAudio, TtsProvider } from './types.ts'
+
+// Reads TTS_VOICES, e.g. `es=nova, ja=shimmer`: the voice to speak each listed language with
+const parseVoices = (value: string | undefined) => {
+  const voices: Partial<Record<LanguageCode, string>> = {}
+  for (const entry of (value ?? '').split(',').filter((entry) => entry.trim())) {
+    const [language, voice] = entry.split('=').map((part) => part.trim())
+    if (!isLanguageCode(language) || !voice) {
+      throw new ChatError('CONFIG_INVALID', `TTS_VOICES entries must look like es=nova, not "${entry.trim()}"`)
+    }
+    voices[language] = voice
+  }
+  return voices
+}
+
+// Picks the backend from the function's secrets:
+//   TTS_PROVIDER  openai (default) | openai-compatible | piper | mock
+//   TTS_MODEL     overrides the provider's default model (required for openai-compatible)
+//   TTS_VOICE     voice name for openai / openai-compatible (default alloy)
+//   TTS_VOICES    per-language voices for openai / openai-compatible, e.g. es=nova,ja=shimmer
+//   TTS_BASE_URL  required for openai-compatible and piper, optional for openai
+//   TTS_TIMEOUT_MS  how long to wait for audio (default 30s)
+//   TTS_API_KEY   optional for openai-compatible; OPENAI_API_KEY for openai
+//   MOCK_LATENCY_MS, MOCK_FAILURE  script the mock provider (failure as a ChatErrorCode)
+export const getTtsProvider = (env: (key: string) => string | undefined = (key) => Deno.env.get(key)): TtsProvider => {
+  const providerName = (env('TTS_PROVIDER') ?? 'openai').toLowerCase()
+  const model = env('TTS_MODEL')
+  const voice = env('TTS_VOICE') ?? 'alloy'
+  const voices = parseVoices(env('TTS_VOICES'))
+  const baseUrl = env('TTS_BASE_URL')
+  const timeoutMs = env('TTS_TIMEOUT_MS') ? Number(env('TTS_TIMEOUT_MS')) : undefined
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new ChatError('CONFIG_MISSING_KEY', 'OpenAI API key not configured')
+      }
+      return createOpenAITtsProvider({ apiKey, baseUrl, model: model ?? 'tts-1', voice, voices, timeoutMs })
+    }
+
+    case 'openai-compatible': {
+      if (!baseUrl || !model) {
+        throw new ChatError('CONFIG_INVALID', 'TTS_BASE_URL and TTS_MODEL must be set for the openai-compatible provider')
+      }
+      return createOpenAITtsProvider({
+        name: 'OpenAI-compatible',
+        apiKey: env('TTS_API_KEY'),
+        baseUrl,
+        model,
+        voice,
+        voices,
+        timeoutMs,
+      })
+    }
+
+    case 'piper': {
+      if (!baseUrl) {
+        throw new ChatError('CONFIG_INVALID', 'TTS_BASE_URL must be set for the piper provider')
+      }
+      return createPiperProvider({ baseUrl, timeoutMs })
+    }
+
+    case 'mock': {
+      const failure = env('MOCK_FAILURE')
+      return createMockTtsProvider({
+        latencyMs: Number(env('MOCK_LATENCY_MS') ?? 0),
+        failure: failure
+          ? new ChatError(isChatErrorCode(failure) ? failure : 'UPSTREAM_ERROR', `Mock failure: ${failure}`)
+          : undefined,
+      })
+    }
+
+    default:
+      throw new ChatError('CONFIG_INVALID', `Unknown TTS provider: ${providerName}`)
+  }
+}
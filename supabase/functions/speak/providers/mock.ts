@@ -0,0 +1,34 @@
+import type { TtsProvider } from './types.ts'
+
+export interface MockTtsProviderConfig {
+  latencyMs?: number
+  // When set, every request rejects with this error
+  failure?: Error
+}
+
+export interface MockTtsProvider extends TtsProvider {
+  // Every text the provider was asked to speak, oldest first
+  requests: string[]
+}
+
+// Deterministic stand-in for a real voice: the "audio" is the UTF-8 text itself, so tests can check what was spoken
+export const createMockTtsProvider = ({ latencyMs = 0, failure }: MockTtsProviderConfig = {}): MockTtsProvider => {
+  const requests: string[] = []
+
+  return {
+    name: 'Mock',
+    model: 'mock',
+    voiceFor: (language) => (language ? `mock-${language}` : 'mock'),
+    requests,
+    async synthesize(text) {
+      requests.push(text)
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs))
+      }
+      if (failure) {
+        throw failure
+      }
+      return { audio: new TextEncoder().encode(text), contentType: 'audio/wav' }
+    },
+  }
+}
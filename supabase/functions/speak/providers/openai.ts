@@ -0,0 +1,45 @@
+import type { LanguageCode } from '../../_shared/languages.ts'
+import { fetchUpstream } from '../../chat/providers/http.ts'
+import type { TtsProvider } from './types.ts'
+
+interface OpenAITtsProviderConfig {
+  name?: string
+  apiKey?: string
+  baseUrl?: string
+  model: string
+  voice: string
+  // Voices to use instead of `voice` for particular languages
+  voices?: Partial<Record<LanguageCode, string>>
+  timeoutMs?: number
+}
+
+// Works against api.openai.com and any server exposing the same /audio/speech API (Kokoro-FastAPI, openedai-speech)
+export const createOpenAITtsProvider = ({
+  name = 'OpenAI',
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model,
+  voice,
+  voices = {},
+  timeoutMs,
+}: OpenAITtsProviderConfig): TtsProvider => {
+  const voiceFor = (language?: LanguageCode) => (language && voices[language]) || voice
+
+  return {
+    name,
+    model,
+    voiceFor,
+    async synthesize(text, language) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`
+      }
+
+      const response = await fetchUpstream(name, `${baseUrl.replace(/\/+$/, '')}/audio/speech`, {
+        headers,
+        body: JSON.stringify({ model, voice: voiceFor(language), input: text, response_format: 'mp3' }),
+      }, timeoutMs)
+      return { audio: new Uint8Array(await response.arrayBuffer()), contentType: 'audio/mpeg' }
+    },
+  }
+}
@@ -0,0 +1,22 @@
+import { fetchUpstream } from '../../chat/providers/http.ts'
+import type { TtsProvider } from './types.ts'
+
+interface PiperProviderConfig {
+  baseUrl: string
+  timeoutMs?: number
+}
+
+// Piper's bundled HTTP server (`python -m piper.http_server -m <voice>`), for fully local speech.
+// It speaks with whichever voice it was started with.
+export const createPiperProvider = ({ baseUrl, timeoutMs }: PiperProviderConfig): TtsProvider => ({
+  name: 'Piper',
+  model: 'piper',
+  voiceFor: () => 'default',
+  async synthesize(text) {
+    const response = await fetchUpstream('Piper', baseUrl.replace(/\/+$/, '') + '/', {
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: text,
+    }, timeoutMs)
+    return { audio: new Uint8Array(await response.arrayBuffer()), contentType: 'audio/wav' }
+  },
+})
@@ -0,0 +1,17 @@
+import type { LanguageCode } from '../../_shared/languages.ts'
+
+export interface SynthesizedAudio {
+  // Backed by a plain ArrayBuffer, so it can go straight into a Blob or Response body
+  audio: Uint8Array<ArrayBuffer>
+  // MIME type of `audio`, e.g. audio/mpeg
+  contentType: string
+}
+
+// A text-to-speech backend; adapters translate the text into the vendor's request format
+export interface TtsProvider {
+  name: string
+  model: string
+  // The voice that speaks `language`; without a language, the provider's default voice
+  voiceFor(language?: LanguageCode): string
+  synthesize(text: string, language?: LanguageCode): Promise<SynthesizedAudio>
+}
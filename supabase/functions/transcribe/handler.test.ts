@@ -0,0 +1,104 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { stub } from 'https://deno.land/std@0.168.0/testing/mock.ts'
+import { ChatError } from '../_shared/chat-errors.ts'
+import { createTranscribeHandler } from './handler.ts'
+import { createMockSttProvider, getSttProvider } from './providers/index.ts'
+
+const recording = () => new Blob([new Uint8Array([26, 69, 223, 163, 1, 2, 3])], { type: 'audio/webm' })
+
+const transcribeRequest = (fields: Record<string, string | Blob>) => {
+  const form = new FormData()
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value)
+  }
+  return new Request('http://localhost/functions/v1/transcribe', { method: 'POST', body: form })
+}
+
+const envOf = (values: Record<string, string>) => (key: string) => values[key]
+
+Deno.test('answers CORS preflight requests', async () => {
+  const handler = createTranscribeHandler({ getProvider: () => createMockSttProvider() })
+  const response = await handler(new Request('http://localhost/functions/v1/transcribe', { method: 'OPTIONS' }))
+
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Access-Control-Allow-Origin'), '*')
+})
+
+Deno.test('returns the transcript of the uploaded recording', async () => {
+  const provider = createMockSttProvider({ transcripts: [' What time is it in Tokyo? '] })
+  const handler = createTranscribeHandler({ getProvider: () => provider })
+
+  const response = await handler(transcribeRequest({ audio: recording(), language: 'en' }))
+
+  assertEquals(await response.json(), { success: true, text: 'What time is it in Tokyo?' })
+  assertEquals(provider.requests[0].audio.size, 7)
+  assertEquals(provider.requests[0].options, { language: 'en' })
+})
+
+Deno.test('leaves the language to the model when none is given', async () => {
+  const provider = createMockSttProvider()
+  const handler = createTranscribeHandler({ getProvider: () => provider })
+
+  await handler(transcribeRequest({ audio: recording() }))
+
+  assertEquals(provider.requests[0].options, { language: undefined })
+})
+
+Deno.test('rejects requests without audio', async () => {
+  const provider = createMockSttProvider()
+  const handler = createTranscribeHandler({ getProvider: () => provider })
+
+  for (const request of [
+    transcribeRequest({ language: 'en' }),
+    new Request('http://localhost/functions/v1/transcribe', { method: 'POST', body: '{}' }),
+  ]) {
+    const response = await handler(request)
+    assertEquals(response.status, 400)
+    assertEquals((await response.json()).error.code, 'BAD_REQUEST')
+  }
+  assertEquals(provider.requests.length, 0)
+})
+
+Deno.test('rejects unsupported languages', async () => {
+  const handler = createTranscribeHandler({ getProvider: () => createMockSttProvider() })
+  const response = await handler(transcribeRequest({ audio: recording(), language: 'klingon' }))
+
+  assertEquals(response.status, 400)
+})
+
+Deno.test('reports provider failures with their status', async () => {
+  const handler = createTranscribeHandler({
+    getProvider: () => createMockSttProvider({ failure: new ChatError('UPSTREAM_TIMEOUT', 'Too slow') }),
+  })
+  const response = await handler(transcribeRequest({ audio: recording() }))
+
+  assertEquals(response.status, 504)
+  assertEquals((await response.json()).error, { code: 'UPSTREAM_TIMEOUT', message: 'Too slow' })
+})
+
+Deno.test('reports a missing API key', async () => {
+  const handler = createTranscribeHandler({ getProvider: () => getSttProvider(envOf({})) })
+  const response = await handler(transcribeRequest({ audio: recording() }))
+
+  assertEquals(response.status, 500)
+  assertEquals((await response.json()).error.code, 'CONFIG_MISSING_KEY')
+})
+
+Deno.test('uploads the recording to a whisper.cpp server', async () => {
+  const fetchStub = stub(globalThis, 'fetch', () =>
+    Promise.resolve(new Response(JSON.stringify({ text: ' Hola. ' }), { status: 200 })),
+  )
+  try {
+    const handler = createTranscribeHandler({
+      getProvider: () => getSttProvider(envOf({ STT_PROVIDER: 'whisper-cpp', STT_BASE_URL: 'http://localhost:8080/' })),
+    })
+    const response = await handler(transcribeRequest({ audio: recording() }))
+
+    assertEquals(await response.json(), { success: true, text: 'Hola.' })
+    const [url, init] = fetchStub.calls[0].args
+    assertEquals(url, 'http://localhost:8080/inference')
+    assertEquals((init.body as FormData).get('language'), 'auto')
+  } finally {
+    fetchStub.restore()
+  }
+})
@@ -0,0 +1,68 @@
+import { ChatError, toChatError } from '../_shared/chat-errors.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { isLanguageCode, LANGUAGES, type LanguageCode } from '../_shared/languages.ts'
+import type { SttProvider } from './providers/index.ts'
+
+// Matches the OpenAI transcription upload limit; a spoken question is a tiny fraction of this
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024
+
+interface TranscribeRequestBody {
+  audio: Blob
+  language?: LanguageCode
+}
+
+// Expects multipart/form-data with the recording as `audio` and an optional `language` code
+const parseRequestBody = async (req: Request): Promise<TranscribeRequestBody> => {
+  let form
+  try {
+    form = await req.formData()
+  } catch {
+    throw new ChatError('BAD_REQUEST', 'Request body must be multipart/form-data')
+  }
+
+  const audio = form.get('audio')
+  if (!(audio instanceof Blob) || audio.size === 0) {
+    throw new ChatError('BAD_REQUEST', '`audio` must be a non-empty file')
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    throw new ChatError('BAD_REQUEST', '`audio` must be at most 25 MB')
+  }
+
+  const language = form.get('language') || undefined
+  if (language !== undefined && !isLanguageCode(language)) {
+    throw new ChatError('BAD_REQUEST', `\`language\` must be one of: ${Object.keys(LANGUAGES).join(', ')}`)
+  }
+
+  return { audio, language }
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+export interface TranscribeHandlerDeps {
+  getProvider: () => SttProvider
+}
+
+// Server-side speech-to-text for browsers without the Web Speech API (or users who want better accuracy).
+// Silence transcribes to an empty `text` rather than an error.
+export const createTranscribeHandler = ({ getProvider }: TranscribeHandlerDeps) => async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { audio, language } = await parseRequestBody(req)
+    const provider = getProvider()
+
+    const text = (await provider.transcribe(audio, { language })).trim()
+
+    return jsonResponse({ success: true, text }, 200)
+  } catch (error) {
+    console.error('Error in transcribe function:', error)
+    const chatError = toChatError(error)
+    return jsonResponse({ success: false, error: chatError.toPayload() }, chatError.status)
+  }
+}
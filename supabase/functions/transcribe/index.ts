@@ -0,0 +1,5 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createTranscribeHandler } from './handler.ts'
+import { getSttProvider } from './providers/index.ts'
+
+serve(createTranscribeHandler({ getProvider: getSttProvider }))
@@ -0,0 +1,62 @@
+import { ChatError, isChatErrorCode } from '../../_shared/chat-errors.ts'
+import { createMockSttProvider } from './mock.ts'
+import { createWhisperCppProvider } from './whisper-cpp.ts'
+import { createWhisperProvider } from './whisper.ts'
+import type { SttProvider } from './types.ts'
+
+export { createMockSttProvider } from './mock.ts'
+export type { SttProvider, TranscriptionOptions } from './types.ts'
+
+// Picks the backend from the function's secrets:
+//   STT_PROVIDER  openai (default) | openai-compatible | whisper-cpp | mock
+//   STT_MODEL     overrides the provider's default model
+//   STT_BASE_URL  required for openai-compatible and whisper-cpp, optional for openai
+//   STT_TIMEOUT_MS  how long to wait for a transcript (default 30s)
+//   STT_API_KEY   optional for openai-compatible; OPENAI_API_KEY for openai
+//   MOCK_TRANSCRIPTS, MOCK_LATENCY_MS, MOCK_FAILURE  script the mock provider (transcripts as a JSON array,
+//                 failure as a ChatErrorCode)
+export const getSttProvider = (env: (key: string) => string | undefined = (key) => Deno.env.get(key)): SttProvider => {
+  const providerName = (env('STT_PROVIDER') ?? 'openai').toLowerCase()
+  const model = env('STT_MODEL')
+  const baseUrl = env('STT_BASE_URL')
+  const timeoutMs = env('STT_TIMEOUT_MS') ? Number(env('STT_TIMEOUT_MS')) : undefined
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = env('OPENAI_API_KEY')
+      if (!apiKey) {
+        throw new ChatError('CONFIG_MISSING_KEY', 'OpenAI API key not configured')
+      }
+      return createWhisperProvider({ apiKey, baseUrl, model: model ?? 'whisper-1', timeoutMs })
+    }
+
+    case 'openai-compatible': {
+      if (!baseUrl || !model) {
+        throw new ChatError('CONFIG_INVALID', 'STT_BASE_URL and STT_MODEL must be set for the openai-compatible provider')
+      }
+      return createWhisperProvider({ name: 'OpenAI-compatible', apiKey: env('STT_API_KEY'), baseUrl, model, timeoutMs })
+    }
+
+    case 'whisper-cpp': {
+      if (!baseUrl) {
+        throw new ChatError('CONFIG_INVALID', 'STT_BASE_URL must be set for the whisper-cpp provider')
+      }
+      return createWhisperCppProvider({ baseUrl, timeoutMs })
+    }
+
+    case 'mock': {
+      const transcripts = env('MOCK_TRANSCRIPTS')
+      const failure = env('MOCK_FAILURE')
+      return createMockSttProvider({
+        transcripts: transcripts ? JSON.parse(transcripts) : undefined,
+        latencyMs: Number(env('MOCK_LATENCY_MS') ?? 0),
+        failure: failure
+          ? new ChatError(isChatErrorCode(failure) ? failure : 'UPSTREAM_ERROR', `Mock failure: ${failure}`)
+          : undefined,
+      })
+    }
+
+    default:
+      throw new ChatError('CONFIG_INVALID', `Unknown STT provider: ${providerName}`)
+  }
+}
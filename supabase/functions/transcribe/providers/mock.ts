@@ -0,0 +1,39 @@
+import type { SttProvider, TranscriptionOptions } from './types.ts'
+
+export interface MockSttProviderConfig {
+  // Transcripts are handed out in order; the last one repeats once the script runs out
+  transcripts?: string[]
+  latencyMs?: number
+  // When set, every request rejects with this error
+  failure?: Error
+}
+
+export interface MockSttProvider extends SttProvider {
+  // Every recording the provider was asked to transcribe, oldest first
+  requests: { audio: Blob; options: TranscriptionOptions }[]
+}
+
+// Deterministic stand-in for a real speech-to-text model, used by the test suite and for offline development
+export const createMockSttProvider = ({
+  transcripts = ['This is a mock transcript.'],
+  latencyMs = 0,
+  failure,
+}: MockSttProviderConfig = {}): MockSttProvider => {
+  const requests: MockSttProvider['requests'] = []
+
+  return {
+    name: 'Mock',
+    model: 'mock',
+    requests,
+    async transcribe(audio, options) {
+      requests.push({ audio, options })
+      if (latencyMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, latencyMs))
+      }
+      if (failure) {
+        throw failure
+      }
+      return transcripts[Math.min(requests.length - 1, transcripts.length - 1)] ?? ''
+    },
+  }
+}
@@ -0,0 +1,11 @@
+export interface TranscriptionOptions {
+  // ISO 639-1 code of the spoken language; omitted to let the model detect it
+  language?: string
+}
+
+// A speech-to-text backend; adapters translate the recording into the vendor's upload format
+export interface SttProvider {
+  name: string
+  model: string
+  transcribe(audio: Blob, options: TranscriptionOptions): Promise<string>
+}
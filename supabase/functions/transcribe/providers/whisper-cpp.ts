@@ -0,0 +1,26 @@
+import { fetchUpstream } from '../../chat/providers/http.ts'
+import type { SttProvider } from './types.ts'
+
+interface WhisperCppProviderConfig {
+  baseUrl: string
+  timeoutMs?: number
+}
+
+// The example HTTP server that ships with whisper.cpp (`whisper-server`), for fully local transcription
+export const createWhisperCppProvider = ({ baseUrl, timeoutMs }: WhisperCppProviderConfig): SttProvider => ({
+  name: 'whisper.cpp',
+  // The server transcribes with whichever model it was started with
+  model: 'whisper.cpp',
+  async transcribe(audio, { language }) {
+    const form = new FormData()
+    form.append('file', audio, 'speech.webm')
+    form.append('response_format', 'json')
+    form.append('language', language ?? 'auto')
+
+    const response = await fetchUpstream('whisper.cpp', `${baseUrl.replace(/\/+$/, '')}/inference`, {
+      body: form,
+    }, timeoutMs)
+    const data = await response.json()
+    return typeof data.text === 'string' ? data.text : ''
+  },
+})
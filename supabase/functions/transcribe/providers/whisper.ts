@@ -0,0 +1,44 @@
+import { fetchUpstream } from '../../chat/providers/http.ts'
+import type { SttProvider } from './types.ts'
+
+interface WhisperProviderConfig {
+  name?: string
+  apiKey?: string
+  baseUrl?: string
+  model: string
+  timeoutMs?: number
+}
+
+// Works against api.openai.com and any server exposing the same /audio/transcriptions API
+// (faster-whisper-server, LocalAI, vLLM)
+export const createWhisperProvider = ({
+  name = 'OpenAI',
+  apiKey,
+  baseUrl = 'https://api.openai.com/v1',
+  model,
+  timeoutMs,
+}: WhisperProviderConfig): SttProvider => ({
+  name,
+  model,
+  async transcribe(audio, { language }) {
+    const form = new FormData()
+    form.append('file', audio, 'speech.webm')
+    form.append('model', model)
+    form.append('response_format', 'json')
+    if (language) {
+      form.append('language', language)
+    }
+
+    const headers: Record<string, string> = {}
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`
+    }
+
+    const response = await fetchUpstream(name, `${baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+      headers,
+      body: form,
+    }, timeoutMs)
+    const data = await response.json()
+    return typeof data.text === 'string' ? data.text : ''
+  },
+})
@@ -0,0 +1,65 @@
+import { assertEquals, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { ChatError } from '../_shared/chat-errors.ts'
+import { createMockProvider } from '../chat/providers/index.ts'
+import { createTranslateHandler } from './handler.ts'
+
+const translateRequest = (body: unknown) =>
+  new Request('http://localhost/functions/v1/translate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+
+Deno.test('answers CORS preflight requests', async () => {
+  const handler = createTranslateHandler({ getProvider: () => createMockProvider() })
+  const response = await handler(new Request('http://localhost/functions/v1/translate', { method: 'OPTIONS' }))
+
+  assertEquals(response.status, 200)
+  assertEquals(response.headers.get('Access-Control-Allow-Origin'), '*')
+})
+
+Deno.test('translates the text between the requested languages', async () => {
+  const provider = createMockProvider({ replies: ['  ¿Dónde está la estación?\n'] })
+  const handler = createTranslateHandler({ getProvider: () => provider })
+
+  const response = await handler(translateRequest({ text: 'Where is the station?', from: 'en', to: 'es' }))
+
+  assertEquals(await response.json(), {
+    success: true,
+    translation: '¿Dónde está la estación?',
+    from: 'en',
+    to: 'es',
+  })
+  const [[system, user]] = provider.requests
+  assertStringIncludes(system.content, 'from English (English) into Spanish (Español)')
+  assertEquals(user, { role: 'user', content: 'Where is the station?' })
+})
+
+Deno.test('rejects unsupported or identical languages', async () => {
+  const provider = createMockProvider()
+  const handler = createTranslateHandler({ getProvider: () => provider })
+
+  for (const body of [{ text: 'Hoi', from: 'nl', to: 'en' }, { text: 'Hello', from: 'en', to: 'en' }]) {
+    const response = await handler(translateRequest(body))
+    assertEquals(response.status, 400)
+    assertEquals((await response.json()).error.code, 'BAD_REQUEST')
+  }
+  assertEquals(provider.requests.length, 0)
+})
+
+Deno.test('rejects empty text', async () => {
+  const handler = createTranslateHandler({ getProvider: () => createMockProvider() })
+  const response = await handler(translateRequest({ text: '  ', from: 'en', to: 'fr' }))
+
+  assertEquals(response.status, 400)
+})
+
+Deno.test('reports provider failures with their status', async () => {
+  const handler = createTranslateHandler({
+    getProvider: () => createMockProvider({ failure: new ChatError('UPSTREAM_RATE_LIMITED', 'Slow down') }),
+  })
+  const response = await handler(translateRequest({ text: 'Hello', from: 'en', to: 'de' }))
+
+  assertEquals(response.status, 429)
+  assertEquals((await response.json()).error, { code: 'UPSTREAM_RATE_LIMITED', message: 'Slow down' })
+})
@@ -0,0 +1,5 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { getProvider } from '../chat/providers/index.ts'
+import { createTranslateHandler } from './handler.ts'
+
+serve(createTranslateHandler({ getProvider }))
@@ -0,0 +1,65 @@
+-- Conversations and their messages, owned by the (possibly anonymous) Supabase auth user
+
+create table public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index conversations_user_id_updated_at_idx on public.conversations (user_id, updated_at desc);
+
+create table public.messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index messages_conversation_id_created_at_idx on public.messages (conversation_id, created_at);
+
+-- Keep the most recently active conversation first
+create function public.touch_conversation()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  update public.conversations set updated_at = now() where id = new.conversation_id;
+  return new;
+end;
+$$;
+
+create trigger messages_touch_conversation
+  after insert on public.messages
+  for each row execute function public.touch_conversation();
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.conversations
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage messages in their own conversations"
+  on public.messages
+  for all
+  to authenticated
+  using (
+    exists (
+      select 1 from public.conversations
+      where conversations.id = messages.conversation_id and conversations.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.conversations
+      where conversations.id = messages.conversation_id and conversations.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,48 @@
+-- Full-text search across message content, plus titles for conversations created before titles were generated
+
+alter table public.messages
+  add column search tsvector generated always as (to_tsvector('simple', content)) stored;
+
+create index messages_search_idx on public.messages using gin (search);
+
+update public.conversations
+set title = left(first_message.content, 60)
+from (
+  select distinct on (conversation_id) conversation_id, content
+  from public.messages
+  where role = 'user'
+  order by conversation_id, created_at
+) as first_message
+where conversations.id = first_message.conversation_id and conversations.title is null;
+
+-- Conversations whose title or messages match the query, best match first.
+-- Runs as the caller, so row level security limits results to their own conversations.
+create function public.search_conversations(search_query text)
+returns table (id uuid, title text, updated_at timestamptz, snippet text)
+language sql
+stable
+set search_path = ''
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as tsq
+  ),
+  matches as (
+    select
+      m.conversation_id,
+      max(ts_rank(m.search, query.tsq)) as rank,
+      (array_agg(m.content order by ts_rank(m.search, query.tsq) desc))[1] as best_content
+    from public.messages m, query
+    where m.search @@ query.tsq
+    group by m.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.updated_at,
+    left(matches.best_content, 120) as snippet
+  from public.conversations c
+  left join matches on matches.conversation_id = c.id
+  where matches.conversation_id is not null or c.title ilike '%' || search_query || '%'
+  order by coalesce(matches.rank, 0) desc, c.updated_at desc
+  limit 50;
+$$;
@@ -0,0 +1,4 @@
+-- Replies the user talked over (barge-in) are kept, flagged, with the text streamed up to that point
+
+alter table public.messages
+  add column interrupted boolean not null default false;
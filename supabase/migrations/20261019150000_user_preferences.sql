@@ -0,0 +1,31 @@
+-- Per-user preferences (voice, speech rate, recognition language, ...) so they follow the user across devices
+
+create table public.user_preferences (
+  user_id uuid primary key default auth.uid() references auth.users (id) on delete cascade,
+  voice jsonb not null default '{}'::jsonb,
+  updated_at timestamptz not null default now()
+);
+
+create function public.touch_user_preferences()
+returns trigger
+language plpgsql
+set search_path = ''
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger user_preferences_touch
+  before update on public.user_preferences
+  for each row execute function public.touch_user_preferences();
+
+alter table public.user_preferences enable row level security;
+
+create policy "Users manage their own preferences"
+  on public.user_preferences
+  for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
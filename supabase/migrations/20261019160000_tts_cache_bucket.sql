@@ -0,0 +1,6 @@
+-- Private bucket for the `speak` function's synthesized audio, keyed by content hash.
+-- Only the function's service role reads and writes it, so no storage policies are needed.
+
+insert into storage.buckets (id, name, public)
+values ('tts-cache', 'tts-cache', false)
+on conflict (id) do nothing;
@@ -0,0 +1,31 @@
+-- Match titles against the search text literally: with `ilike`, a `%` or `_` the user typed acted as a wildcard
+
+create or replace function public.search_conversations(search_query text)
+returns table (id uuid, title text, updated_at timestamptz, snippet text)
+language sql
+stable
+set search_path = ''
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as tsq
+  ),
+  matches as (
+    select
+      m.conversation_id,
+      max(ts_rank(m.search, query.tsq)) as rank,
+      (array_agg(m.content order by ts_rank(m.search, query.tsq) desc))[1] as best_content
+    from public.messages m, query
+    where m.search @@ query.tsq
+    group by m.conversation_id
+  )
+  select
+    c.id,
+    c.title,
+    c.updated_at,
+    left(matches.best_content, 120) as snippet
+  from public.conversations c
+  left join matches on matches.conversation_id = c.id
+  where matches.conversation_id is not null or strpos(lower(c.title), lower(search_query)) > 0
+  order by coalesce(matches.rank, 0) desc, c.updated_at desc
+  limit 50;
+$$;